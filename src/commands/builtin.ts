@@ -0,0 +1,534 @@
+import chalk from 'chalk';
+import { CommandRegistry, CommandDefinition } from '../utils/command-registry';
+import { openWorkOrder } from './open';
+import { pushStack } from './push';
+import { createLog, listLogs, openLog } from './log';
+import { initWorkOrder } from './init-enhanced';
+import { listWorkOrders } from './list';
+import { getWorkOrderDetails } from './details';
+import { addService, addPartToService } from './service';
+import { closeWorkOrder } from './close';
+import { openNotes, importNotes, diffNotes } from './note';
+import { lintWorkOrder } from './lint';
+import { captureService } from './svc';
+import { stackWorkOrder, displayStack, clearStack } from './stack';
+import { startDay, endDay, dayStatus, daysSummary } from './day';
+import { timerStatus, startTimer, switchTimer, pauseTimer, resumeTimer, stopTimer } from './timer';
+import { deleteDuplicates } from './del-dups';
+import { configureApp, showConfig, setConfigValue } from './config';
+import { deleteMonth } from './delete-month';
+import { setCredentials, rotateCredentials, forgetCredentials } from './creds';
+import { showEnvironments, useEnvironment } from './env';
+import { addProfile, listProfiles, useProfile } from './profile';
+import { showWorkspace, migrateWorkspace } from './workspace';
+import { runScript } from './run';
+import { listAliases, setAlias, listMacros, setMacro, removeUserCommand } from './macro';
+import { listVerbCodes, listNounCodes, showCode } from './codes';
+
+const WORK_ORDERS = 'Work Order Management';
+const DAYS = 'Day Tracking';
+const STACK = 'Stack Management';
+const LOGS = 'Journal Logs';
+const GENERAL = 'General Commands';
+
+/**
+ * Definitions of every built-in command, in help order
+ */
+export const BUILT_IN_COMMANDS: CommandDefinition[] = [
+  // Work order management
+  {
+    name: 'init',
+    group: WORK_ORDERS,
+    description: 'Initialize a new work order',
+    args: [
+      { name: 'wo-number', type: 'workOrder', description: '7-digit work order number' },
+      { name: 'control-number', type: 'string', description: '8-digit control number', required: false }
+    ],
+    flags: [{ name: 'template', type: 'string', description: 'Seed the notes from templates/<name>.md' }],
+    examples: ['init 1234567', 'init 1234567 12345678', 'init 1234567 12345678 --template infusion-pm'],
+    handler: async ({ args, flags }) => chalk.green(await initWorkOrder(args['wo-number'], args['control-number'], flags.template))
+  },
+  {
+    name: 'list',
+    aliases: ['ls'],
+    group: WORK_ORDERS,
+    description: 'List all existing work orders',
+    handler: async () => await listWorkOrders()
+  },
+  {
+    name: 'details',
+    aliases: ['show'],
+    group: WORK_ORDERS,
+    description: 'Show detailed information for a work order',
+    args: [{ name: 'wo-number', type: 'workOrder', description: '7-digit work order number' }],
+    handler: async ({ args }) => await getWorkOrderDetails(args['wo-number'])
+  },
+  {
+    name: 'service',
+    aliases: ['add-service'],
+    group: WORK_ORDERS,
+    description: 'Add a service to a work order',
+    args: [
+      { name: 'wo-number', type: 'workOrder', description: '7-digit work order number' },
+      { name: 'verb', type: 'verb', description: 'Verb keyword from tables/verbs.csv' },
+      { name: 'noun', type: 'noun', description: 'Noun keyword from tables/nouns.csv (quote multi-word nouns)' },
+      { name: 'duration', type: 'integer', description: 'Service time in minutes', required: false, default: 0 }
+    ],
+    examples: ['service 1234567 Repaired Battery/Batteries 30', 'service 1234567 Replaced "Air Tube" 15'],
+    handler: async ({ args }) => await addService(args['wo-number'], args.verb, args.noun, args.duration)
+  },
+  {
+    name: 'part',
+    aliases: ['add-part'],
+    group: WORK_ORDERS,
+    description: 'Add a part to a service',
+    args: [
+      { name: 'wo-number', type: 'workOrder', description: '7-digit work order number' },
+      { name: 'service-index', type: 'integer', description: 'Service number as shown by details' },
+      { name: 'part-number', type: 'string', description: 'Part number' },
+      { name: 'quantity', type: 'integer', description: 'Quantity used', required: false, default: 1 },
+      { name: 'cost', type: 'number', description: 'Cost per part', required: false }
+    ],
+    examples: ['part 1234567 1 BAT-123 2 45.50'],
+    handler: async ({ args }) => await addPartToService(args['wo-number'], args['service-index'], args['part-number'], args.quantity, args.cost)
+  },
+  {
+    name: 'close',
+    group: WORK_ORDERS,
+    description: 'Close a work order',
+    args: [{ name: 'wo-number', type: 'workOrder', description: '7-digit work order number' }],
+    handler: async ({ args }) => await closeWorkOrder(args['wo-number'])
+  },
+  {
+    name: 'note',
+    group: WORK_ORDERS,
+    description: 'Open notes for a work order',
+    args: [{ name: 'wo-number', type: 'workOrder', description: '7-digit work order number' }],
+    handler: async ({ args }) => chalk.green(await openNotes(args['wo-number']))
+  },
+  {
+    name: 'svc',
+    group: WORK_ORDERS,
+    description: 'Append a service line stamped with the current time to a work order\'s notes',
+    args: [
+      { name: 'wo-number', type: 'workOrder', description: '7-digit work order number' },
+      { name: 'entry', type: 'string', description: 'Verb[, Noun] => notes; the notes are kept exactly as typed', rest: true }
+    ],
+    flags: [
+      { name: 'at', type: 'string', description: 'Time instead of now: HH:MM today, or "YYYY-MM-DD HH:MM" (before =>)' },
+      { name: 'dur', type: 'string', description: 'Explicit duration, e.g. 20m, 1h15m or 1.5h (before =>)' }
+    ],
+    rawTail: '=>',
+    examples: [
+      'svc 1234567 Replaced, Battery/Batteries => Replaced main battery, tested OK',
+      'svc 1234567 --at 14:30 --dur 20m Tested, Power Supply => Passed electrical safety, didn\'t need recal'
+    ],
+    handler: async ({ args, flags }) => await captureService(args['wo-number'], args.entry, flags.at, flags.dur)
+  },
+  {
+    name: 'lint',
+    group: WORK_ORDERS,
+    description: 'Check the service lines in a work order\'s notes',
+    args: [{ name: 'wo-number', type: 'workOrder', description: '7-digit work order number' }],
+    flags: [{ name: 'fix', type: 'boolean', description: 'Fix capitalization, timestamp padding and spacing in place' }],
+    examples: ['lint 1234567', 'lint 1234567 --fix'],
+    handler: async ({ args, flags }) => await lintWorkOrder(args['wo-number'], !!flags.fix)
+  },
+  {
+    name: 'import',
+    group: WORK_ORDERS,
+    description: 'Import new notes and services from Medimizer into the notes file',
+    args: [{ name: 'wo-number', type: 'workOrder', description: '7-digit work order number' }],
+    flags: [{ name: 'replace', type: 'boolean', description: 'Overwrite the notes file instead of merging (a .bak is kept)' }],
+    examples: ['import 1234567', 'import 1234567 --replace'],
+    handler: async ({ args, flags }) => chalk.green(await importNotes(args['wo-number'], !!flags.replace))
+  },
+  {
+    name: 'notes-diff',
+    group: WORK_ORDERS,
+    description: 'Show what changed in the Medimizer notes since they were imported',
+    args: [{ name: 'wo-number', type: 'workOrder', description: '7-digit work order number' }],
+    handler: async ({ args }) => await diffNotes(args['wo-number'])
+  },
+  {
+    name: 'open',
+    group: WORK_ORDERS,
+    description: 'Open a work order in Medimizer (browser stays open)',
+    args: [{ name: 'wo-number', type: 'workOrder', description: '7-digit work order number' }],
+    handler: async ({ args }) => chalk.green(await openWorkOrder(args['wo-number']))
+  },
+  {
+    name: 'del-dups',
+    group: WORK_ORDERS,
+    description: 'Delete duplicate services for a work order in Medimizer',
+    args: [{ name: 'wo-number', type: 'workOrder', description: '7-digit work order number' }],
+    handler: async ({ args }) => await deleteDuplicates(args['wo-number'])
+  },
+  {
+    name: 'delete-month',
+    group: WORK_ORDERS,
+    description: 'Delete the active technician\'s services from a specific month/year',
+    args: [
+      { name: 'month', type: 'string', description: 'Month (1-12)' },
+      { name: 'year', type: 'string', description: 'Year (YYYY)' },
+      { name: 'wo-number-or-list', type: 'string', description: 'A work order number or a list like [1234567,1234568]' }
+    ],
+    examples: ['delete-month 10 2025 1234567', 'delete-month 10 2025 [1234567,1234568,1234569]'],
+    handler: async ({ args }) => await deleteMonth(args.month, args.year, args['wo-number-or-list'])
+  },
+
+  // Day tracking
+  {
+    name: 'start-day',
+    group: DAYS,
+    description: 'Start a new work day',
+    handler: async () => await startDay()
+  },
+  {
+    name: 'end-day',
+    group: DAYS,
+    description: 'End the current work day and show summary',
+    handler: async () => await endDay()
+  },
+  {
+    name: 'day-status',
+    group: DAYS,
+    description: 'Show status of the current day',
+    handler: async () => await dayStatus()
+  },
+  {
+    name: 'timer',
+    group: DAYS,
+    description: 'Show the running service timer',
+    handler: async () => await timerStatus(),
+    subcommands: [
+      {
+        name: 'start',
+        description: 'Start timing a service on a work order',
+        args: [
+          { name: 'wo-number', type: 'workOrder', description: '7-digit work order number' },
+          { name: 'service', type: 'string', description: 'Verb[, Noun]', rest: true }
+        ],
+        examples: ['timer start 1234567 Replaced, Battery/Batteries'],
+        handler: async ({ args }) => await startTimer(args['wo-number'], args.service)
+      },
+      {
+        name: 'switch',
+        description: 'Stop the running timer, writing its service line, and start another',
+        args: [
+          { name: 'wo-number', type: 'workOrder', description: '7-digit work order number' },
+          { name: 'service', type: 'string', description: 'Verb[, Noun]', rest: true }
+        ],
+        examples: ['timer switch 7654321 Tested, Battery/Batteries'],
+        handler: async ({ args }) => await switchTimer(args['wo-number'], args.service)
+      },
+      {
+        name: 'pause',
+        description: 'Pause the running timer',
+        handler: async () => await pauseTimer()
+      },
+      {
+        name: 'resume',
+        description: 'Resume a paused timer',
+        handler: async () => await resumeTimer()
+      },
+      {
+        name: 'stop',
+        description: 'Stop the timer and add a service line with the measured duration to the notes',
+        args: [{ name: 'note', type: 'string', description: 'Text written after "=>"', required: false, rest: true }],
+        examples: ['timer stop', 'timer stop Replaced battery, tested OK'],
+        handler: async ({ args }) => await stopTimer(args.note)
+      }
+    ]
+  },
+  {
+    name: 'days-summary',
+    group: DAYS,
+    description: 'Show summary of recent days',
+    args: [{ name: 'count', type: 'integer', description: 'Number of days to include', required: false, default: 7 }],
+    handler: async ({ args }) => await daysSummary(args.count)
+  },
+
+  // Stack management
+  {
+    name: 'stack',
+    group: STACK,
+    description: 'Add a work order to the stack or display the current stack',
+    args: [{ name: 'wo-number', type: 'workOrder', description: 'Work order to add; omit to display the stack', required: false }],
+    handler: async ({ args }) => {
+      if (!args['wo-number']) {
+        return await displayStack();
+      }
+      return chalk.green(await stackWorkOrder(args['wo-number']));
+    }
+  },
+  {
+    name: 'clear-stack',
+    group: STACK,
+    description: 'Clear all work orders from the stack',
+    handler: async () => chalk.green(await clearStack())
+  },
+  {
+    name: 'push',
+    aliases: ['push-stack'],
+    group: STACK,
+    description: 'Push services to Medimizer',
+    flags: [{ name: 'dry-run', alias: 'd', type: 'boolean', description: 'Show what would be pushed without changing Medimizer' }],
+    examples: ['push --dry-run', 'push'],
+    handler: async ({ flags }) => chalk.green(await pushStack(!!flags['dry-run']))
+  },
+
+  // Journal logs
+  {
+    name: 'log',
+    group: LOGS,
+    description: 'Create a new journal log entry',
+    args: [{ name: 'log-name', type: 'string', description: 'Name of the log entry', rest: true }],
+    handler: async ({ args }) => chalk.green(await createLog(args['log-name']))
+  },
+  {
+    name: 'list-logs',
+    aliases: ['logs'],
+    group: LOGS,
+    description: 'List all journal log entries',
+    handler: async () => await listLogs()
+  },
+  {
+    name: 'open-log',
+    group: LOGS,
+    description: 'Open a specific log entry',
+    args: [{ name: 'date-or-name', type: 'string', description: 'Date or name of the log entry', rest: true }],
+    handler: async ({ args }) => chalk.green(await openLog(args['date-or-name']))
+  },
+
+  // General commands
+  {
+    name: 'config',
+    group: GENERAL,
+    description: 'Configure application settings interactively',
+    handler: async () => chalk.green(await configureApp()),
+    subcommands: [
+      {
+        name: 'show',
+        description: 'Show current configuration and where each value came from',
+        handler: async () => await showConfig()
+      },
+      {
+        name: 'set',
+        description: 'Change a setting without prompts',
+        args: [
+          { name: 'key', type: 'string', description: 'Dotted setting key, e.g. browser.headless' },
+          { name: 'value', type: 'string', description: 'New value', rest: true }
+        ],
+        examples: ['config set browser.headless true', 'config set editor.command "code -w"'],
+        handler: async ({ args }) => chalk.green(await setConfigValue(args.key, args.value))
+      }
+    ]
+  },
+  {
+    name: 'workspace',
+    group: GENERAL,
+    description: 'Show where work orders, journal, logs and data are stored',
+    handler: async () => await showWorkspace(),
+    subcommands: [
+      {
+        name: 'migrate',
+        description: 'Move an old data/, work_orders/, journal/, logs/ layout into the workspace',
+        args: [{ name: 'dir', type: 'string', description: 'Directory holding the old layout (default: current directory)', required: false }],
+        handler: async ({ args }) => chalk.green(await migrateWorkspace(args.dir))
+      }
+    ]
+  },
+  {
+    name: 'profile',
+    group: GENERAL,
+    description: 'List technician profiles',
+    handler: async () => await listProfiles(),
+    subcommands: [
+      {
+        name: 'add',
+        description: 'Add a technician profile',
+        handler: async () => chalk.green(await addProfile())
+      },
+      {
+        name: 'list',
+        description: 'List technician profiles',
+        handler: async () => await listProfiles()
+      },
+      {
+        name: 'use',
+        description: 'Switch the active technician',
+        args: [{ name: 'name', type: 'string', description: 'Profile name' }],
+        handler: async ({ args }) => chalk.green(await useProfile(args.name))
+      }
+    ]
+  },
+  {
+    name: 'env',
+    group: GENERAL,
+    description: 'List Medimizer environments (prod, test, local-mock, ...)',
+    handler: async () => await showEnvironments(),
+    subcommands: [
+      {
+        name: 'use',
+        description: 'Point the tool at another Medimizer environment',
+        args: [{ name: 'name', type: 'string', description: 'Environment name' }],
+        examples: ['env use test'],
+        handler: async ({ args }) => chalk.green(await useEnvironment(args.name))
+      }
+    ]
+  },
+  {
+    name: 'codes',
+    group: GENERAL,
+    description: 'Browse the verb and noun code tables',
+    subcommands: [
+      {
+        name: 'verbs',
+        description: 'List verbs with their codes and whether they take a noun',
+        args: [{ name: 'filter', type: 'string', description: 'Text in the keyword, or a code', required: false, rest: true }],
+        examples: ['codes verbs', 'codes verbs repl', 'codes verbs 186'],
+        handler: async ({ args }) => await listVerbCodes(args.filter)
+      },
+      {
+        name: 'nouns',
+        description: 'List nouns with their codes',
+        args: [{ name: 'filter', type: 'string', description: 'Text in the keyword, or a code', required: false, rest: true }],
+        examples: ['codes nouns batt', 'codes nouns 262'],
+        handler: async ({ args }) => await listNounCodes(args.filter)
+      },
+      {
+        name: 'show',
+        description: 'Show a verb or noun, and the nouns a verb has been used with',
+        args: [{ name: 'keyword-or-code', type: 'string', description: 'Keyword, alias or code', rest: true }],
+        examples: ['codes show Replaced', 'codes show 262'],
+        handler: async ({ args }) => await showCode(args['keyword-or-code'])
+      }
+    ]
+  },
+  {
+    name: 'creds',
+    group: GENERAL,
+    description: 'Manage stored Medimizer credentials',
+    subcommands: [
+      {
+        name: 'set',
+        description: 'Store the active technician\'s Medimizer password in the encrypted vault',
+        handler: async () => chalk.green(await setCredentials())
+      },
+      {
+        name: 'rotate',
+        description: 'Change the vault passphrase',
+        handler: async () => chalk.green(await rotateCredentials())
+      },
+      {
+        name: 'forget',
+        description: 'Delete the stored credentials',
+        handler: async () => chalk.green(await forgetCredentials())
+      }
+    ]
+  },
+  {
+    name: 'run',
+    group: GENERAL,
+    description: 'Run a file of commands line by line',
+    args: [
+      { name: 'file', type: 'string', description: 'Script file; # starts a comment line' },
+      { name: 'variables', type: 'string', description: 'NAME=value assignments used as $NAME in the script', required: false, rest: true, list: true }
+    ],
+    flags: [{ name: 'continue', alias: 'c', type: 'boolean', description: 'Keep going after a failing line instead of stopping' }],
+    examples: ['run end-of-shift.txt', 'run stack-and-push.txt WO=1234567 --continue'],
+    handler: async ({ args, flags, session }) => await runScript(args.file, args.variables, !!flags.continue, session)
+  },
+  {
+    name: 'alias',
+    group: GENERAL,
+    description: 'List your command aliases',
+    handler: async () => await listAliases(),
+    subcommands: [
+      {
+        name: 'add',
+        description: 'Define a short name for a command; $1..$9 and $@ take arguments, otherwise they are appended',
+        args: [
+          { name: 'name', type: 'string', description: 'Alias name' },
+          { name: 'command', type: 'string', description: 'Command line it expands to (quote it)' }
+        ],
+        examples: ['alias add dry "push --dry-run"', 'alias add wo details', 'alias add fix \'service $1 Repaired $2 $3\''],
+        handler: async ({ args }) => chalk.green(await setAlias(args.name, args.command))
+      },
+      {
+        name: 'remove',
+        aliases: ['rm'],
+        description: 'Remove an alias',
+        args: [{ name: 'name', type: 'string', description: 'Alias name' }],
+        handler: async ({ args }) => chalk.green(await removeUserCommand(args.name, 'alias'))
+      }
+    ]
+  },
+  {
+    name: 'macro',
+    group: GENERAL,
+    description: 'List your multi-step macros',
+    handler: async () => await listMacros(),
+    subcommands: [
+      {
+        name: 'add',
+        description: 'Define a macro from steps separated by ";"; a "confirm <message>" step asks before continuing',
+        args: [
+          { name: 'name', type: 'string', description: 'Macro name' },
+          { name: 'steps', type: 'string', description: 'Steps separated by semicolons (quote the whole list)' }
+        ],
+        flags: [{ name: 'description', type: 'string', description: 'Description shown in help' }],
+        examples: ['macro add eod "stack; push --dry-run; confirm Push for real?; push; end-day" --description "End of shift"'],
+        handler: async ({ args, flags }) => chalk.green(await setMacro(args.name, args.steps, flags.description))
+      },
+      {
+        name: 'remove',
+        aliases: ['rm'],
+        description: 'Remove a macro',
+        args: [{ name: 'name', type: 'string', description: 'Macro name' }],
+        handler: async ({ args }) => chalk.green(await removeUserCommand(args.name, 'macro'))
+      }
+    ]
+  },
+  {
+    name: 'help',
+    group: GENERAL,
+    description: 'Display help, or details for one command',
+    args: [{ name: 'command', type: 'command', description: 'Command to describe', required: false, rest: true }],
+    examples: ['help', 'help push', 'help config set'],
+    handler: async ({ args }) => {
+      const registry = CommandRegistry.getInstance();
+      if (args.command) {
+        return registry.formatCommandHelp(args.command.split(' '));
+      }
+      return registry.formatHelp() + chalk.gray('\nAny command can also be run once from the shell, e.g. work-cli push --dry-run');
+    }
+  },
+  {
+    name: 'clear',
+    aliases: ['cls'],
+    group: GENERAL,
+    description: 'Clear the screen',
+    handler: async ({ session }) => session.clearScreen()
+  },
+  {
+    name: 'exit',
+    aliases: ['quit'],
+    group: GENERAL,
+    description: 'Exit the application',
+    handler: async ({ session }) => {
+      session.exit();
+      return chalk.green('Goodbye!');
+    }
+  }
+];
+
+/**
+ * Register every built-in command
+ *
+ * @param registry - Registry to add the commands to
+ */
+export function registerBuiltInCommands(registry: CommandRegistry): void {
+  BUILT_IN_COMMANDS.forEach(definition => registry.register(definition));
+}
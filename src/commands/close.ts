@@ -1,5 +1,6 @@
 import { WorkDatabase } from '../database';
 import chalk from 'chalk';
+import { ValidationError, wrapError } from '../utils/errors';
 
 /**
  * Close a work order
@@ -11,7 +12,7 @@ export async function closeWorkOrder(workOrderNumber: string): Promise<string> {
   try {
     // Validate input
     if (!workOrderNumber || workOrderNumber.trim() === '') {
-      throw new Error('Work order number is required');
+      throw new ValidationError('Work order number is required');
     }
 
     // Get database instance
@@ -25,7 +26,7 @@ export async function closeWorkOrder(workOrderNumber: string): Promise<string> {
   } catch (error) {
     // Handle errors
     if (error instanceof Error) {
-      throw new Error(`Failed to close work order: ${error.message}`);
+      throw wrapError(error, `Failed to close work order: ${error.message}`);
     } else {
       throw new Error('Failed to close work order: Unknown error');
     }
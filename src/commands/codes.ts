@@ -0,0 +1,201 @@
+import chalk from 'chalk';
+import { WorkDatabase } from '../database';
+import { CodeLookup, VerbMatch, NounMatch, getTablesDir, formatSuggestions } from '../utils/code-lookup';
+import { ValidationError, wrapError } from '../utils/errors';
+
+/**
+ * List the verbs from tables/verbs.csv
+ *
+ * @param filter - Optional text to search keywords for, or a code
+ * @returns A promise that resolves to the verbs as a table
+ */
+export async function listVerbCodes(filter?: string): Promise<string> {
+  try {
+    const codeLookup = CodeLookup.getInstance();
+    await codeLookup.initialize(true);
+
+    const verbs = codeLookup.getVerbs().filter(verb => matchesFilter(verb, filter));
+    if (verbs.length === 0) {
+      return chalk.yellow(`No verbs match "${filter}"`);
+    }
+
+    const rows = verbs.map(verb => [verb.keyword, String(verb.code), verb.hasNoun ? 'yes' : 'no']);
+    return formatTable('VERBS', ['Keyword', 'Code', 'Has noun'], rows, filter);
+  } catch (error) {
+    if (error instanceof Error) {
+      throw wrapError(error, `Failed to list verbs: ${error.message}`);
+    } else {
+      throw new Error('Failed to list verbs: Unknown error');
+    }
+  }
+}
+
+/**
+ * List the nouns from tables/nouns.csv
+ *
+ * @param filter - Optional text to search keywords for, or a code
+ * @returns A promise that resolves to the nouns as a table
+ */
+export async function listNounCodes(filter?: string): Promise<string> {
+  try {
+    const codeLookup = CodeLookup.getInstance();
+    await codeLookup.initialize(true);
+
+    const nouns = codeLookup.getNouns().filter(noun => matchesFilter(noun, filter));
+    if (nouns.length === 0) {
+      return chalk.yellow(`No nouns match "${filter}"`);
+    }
+
+    const rows = nouns.map(noun => [noun.keyword, String(noun.code)]);
+    return formatTable('NOUNS', ['Keyword', 'Code'], rows, filter);
+  } catch (error) {
+    if (error instanceof Error) {
+      throw wrapError(error, `Failed to list nouns: ${error.message}`);
+    } else {
+      throw new Error('Failed to list nouns: Unknown error');
+    }
+  }
+}
+
+/**
+ * Show the verbs and nouns with a keyword or code
+ *
+ * For a verb, also lists the nouns it has been recorded with.
+ *
+ * @param query - Keyword (any case, or an alias) or code
+ * @returns A promise that resolves to the details
+ */
+export async function showCode(query: string): Promise<string> {
+  try {
+    const codeLookup = CodeLookup.getInstance();
+    await codeLookup.initialize(true);
+
+    // Step 1: Find the verbs and nouns the query names
+    const text = query.trim();
+    let verbs: VerbMatch[];
+    let nouns: NounMatch[];
+
+    if (/^\d+$/.test(text)) {
+      const code = parseInt(text, 10);
+      verbs = codeLookup.getVerbs().filter(verb => verb.code === code);
+      nouns = codeLookup.getNouns().filter(noun => noun.code === code);
+    } else {
+      const verb = codeLookup.resolveVerb(text);
+      const noun = codeLookup.resolveNoun(text);
+      verbs = verb ? [verb] : [];
+      nouns = noun ? [noun] : [];
+    }
+
+    if (verbs.length === 0 && nouns.length === 0) {
+      const suggestions = [...codeLookup.suggestVerbs(text, 2), ...codeLookup.suggestNouns(text, 2)];
+      throw new ValidationError(`No verb or noun "${query}"${formatSuggestions(suggestions)}`);
+    }
+
+    // Step 2: Describe each match
+    const sections: string[] = [];
+
+    for (const verb of verbs) {
+      let section = `${chalk.cyan('Verb')}      ${chalk.white(verb.keyword)}\n`;
+      section += `Code      ${chalk.yellow(verb.code)}\n`;
+      section += `Has noun  ${verb.hasNoun ? chalk.green('yes') : chalk.gray('no')}\n`;
+      section += formatAliases(codeLookup.getAliasesFor('verb', verb.keyword));
+      if (verb.hasNoun) {
+        section += await formatNounHistory(verb.keyword);
+      }
+      sections.push(section);
+    }
+
+    for (const noun of nouns) {
+      let section = `${chalk.cyan('Noun')}      ${chalk.white(noun.keyword)}\n`;
+      section += `Code      ${chalk.yellow(noun.code)}\n`;
+      section += formatAliases(codeLookup.getAliasesFor('noun', noun.keyword));
+      sections.push(section);
+    }
+
+    return `\n${sections.join('\n')}`;
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      throw error;
+    } else if (error instanceof Error) {
+      throw wrapError(error, `Failed to show code: ${error.message}`);
+    } else {
+      throw new Error('Failed to show code: Unknown error');
+    }
+  }
+}
+
+/**
+ * Check a verb or noun against a list filter
+ *
+ * @param entry - Verb or noun
+ * @param filter - Text found anywhere in the keyword (any case), or an exact code
+ */
+function matchesFilter(entry: { keyword: string; code: number }, filter?: string): boolean {
+  if (!filter || filter.trim() === '') {
+    return true;
+  }
+  const text = filter.trim();
+  return String(entry.code) === text || entry.keyword.toLowerCase().includes(text.toLowerCase());
+}
+
+/**
+ * Render rows as an aligned table under a banner
+ *
+ * @param title - Banner title
+ * @param headers - Column headings
+ * @param rows - Cells of each row
+ * @param filter - Filter the rows were matched against, shown in the footer
+ */
+function formatTable(title: string, headers: string[], rows: string[][], filter?: string): string {
+  const widths = headers.map((header, column) => Math.max(header.length, ...rows.map(row => row[column].length)));
+  const formatRow = (cells: string[]) => cells.map((cell, column) => cell.padEnd(widths[column])).join('  ').trimEnd();
+
+  let result = '\n';
+  result += chalk.cyan('=============================================================\n');
+  result += chalk.cyan(`${title.padStart(30 + Math.floor(title.length / 2))}\n`);
+  result += chalk.cyan('=============================================================\n\n');
+
+  result += chalk.white(formatRow(headers)) + '\n';
+  result += chalk.gray(formatRow(widths.map(width => '-'.repeat(width)))) + '\n';
+  rows.forEach(row => {
+    result += formatRow(row) + '\n';
+  });
+
+  result += chalk.cyan('\n=============================================================\n');
+  result += `Showing ${rows.length}${filter ? ` matching "${filter}"` : ''} from ${getTablesDir()}\n`;
+
+  return result;
+}
+
+/**
+ * Format the aliases pointing at a keyword
+ *
+ * @param aliases - Aliases from the alias file
+ */
+function formatAliases(aliases: string[]): string {
+  return aliases.length > 0 ? `Aliases   ${aliases.join(', ')}\n` : '';
+}
+
+/**
+ * Format the nouns a verb has been recorded with
+ *
+ * @param verbKeyword - Verb keyword
+ */
+async function formatNounHistory(verbKeyword: string): Promise<string> {
+  const db = WorkDatabase.getInstance();
+  if (!(await db.checkInitialized())) {
+    return chalk.gray('Nouns used: no database yet\n');
+  }
+
+  const nouns = await db.getNounsUsedWithVerb(verbKeyword);
+  if (nouns.length === 0) {
+    return chalk.gray('Nouns used: none recorded\n');
+  }
+
+  let result = 'Nouns used:\n';
+  const countWidth = Math.max(...nouns.map(noun => String(noun.count).length));
+  nouns.forEach(noun => {
+    result += `  ${chalk.yellow(String(noun.count).padStart(countWidth))}  ${noun.noun}\n`;
+  });
+  return result;
+}
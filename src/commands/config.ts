@@ -0,0 +1,194 @@
+import inquirer from 'inquirer';
+import chalk from 'chalk';
+import { ConfigManager, ConfigSetting, ConfigValue } from '../utils/config-manager';
+import { ValidationError, wrapError } from '../utils/errors';
+
+/**
+ * Interactively edit configuration settings
+ *
+ * @returns A promise that resolves to a summary of the changes made
+ */
+export async function configureApp(): Promise<string> {
+  try {
+    const config = ConfigManager.getInstance();
+    const changes: string[] = [];
+
+    // Keep prompting until the user chooses to finish
+    while (true) {
+      const entries = config.getEntries();
+
+      const { key } = await inquirer.prompt([
+        {
+          type: 'list',
+          name: 'key',
+          message: 'Select a setting to change:',
+          pageSize: entries.length + 2,
+          choices: [
+            ...entries.map(entry => ({
+              name: `${entry.setting.key} = ${formatValue(entry.value)} ${chalk.gray(`(${entry.source})`)}`,
+              value: entry.setting.key
+            })),
+            new inquirer.Separator(),
+            { name: 'Done', value: '' }
+          ]
+        }
+      ]);
+
+      if (!key) {
+        break;
+      }
+
+      const entry = config.getEntry(key);
+
+      if (entry.source === 'env') {
+        console.log(chalk.yellow(`Note: ${entry.setting.env} is set and will keep overriding the saved value.`));
+      }
+
+      const value = await promptForValue(entry.setting, entry.value);
+      const stored = config.set(key, value);
+      changes.push(`${key} = ${formatValue(stored)}`);
+      console.log(chalk.green(`Saved ${key} = ${formatValue(stored)}`));
+    }
+
+    if (changes.length === 0) {
+      return 'No configuration changes made';
+    }
+
+    return `Updated ${changes.length} setting(s) in ${config.getConfigFilePath()}`;
+  } catch (error) {
+    if (error instanceof Error) {
+      throw wrapError(error, `Failed to configure application: ${error.message}`);
+    } else {
+      throw new Error('Failed to configure application: Unknown error');
+    }
+  }
+}
+
+/**
+ * Show the effective configuration and where each value came from
+ *
+ * @returns A promise that resolves to a formatted configuration listing
+ */
+export async function showConfig(): Promise<string> {
+  try {
+    const config = ConfigManager.getInstance();
+    const entries = config.getEntries();
+    const keyWidth = Math.max(...entries.map(entry => entry.setting.key.length));
+
+    let result = '\n';
+    result += chalk.cyan('=============================================================\n');
+    result += chalk.cyan('                      CONFIGURATION                          \n');
+    result += chalk.cyan('=============================================================\n\n');
+
+    entries.forEach(entry => {
+      let source: string = entry.source;
+      if (entry.source === 'env') {
+        source = `env ${entry.setting.env}`;
+      }
+
+      result += `${chalk.white(entry.setting.key.padEnd(keyWidth))}  ${chalk.yellow(formatValue(entry.value))} ${chalk.gray(`(${source})`)}\n`;
+    });
+
+    result += chalk.cyan('\n=============================================================\n');
+    result += `Config file: ${config.getConfigFilePath()}\n`;
+
+    return result;
+  } catch (error) {
+    if (error instanceof Error) {
+      throw wrapError(error, `Failed to show config: ${error.message}`);
+    } else {
+      throw new Error('Failed to show config: Unknown error');
+    }
+  }
+}
+
+/**
+ * Set a configuration value without prompting
+ *
+ * @param key - Dotted setting key
+ * @param value - Value to store
+ * @returns A promise that resolves to a success message
+ */
+export async function setConfigValue(key: string, value: string): Promise<string> {
+  try {
+    if (!key || !value) {
+      throw new ValidationError('Both a key and a value are required');
+    }
+
+    const config = ConfigManager.getInstance();
+    const stored = config.set(key, value);
+
+    let result = `Set ${key} = ${formatValue(stored)}`;
+
+    const entry = config.getEntry(key);
+    if (entry.source === 'env') {
+      result += chalk.yellow(`\nNote: ${entry.setting.env} is set and overrides this value`);
+    }
+
+    return result;
+  } catch (error) {
+    if (error instanceof Error) {
+      throw wrapError(error, `Failed to set config value: ${error.message}`);
+    } else {
+      throw new Error('Failed to set config value: Unknown error');
+    }
+  }
+}
+
+/**
+ * Prompt for a new value appropriate to the setting type
+ *
+ * @param setting - Schema entry of the setting being edited
+ * @param current - Current effective value
+ * @returns The value entered by the user
+ */
+async function promptForValue(setting: ConfigSetting, current: ConfigValue): Promise<ConfigValue> {
+  if (setting.type === 'boolean') {
+    const { value } = await inquirer.prompt([
+      {
+        type: 'confirm',
+        name: 'value',
+        message: `${setting.description}?`,
+        default: current === true
+      }
+    ]);
+    return value;
+  }
+
+  if (setting.type === 'enum') {
+    const { value } = await inquirer.prompt([
+      {
+        type: 'list',
+        name: 'value',
+        message: `${setting.description}:`,
+        choices: setting.choices || [],
+        default: current
+      }
+    ]);
+    return value;
+  }
+
+  const { value } = await inquirer.prompt([
+    {
+      type: 'input',
+      name: 'value',
+      message: `${setting.description}:`,
+      default: String(current),
+      validate: (input: string) => {
+        if (input.trim() === '') return 'Value cannot be empty';
+        if (setting.type === 'number' && isNaN(parseFloat(input))) return 'Value must be a number';
+        return true;
+      }
+    }
+  ]);
+  return value;
+}
+
+/**
+ * Format a configuration value for display
+ *
+ * @param value - Value to format
+ */
+function formatValue(value: ConfigValue): string {
+  return typeof value === 'string' ? `"${value}"` : String(value);
+}
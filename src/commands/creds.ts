@@ -0,0 +1,110 @@
+import inquirer from 'inquirer';
+import chalk from 'chalk';
+import { CredentialVault, promptPassphrase } from '../utils/credential-vault';
+import { ProfileManager } from '../utils/profile-manager';
+import { ValidationError, wrapError } from '../utils/errors';
+
+/**
+ * Prompt for the active technician's Medimizer password and store it in the encrypted vault
+ *
+ * @returns A promise that resolves to a success message
+ */
+export async function setCredentials(): Promise<string> {
+  try {
+    const vault = CredentialVault.getInstance();
+    const profile = ProfileManager.getInstance().getActiveProfile();
+
+    // Unlock an existing vault before prompting so a wrong passphrase fails early
+    if (await vault.exists()) {
+      await vault.unlock();
+    }
+
+    const { password } = await inquirer.prompt([
+      {
+        type: 'password',
+        name: 'password',
+        message: `Medimizer password for ${profile.employeeCode}:`,
+        mask: '*',
+        validate: (input: string) => input ? true : 'Password is required'
+      }
+    ]);
+
+    await vault.setPassword(password, profile.name);
+
+    return `Credentials for ${profile.employeeCode} (profile ${profile.name}) saved to ${vault.getVaultFilePath()}`;
+  } catch (error) {
+    if (error instanceof Error) {
+      throw wrapError(error, `Failed to set credentials: ${error.message}`);
+    } else {
+      throw new Error('Failed to set credentials: Unknown error');
+    }
+  }
+}
+
+/**
+ * Re-encrypt the credential vault under a new master passphrase
+ *
+ * @returns A promise that resolves to a success message
+ */
+export async function rotateCredentials(): Promise<string> {
+  try {
+    const vault = CredentialVault.getInstance();
+
+    if (!(await vault.exists())) {
+      throw new ValidationError("No credentials stored. Run 'creds set' first");
+    }
+
+    // Unlock with the current passphrase before asking for the new one
+    await vault.unlock();
+
+    const passphrase = await promptPassphrase('New vault passphrase:', true);
+    await vault.rotate(passphrase);
+
+    return 'Vault re-encrypted with the new passphrase';
+  } catch (error) {
+    if (error instanceof Error) {
+      throw wrapError(error, `Failed to rotate credentials: ${error.message}`);
+    } else {
+      throw new Error('Failed to rotate credentials: Unknown error');
+    }
+  }
+}
+
+/**
+ * Delete the credential vault after confirmation
+ *
+ * @returns A promise that resolves to a success message
+ */
+export async function forgetCredentials(): Promise<string> {
+  try {
+    const vault = CredentialVault.getInstance();
+
+    if (!(await vault.exists())) {
+      vault.lock();
+      return 'No stored credentials to forget';
+    }
+
+    const { confirm } = await inquirer.prompt([
+      {
+        type: 'confirm',
+        name: 'confirm',
+        message: chalk.yellow('Delete all stored Medimizer credentials?'),
+        default: false
+      }
+    ]);
+
+    if (!confirm) {
+      return 'Operation canceled by user.';
+    }
+
+    await vault.forget();
+
+    return 'Stored credentials deleted';
+  } catch (error) {
+    if (error instanceof Error) {
+      throw wrapError(error, `Failed to forget credentials: ${error.message}`);
+    } else {
+      throw new Error('Failed to forget credentials: Unknown error');
+    }
+  }
+}
@@ -1,5 +1,8 @@
 import chalk from 'chalk';
 import { DayManager } from '../utils/day-manager';
+import { TimerManager } from '../utils/timer-manager';
+import { describeTimer } from './timer';
+import { wrapError } from '../utils/errors';
 
 /**
  * Start a new work day
@@ -17,7 +20,7 @@ export async function startDay(): Promise<string> {
     return result;
   } catch (error) {
     if (error instanceof Error) {
-      throw new Error(`Failed to start day: ${error.message}`);
+      throw wrapError(error, `Failed to start day: ${error.message}`);
     } else {
       throw new Error('Failed to start day: Unknown error');
     }
@@ -40,7 +43,7 @@ export async function endDay(): Promise<string> {
     return result;
   } catch (error) {
     if (error instanceof Error) {
-      throw new Error(`Failed to end day: ${error.message}`);
+      throw wrapError(error, `Failed to end day: ${error.message}`);
     } else {
       throw new Error('Failed to end day: Unknown error');
     }
@@ -60,8 +63,12 @@ export async function dayStatus(): Promise<string> {
     // Get the current day
     const currentDay = await dayManager.getCurrentDay();
     
+    // Show the running service timer, if any
+    const timer = TimerManager.getInstance().getTimer();
+    const timerLine = timer ? `${describeTimer(timer)}\n` : '';
+
     if (!currentDay) {
-      return chalk.yellow("No active day. Start a day with 'start-day'.");
+      return timerLine + chalk.yellow("No active day. Start a day with 'start-day'.");
     }
     
     // Calculate how long the day has been active
@@ -87,10 +94,10 @@ export async function dayStatus(): Promise<string> {
 ${chalk.cyan('================== DAY STATUS ===================')}
 Active day started at: ${chalk.green(startTime)}
 Current duration: ${chalk.green(durationStr)}
-${chalk.cyan('================================================')}\n`;
+${timerLine}${chalk.cyan('================================================')}\n`;
   } catch (error) {
     if (error instanceof Error) {
-      throw new Error(`Failed to get day status: ${error.message}`);
+      throw wrapError(error, `Failed to get day status: ${error.message}`);
     } else {
       throw new Error('Failed to get day status: Unknown error');
     }
@@ -114,7 +121,7 @@ export async function daysSummary(days: number = 7): Promise<string> {
     return result;
   } catch (error) {
     if (error instanceof Error) {
-      throw new Error(`Failed to get days summary: ${error.message}`);
+      throw wrapError(error, `Failed to get days summary: ${error.message}`);
     } else {
       throw new Error('Failed to get days summary: Unknown error');
     }
@@ -1,5 +1,7 @@
 import chalk from 'chalk';
 import { BrowserAutomation } from '../utils/browser-enhanced';
+import { MedimizerRoutes, WO_TABS } from '../utils/medimizer-routes';
+import { ValidationError, MedimizerError, wrapError } from '../utils/errors';
 
 /**
  * del-dups command: Delete duplicate services from a work order
@@ -9,7 +11,7 @@ import { BrowserAutomation } from '../utils/browser-enhanced';
  */
 export async function deleteDuplicates(workOrderNumber: string): Promise<string> {
   if (!workOrderNumber || !/^\d{7}$/.test(workOrderNumber)) {
-    return chalk.red('Please provide a valid 7-digit work order number');
+    throw new ValidationError('Please provide a valid 7-digit work order number');
   }
 
   console.log(chalk.yellow(`Starting duplicate deletion for work order ${workOrderNumber}...`));
@@ -24,7 +26,7 @@ export async function deleteDuplicates(workOrderNumber: string): Promise<string>
     const isLoginPage = await browser.isLoginPage();
     if (isLoginPage) {
       console.log(chalk.yellow('Login page detected. Logging in...'));
-      await browser.login('LPOLLOCK', '890piojkl!@#$98', 'URMCCEX3');
+      await browser.login();
     }
     
     // Navigate to work order services tab
@@ -50,9 +52,9 @@ export async function deleteDuplicates(workOrderNumber: string): Promise<string>
     }
     
     if (error instanceof Error) {
-      return chalk.red(`Error: ${error.message}`);
+      throw wrapError(error, `Failed to delete duplicates: ${error.message}`);
     } else {
-      return chalk.red('An unknown error occurred');
+      throw new Error('Failed to delete duplicates: Unknown error');
     }
   }
 }
@@ -65,16 +67,17 @@ export async function deleteDuplicates(workOrderNumber: string): Promise<string>
  */
 async function navigateToWorkOrderServices(browser: BrowserAutomation, workOrderNumber: string): Promise<void> {
   if (!browser.page) {
-    throw new Error('Browser page not initialized');
+    throw new MedimizerError('Browser page not initialized');
   }
   
   // URL for the work order services tab (tab=1)
-  const url = `http://sqlmedimizer1/MMWeb/App_Pages/WOForm.aspx?wo=${workOrderNumber}&mode=Edit&tab=1`;
+  const routes = MedimizerRoutes.getInstance();
+  const url = routes.workOrderUrl(workOrderNumber, WO_TABS.services);
   
   console.log(chalk.yellow(`Navigating to: ${url}`));
   
   try {
-    await browser.page.goto(url, { waitUntil: 'networkidle2', timeout: 30000 });
+    await browser.goto(url, { waitUntil: 'networkidle2', timeout: 30000 });
     
     // Take screenshot for debugging
     await browser.takeScreenshot('work_order_services_page');
@@ -83,10 +86,10 @@ async function navigateToWorkOrderServices(browser: BrowserAutomation, workOrder
     const isLoginPage = await browser.isLoginPage();
     if (isLoginPage) {
       console.log(chalk.yellow('Redirected to login page. Logging in...'));
-      await browser.login('LPOLLOCK', '890piojkl!@#$98', 'URMCCEX3');
+      await browser.login();
       
       // Navigate again after login
-      await browser.page.goto(url, { waitUntil: 'networkidle2' });
+      await browser.goto(url, { waitUntil: 'networkidle2' });
       await browser.takeScreenshot('work_order_services_after_login');
     }
     
@@ -99,12 +102,12 @@ async function navigateToWorkOrderServices(browser: BrowserAutomation, workOrder
     });
     
     if (!servicesGridExists) {
-      throw new Error('Failed to load services grid');
+      throw new MedimizerError('Failed to load services grid');
     }
     
     console.log(chalk.green('Successfully navigated to work order services page'));
   } catch (error) {
-    throw new Error(`Failed to navigate to work order services: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    throw wrapError(error, `Failed to navigate to work order services: ${error instanceof Error ? error.message : 'Unknown error'}`);
   }
 }
 
@@ -135,7 +138,7 @@ interface DuplicateGroup {
  */
 async function scanAndDeleteDuplicates(browser: BrowserAutomation, workOrderNumber: string): Promise<number> {
   if (!browser.page) {
-    throw new Error('Browser page not initialized');
+    throw new MedimizerError('Browser page not initialized');
   }
   
   try {
@@ -203,7 +206,7 @@ async function scanAndDeleteDuplicates(browser: BrowserAutomation, workOrderNumb
     
     return totalDeleted;
   } catch (error) {
-    throw new Error(`Failed to scan and delete duplicates: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    throw wrapError(error, `Failed to scan and delete duplicates: ${error instanceof Error ? error.message : 'Unknown error'}`);
   }
 }
 
@@ -215,7 +218,7 @@ async function scanAndDeleteDuplicates(browser: BrowserAutomation, workOrderNumb
  */
 async function extractServiceRecords(browser: BrowserAutomation): Promise<ServiceRecord[]> {
   if (!browser.page) {
-    throw new Error('Browser page not initialized');
+    throw new MedimizerError('Browser page not initialized');
   }
   
   try {
@@ -255,7 +258,7 @@ async function extractServiceRecords(browser: BrowserAutomation): Promise<Servic
       return records;
     });
   } catch (error) {
-    throw new Error(`Failed to extract service records: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    throw wrapError(error, `Failed to extract service records: ${error instanceof Error ? error.message : 'Unknown error'}`);
   }
 }
 
@@ -303,7 +306,7 @@ function findDuplicateGroups(services: ServiceRecord[]): DuplicateGroup[] {
  */
 async function deleteService(browser: BrowserAutomation, rowId: string): Promise<boolean> {
   if (!browser.page) {
-    throw new Error('Browser page not initialized');
+    throw new MedimizerError('Browser page not initialized');
   }
   
   try {
@@ -534,7 +537,7 @@ async function deleteService(browser: BrowserAutomation, rowId: string): Promise
  */
 async function countServices(browser: BrowserAutomation): Promise<number> {
   if (!browser.page) {
-    throw new Error('Browser page not initialized');
+    throw new MedimizerError('Browser page not initialized');
   }
   
   try {
@@ -1,8 +1,11 @@
 import chalk from 'chalk';
 import { BrowserAutomation } from '../utils/browser-enhanced';
+import { MedimizerRoutes, WO_TABS } from '../utils/medimizer-routes';
+import { ProfileManager } from '../utils/profile-manager';
+import { ValidationError, MedimizerError, wrapError } from '../utils/errors';
 
 /**
- * delete-month command: Delete services from specific month/year for LONNIE POLLOCKS
+ * delete-month command: Delete services from specific month/year for the active technician
  *
  * @param month - Month (01-12 or 1-12)
  * @param year - Year (YYYY)
@@ -13,13 +16,13 @@ export async function deleteMonth(month: string, year: string, workOrders: strin
   // Validate month
   const monthNum = parseInt(month, 10);
   if (isNaN(monthNum) || monthNum < 1 || monthNum > 12) {
-    return chalk.red('Please provide a valid month (1-12)');
+    throw new ValidationError('Please provide a valid month (1-12)');
   }
 
   // Validate year
   const yearNum = parseInt(year, 10);
   if (isNaN(yearNum) || yearNum < 2000 || yearNum > 2100) {
-    return chalk.red('Please provide a valid year (YYYY)');
+    throw new ValidationError('Please provide a valid year (YYYY)');
   }
 
   // Parse work orders
@@ -37,11 +40,14 @@ export async function deleteMonth(month: string, year: string, workOrders: strin
   // Validate all WOs
   for (const wo of woList) {
     if (!/^\d{7}$/.test(wo)) {
-      return chalk.red(`Invalid work order number: ${wo}. Must be 7 digits.`);
+      throw new ValidationError(`Invalid work order number: ${wo}. Must be 7 digits.`);
     }
   }
 
-  console.log(chalk.yellow(`Deleting LONNIE POLLOCKS services from ${month}/${year} for ${woList.length} work order(s)...`));
+  // Resolve the technician whose services will be deleted
+  const servicerName = ProfileManager.getInstance().getActiveProfile().displayName;
+
+  console.log(chalk.yellow(`Deleting ${servicerName} services from ${month}/${year} for ${woList.length} work order(s)...`));
   console.log(chalk.cyan(`Work orders: ${woList.join(', ')}`));
 
   const browser = BrowserAutomation.getInstance();
@@ -54,7 +60,7 @@ export async function deleteMonth(month: string, year: string, workOrders: strin
     const isLoginPage = await browser.isLoginPage();
     if (isLoginPage) {
       console.log(chalk.yellow('Login page detected. Logging in...'));
-      await browser.login('LPOLLOCK', '890piojkl!@#$98', 'URMCCEX3');
+      await browser.login();
     }
 
     // Process each work order
@@ -70,7 +76,7 @@ export async function deleteMonth(month: string, year: string, workOrders: strin
         await navigateToWorkOrderServices(browser, wo);
 
         // Process services for this work order
-        const result = await processServicesForMonth(browser, wo, monthNum, yearNum);
+        const result = await processServicesForMonth(browser, wo, monthNum, yearNum, servicerName);
 
         totalDeleted += result.deleted;
         totalZeroedOut += result.zeroedOut;
@@ -112,6 +118,11 @@ export async function deleteMonth(month: string, year: string, workOrders: strin
     console.log(chalk.green(`Total Services Zeroed Out: ${totalZeroedOut}`));
     console.log(chalk.cyan('='.repeat(60)));
 
+    const failed = results.filter(result => result.error);
+    if (failed.length > 0) {
+      throw new MedimizerError(`${failed.length} of ${woList.length} work order(s) failed (${failed.map(result => result.wo).join(', ')})`);
+    }
+
     return chalk.green(`Successfully processed ${woList.length} work order(s). Deleted ${totalDeleted}, zeroed out ${totalZeroedOut} services.`);
 
   } catch (error) {
@@ -123,9 +134,9 @@ export async function deleteMonth(month: string, year: string, workOrders: strin
     }
 
     if (error instanceof Error) {
-      return chalk.red(`Error: ${error.message}`);
+      throw wrapError(error, `Failed to delete month: ${error.message}`);
     } else {
-      return chalk.red('An unknown error occurred');
+      throw new Error('Failed to delete month: Unknown error');
     }
   }
 }
@@ -135,16 +146,17 @@ export async function deleteMonth(month: string, year: string, workOrders: strin
  */
 async function navigateToWorkOrderServices(browser: BrowserAutomation, workOrderNumber: string): Promise<void> {
   if (!browser.page) {
-    throw new Error('Browser page not initialized');
+    throw new MedimizerError('Browser page not initialized');
   }
 
   // URL for the work order services tab (tab=1)
-  const url = `http://sqlmedimizer1/MMWeb/App_Pages/WOForm.aspx?wo=${workOrderNumber}&mode=Edit&tab=1`;
+  const routes = MedimizerRoutes.getInstance();
+  const url = routes.workOrderUrl(workOrderNumber, WO_TABS.services);
 
   console.log(chalk.yellow(`Navigating to: ${url}`));
 
   try {
-    await browser.page.goto(url, { waitUntil: 'networkidle2', timeout: 30000 });
+    await browser.goto(url, { waitUntil: 'networkidle2', timeout: 30000 });
 
     // Take screenshot for debugging
     await browser.takeScreenshot(`delete_month_wo_${workOrderNumber}`);
@@ -153,10 +165,10 @@ async function navigateToWorkOrderServices(browser: BrowserAutomation, workOrder
     const isLoginPage = await browser.isLoginPage();
     if (isLoginPage) {
       console.log(chalk.yellow('Redirected to login page. Logging in...'));
-      await browser.login('LPOLLOCK', '890piojkl!@#$98', 'URMCCEX3');
+      await browser.login();
 
       // Navigate again after login
-      await browser.page.goto(url, { waitUntil: 'networkidle2' });
+      await browser.goto(url, { waitUntil: 'networkidle2' });
       await browser.takeScreenshot(`delete_month_wo_${workOrderNumber}_after_login`);
     }
 
@@ -169,12 +181,12 @@ async function navigateToWorkOrderServices(browser: BrowserAutomation, workOrder
     });
 
     if (!servicesGridExists) {
-      throw new Error('Failed to load services grid');
+      throw new MedimizerError('Failed to load services grid');
     }
 
     console.log(chalk.green('Successfully navigated to work order services page'));
   } catch (error) {
-    throw new Error(`Failed to navigate to work order services: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    throw wrapError(error, `Failed to navigate to work order services: ${error instanceof Error ? error.message : 'Unknown error'}`);
   }
 }
 
@@ -196,100 +208,18 @@ interface ServiceRecord {
  * Extract all service records from the page grouped by servicer
  */
 async function extractServicesWithParts(browser: BrowserAutomation): Promise<ServiceRecord[]> {
-  if (!browser.page) {
-    throw new Error('Browser page not initialized');
-  }
-
-  try {
-    return await browser.page.evaluate(() => {
-      const records: ServiceRecord[] = [];
-
-      // Get all service rows from the grid - SIMPLE APPROACH
-      const rows = document.querySelectorAll('tr.dxgvDataRow_Aqua, tr.dxgvSelectedRow_Aqua');
-
-      // Extract service IDs from DXKVInput using simple regex (not JSON parsing)
-      const serviceIdMap = new Map<number, string>();
-      const dxkvInput = document.querySelector('#ContentPlaceHolder1_pagWorkOrder_gvServInfo_DXKVInput') as HTMLInputElement;
-
-      if (dxkvInput && dxkvInput.value) {
-        // Use regex to extract service IDs: "2|Service|4586776|False|4586776|"
-        // Captures: row number (2) and service ID (4586776)
-        const servicePattern = /'(\d+)\|Service\|(\d+)\|/g;
-        let match;
-
-        while ((match = servicePattern.exec(dxkvInput.value)) !== null) {
-          const rowNum = parseInt(match[1], 10);
-          const serviceId = match[2];
-          serviceIdMap.set(rowNum - 1, serviceId); // Convert to 0-based index
-          console.log(`Extracted: row ${rowNum - 1} -> service ID ${serviceId}`);
-        }
-      }
-
-      let currentServicer = '';
-      let currentService: ServiceRecord | null = null;
-      let rowIndex = 0;
-
-      rows.forEach(row => {
-        const cellText = row.querySelector('td.dxgv')?.textContent || '';
-        const rowId = row.id || '';
-
-        // Check if this is a servicer row (contains "Employee")
-        if (cellText.includes('(Employee)')) {
-          currentServicer = cellText.replace('(Employee)', '').trim();
-          rowIndex++;
-          return;
-        }
-
-        // Check if this is a service row (starts with single hyphen "-")
-        const serviceMatch = cellText.match(/^\s*-\s+([\d/]+\s+[\d:]+\s*[APM]+)\s*-\s*(\d+)\s*Minutes\s*-\s*(.+?)\s*$/i);
-
-        if (serviceMatch) {
-          // Save previous service if exists
-          if (currentService) {
-            records.push(currentService);
-          }
-
-          // Get service ID from the map (we need this for editing)
-          const serviceId = serviceIdMap.get(rowIndex) || null;
-
-          // Create new service record
-          currentService = {
-            rowId,
-            serviceId: serviceId,
-            servicer: currentServicer,
-            dateTime: serviceMatch[1].trim(),
-            minutes: parseInt(serviceMatch[2], 10),
-            description: serviceMatch[3].trim(),
-            hasParts: false, // Will be set to true if we find "--" rows
-            partRowIds: []
-          };
-          rowIndex++;
-          return;
-        }
-
-        // Check if this is a part row (starts with double hyphen "--")
-        const partMatch = cellText.match(/^\s*--\s+/);
-
-        if (partMatch && currentService) {
-          // Mark current service as having parts
-          currentService.hasParts = true;
-          if (rowId) {
-            currentService.partRowIds.push(rowId);
-          }
-          rowIndex++;
-        }
-      });
-
-      // Don't forget to add the last service
-      if (currentService) {
-        records.push(currentService);
-      }
-
-      return records;
-    });
-  } catch (error) {
-    throw new Error(`Failed to extract service records: ${error instanceof Error ? error.message : 'Unknown error'}`);
-  }
+  const rows = await browser.extractServiceRows();
+
+  return rows.map(row => ({
+    rowId: row.rowId,
+    serviceId: row.serviceId,
+    servicer: row.servicer,
+    dateTime: row.dateTime,
+    minutes: row.minutes,
+    description: row.description,
+    hasParts: row.parts.length > 0,
+    partRowIds: row.parts.map(part => part.rowId).filter(rowId => rowId !== '')
+  }));
 }
 
 /**
@@ -319,10 +249,11 @@ async function processServicesForMonth(
   browser: BrowserAutomation,
   workOrderNumber: string,
   month: number,
-  year: number
+  year: number,
+  servicerName: string
 ): Promise<{ deleted: number; zeroedOut: number }> {
   if (!browser.page) {
-    throw new Error('Browser page not initialized');
+    throw new MedimizerError('Browser page not initialized');
   }
 
   let deleted = 0;
@@ -336,17 +267,17 @@ async function processServicesForMonth(
 
     console.log(chalk.green(`Found ${allServices.length} total services`));
 
-    // Filter for LONNIE POLLOCKS services in the specified month/year
+    // Filter for the technician's services in the specified month/year
     const targetServices = allServices.filter(service => {
-      return service.servicer === 'LONNIE POLLOCKS' && isInMonth(service.dateTime, month, year);
+      return service.servicer.toUpperCase() === servicerName && isInMonth(service.dateTime, month, year);
     });
 
     if (targetServices.length === 0) {
-      console.log(chalk.yellow('No LONNIE POLLOCKS services found for this month/year'));
+      console.log(chalk.yellow(`No ${servicerName} services found for this month/year`));
       return { deleted: 0, zeroedOut: 0 };
     }
 
-    console.log(chalk.cyan(`Found ${targetServices.length} LONNIE POLLOCKS services in ${month}/${year}:`));
+    console.log(chalk.cyan(`Found ${targetServices.length} ${servicerName} services in ${month}/${year}:`));
     targetServices.forEach((service, idx) => {
       console.log(chalk.cyan(`  ${idx + 1}. ${service.dateTime} - ${service.minutes} min - ${service.description}`));
       console.log(chalk.cyan(`     Parts: ${service.hasParts ? 'YES' : 'NO'}`));
@@ -395,7 +326,7 @@ async function processServicesForMonth(
     return { deleted, zeroedOut };
 
   } catch (error) {
-    throw new Error(`Failed to process services: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    throw wrapError(error, `Failed to process services: ${error instanceof Error ? error.message : 'Unknown error'}`);
   }
 }
 
@@ -404,7 +335,7 @@ async function processServicesForMonth(
  */
 async function deleteService(browser: BrowserAutomation, rowId: string): Promise<boolean> {
   if (!browser.page) {
-    throw new Error('Browser page not initialized');
+    throw new MedimizerError('Browser page not initialized');
   }
 
   try {
@@ -478,32 +409,34 @@ async function deleteService(browser: BrowserAutomation, rowId: string): Promise
  */
 async function setServiceTimeToZero(browser: BrowserAutomation, serviceId: string, workOrderNumber: string): Promise<boolean> {
   if (!browser.page) {
-    throw new Error('Browser page not initialized');
+    throw new MedimizerError('Browser page not initialized');
   }
 
   try {
     console.log(chalk.yellow(`Setting service time to 0 for service ID: ${serviceId}`));
 
     // Navigate to edit service page (identical to add service form)
-    const editUrl = `http://sqlmedimizer1/MMWeb/App_Pages/ServiceForm.aspx?WO=${workOrderNumber}&Service=${serviceId}`;
+    const routes = MedimizerRoutes.getInstance();
+    const editUrl = routes.serviceEditUrl(workOrderNumber, serviceId);
     console.log(chalk.yellow(`Navigating to: ${editUrl}`));
 
-    await browser.page.goto(editUrl, { waitUntil: 'networkidle2', timeout: 30000 });
+    await browser.goto(editUrl, { waitUntil: 'networkidle2', timeout: 30000 });
     await browser.takeScreenshot(`edit_service_${serviceId}`);
 
     // Check if we need to log in
     const isLoginPage = await browser.isLoginPage();
     if (isLoginPage) {
       console.log(chalk.yellow('Redirected to login page. Logging in...'));
-      await browser.login('LPOLLOCK', '890piojkl!@#$98', 'URMCCEX3');
-      await browser.page.goto(editUrl, { waitUntil: 'networkidle2' });
+      await browser.login();
+      await browser.goto(editUrl, { waitUntil: 'networkidle2' });
       await browser.takeScreenshot(`edit_service_${serviceId}_after_login`);
     }
 
     // Wait for page to load
     await new Promise(resolve => setTimeout(resolve, 1500));
 
-    // Verify the employee is LPOLLOCK
+    // Verify the employee is the active technician
+    const { employeeCode } = ProfileManager.getInstance().getActiveProfile();
     const employeeSelector = '#ContentPlaceHolder1_pagService_cboEmployees_I';
     const currentEmployee = await browser.page.evaluate((sel) => {
       const input = document.querySelector(sel) as HTMLInputElement;
@@ -512,8 +445,8 @@ async function setServiceTimeToZero(browser: BrowserAutomation, serviceId: strin
 
     console.log(chalk.cyan(`Current employee: ${currentEmployee}`));
 
-    if (!currentEmployee.includes('LPOLLOCK')) {
-      console.log(chalk.red(`Service is not by LPOLLOCK (found: ${currentEmployee}), skipping`));
+    if (!currentEmployee.includes(employeeCode)) {
+      console.log(chalk.red(`Service is not by ${employeeCode} (found: ${currentEmployee}), skipping`));
       return false;
     }
 
@@ -1,5 +1,6 @@
 import { WorkDatabase } from '../database';
 import chalk from 'chalk';
+import { ValidationError, wrapError } from '../utils/errors';
 
 /**
  * Get detailed information for a specific work order
@@ -11,7 +12,7 @@ export async function getWorkOrderDetails(workOrderNumber: string): Promise<stri
   try {
     // Validate input
     if (!workOrderNumber || workOrderNumber.trim() === '') {
-      throw new Error('Work order number is required');
+      throw new ValidationError('Work order number is required');
     }
 
     // Get database instance
@@ -25,7 +26,7 @@ export async function getWorkOrderDetails(workOrderNumber: string): Promise<stri
   } catch (error) {
     // Handle errors
     if (error instanceof Error) {
-      throw new Error(`Failed to get work order details: ${error.message}`);
+      throw wrapError(error, `Failed to get work order details: ${error.message}`);
     } else {
       throw new Error('Failed to get work order details: Unknown error');
     }
@@ -73,13 +74,13 @@ function formatWorkOrderDetails(workOrder: any): string {
   if (workOrder.services && workOrder.services.length > 0) {
     workOrder.services.forEach((service: any, index: number) => {
       const serviceDate = new Date(service.dateAdded).toLocaleString();
-      result += chalk.yellow(`${index + 1}. ${service.verb} ${service.noun}\n`);
+      result += chalk.yellow(`${index + 1}. ${service.verb}${service.noun ? ` ${service.noun}` : ''}\n`);
       result += `   Date: ${serviceDate}\n`;
       result += `   Duration: ${service.duration} minutes\n`;
       
       // Add service notes if they exist
       if (service.notes) {
-        result += `   Notes: ${service.notes}\n`;
+        result += `   Notes: ${service.notes.replace(/\n/g, '\n          ')}\n`;
       }
       
       // Parts section for this service
@@ -91,7 +92,7 @@ function formatWorkOrderDetails(workOrder: any): string {
           const partCost = part.cost * part.quantity;
           totalPartsCost += partCost;
           
-          result += `     - ${part.partNumber} x${part.quantity}: $${partCost.toFixed(2)}\n`;
+          result += `     - ${part.partNumber} x${part.quantity}: $${partCost.toFixed(2)}${part.description ? ` (${part.description})` : ''}\n`;
         });
         
         result += chalk.magenta(`   Total Parts Cost: $${totalPartsCost.toFixed(2)}\n`);
@@ -0,0 +1,85 @@
+import chalk from 'chalk';
+import { ConfigManager } from '../utils/config-manager';
+import { MedimizerRoutes } from '../utils/medimizer-routes';
+import { BrowserAutomation } from '../utils/browser-enhanced';
+import { ValidationError, wrapError } from '../utils/errors';
+
+/**
+ * List the Medimizer environment profiles and mark the active one
+ *
+ * @returns A promise that resolves to a formatted list of environments
+ */
+export async function showEnvironments(): Promise<string> {
+  try {
+    const routes = MedimizerRoutes.getInstance();
+    const activeName = ConfigManager.getInstance().getString('medimizer.environment');
+    const environments = routes.getEnvironments();
+    const nameWidth = Math.max(...environments.map(env => env.name.length));
+
+    let result = '\n';
+    result += chalk.cyan('=============================================================\n');
+    result += chalk.cyan('                   MEDIMIZER ENVIRONMENTS                    \n');
+    result += chalk.cyan('=============================================================\n\n');
+
+    environments.forEach(env => {
+      const marker = env.name === activeName ? chalk.green('* ') : '  ';
+      const database = env.database ? chalk.gray(` [${env.database}]`) : '';
+      result += `${marker}${chalk.white(env.name.padEnd(nameWidth))}  ${chalk.yellow(env.baseUrl)}${database}\n`;
+      result += `  ${' '.repeat(nameWidth)}  ${chalk.gray(env.description)}\n`;
+    });
+
+    result += chalk.cyan('\n=============================================================\n');
+    result += `Custom environments: ${routes.getEnvironmentsFilePath()}\n`;
+
+    return result;
+  } catch (error) {
+    if (error instanceof Error) {
+      throw wrapError(error, `Failed to list environments: ${error.message}`);
+    } else {
+      throw new Error('Failed to list environments: Unknown error');
+    }
+  }
+}
+
+/**
+ * Switch the active Medimizer environment profile
+ *
+ * @param name - Name of the environment profile
+ * @returns A promise that resolves to a success message
+ */
+export async function useEnvironment(name: string): Promise<string> {
+  try {
+    const routes = MedimizerRoutes.getInstance();
+    const environment = routes.findEnvironment(name);
+
+    if (!environment) {
+      const names = routes.getEnvironments().map(env => env.name).join(', ');
+      throw new ValidationError(`Unknown environment "${name}". Available: ${names}`);
+    }
+
+    const config = ConfigManager.getInstance();
+    config.set('medimizer.environment', environment.name);
+
+    // An open browser is still logged in to the previous environment
+    const browser = BrowserAutomation.getInstance();
+    if (browser.browser) {
+      await browser.close();
+    }
+
+    let result = `Now using ${environment.name} (${environment.baseUrl})`;
+
+    if (config.getEntry('medimizer.environment').source === 'env') {
+      result += chalk.yellow(`\nNote: ${config.getEntry('medimizer.environment').setting.env} is set and overrides this choice`);
+    }
+
+    return result;
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      throw error;
+    } else if (error instanceof Error) {
+      throw wrapError(error, `Failed to switch environment: ${error.message}`);
+    } else {
+      throw new Error('Failed to switch environment: Unknown error');
+    }
+  }
+}
@@ -3,26 +3,35 @@ import { createWorkOrderDirectory, createNotesFile } from '../utils/filesystem';
 import inquirer from 'inquirer';
 import chalk from 'chalk';
 import { BrowserAutomation } from '../utils/browser-enhanced';
-import { writeNotesFile } from '../utils/filesystem';
+import { readNotesFile, writeNotesFile } from '../utils/filesystem';
+import { renderTemplate, getTemplateVariables } from '../utils/notes-template';
+import { formatImportedService } from '../utils/imported-services';
+import { ValidationError, MedimizerError, wrapError } from '../utils/errors';
 
 /**
  * Initialize a new work order
  * 
  * This command creates a new work order in the database with the provided 7-digit number
  * and optional 8-digit control number. It also creates a directory structure for the work order.
- * Optionally imports notes from Medimizer if requested.
+ * Optionally imports notes from Medimizer if requested, and seeds the notes from a template.
  * 
  * @param workOrderNumber - 7-digit work order number
  * @param controlNumber - Optional 8-digit control number
+ * @param templateName - Optional template from the templates directory to seed the notes with
  * @returns A promise that resolves to a success message or rejects with an error
  */
-export async function initWorkOrder(workOrderNumber: string, controlNumber?: string): Promise<string> {
+export async function initWorkOrder(workOrderNumber: string, controlNumber?: string, templateName?: string): Promise<string> {
   try {
     // Input validation
     if (!workOrderNumber || workOrderNumber.trim() === '') {
-      throw new Error('Work order number is required');
+      throw new ValidationError('Work order number is required');
     }
 
+    // Render the template first so a typo fails before anything is created
+    const template = templateName
+      ? renderTemplate(templateName, getTemplateVariables(workOrderNumber, controlNumber))
+      : null;
+
     // Get database instance
     const db = WorkDatabase.getInstance();
     
@@ -65,12 +74,19 @@ export async function initWorkOrder(workOrderNumber: string, controlNumber?: str
       }
     }
 
+    // Add the template after any imported notes
+    if (template !== null) {
+      const content = await readNotesFile(workOrderNumber);
+      await writeNotesFile(workOrderNumber, `${content.trimEnd()}\n\n${template.trim()}\n`);
+      resultMessage += `\nNotes seeded from template ${templateName}`;
+    }
+
     // Return success message
     return resultMessage;
   } catch (error) {
     // Handle errors
     if (error instanceof Error) {
-      throw new Error(`Failed to initialize work order: ${error.message}`);
+      throw wrapError(error, `Failed to initialize work order: ${error.message}`);
     } else {
       throw new Error('Failed to initialize work order: Unknown error');
     }
@@ -91,7 +107,7 @@ async function importFromMedimizer(workOrderNumber: string): Promise<string> {
     // Initialize the browser
     await browser.initialize();
     if (!browser.page) {
-      throw new Error("Browser page not initialized");
+      throw new MedimizerError("Browser page not initialized");
     }
     
     // Import notes
@@ -104,6 +120,13 @@ async function importFromMedimizer(workOrderNumber: string): Promise<string> {
     
     // Print services count for debugging
     console.log(chalk.yellow(`Found ${services.length} services to import`));
+
+    // Keep the structured records, so later operations can find services by their Medimizer ID
+    const db = WorkDatabase.getInstance();
+    const workOrder = await db.getWorkOrder(workOrderNumber);
+    if (workOrder) {
+      await db.saveImportedServices(workOrder.id!, services);
+    }
     
     // Get current date for timestamp
     const currentDate = new Date();
@@ -126,7 +149,7 @@ ${notes || '~No notes found in Medimizer~'}
 ================================
 IMPORTED SERVICES FROM MM
 ================================
-${services.join('\n')}
+${services.map(formatImportedService).join('\n')}
 
 `;
     }
@@ -147,7 +170,7 @@ ${services.join('\n')}
     }
     
     if (error instanceof Error) {
-      throw new Error(`Failed to import from Medimizer: ${error.message}`);
+      throw wrapError(error, `Failed to import from Medimizer: ${error.message}`);
     } else {
       throw new Error('Failed to import from Medimizer: Unknown error');
     }
@@ -0,0 +1,78 @@
+import chalk from 'chalk';
+import { readNotesFile, writeNotesFile } from '../utils/filesystem';
+import { lintNotes, NotesDiagnostic } from '../utils/notes-linter';
+import { ValidationError, wrapError } from '../utils/errors';
+
+/**
+ * Check a work order's notes file and report problems by line number
+ *
+ * @param workOrderNumber - 7-digit work order number
+ * @param fix - Apply safe fixes and write the file back before reporting
+ * @returns A promise that resolves to the report when there are no errors
+ * @throws ValidationError when errors remain, after printing the report
+ */
+export async function lintWorkOrder(workOrderNumber: string, fix: boolean = false): Promise<string> {
+  try {
+    // Step 1: Lint, applying fixes first if asked
+    let content = await readNotesFile(workOrderNumber);
+    let result = await lintNotes(content);
+    let fixMessage = '';
+
+    if (fix && result.fixedLines > 0) {
+      await writeNotesFile(workOrderNumber, result.fixedContent);
+      fixMessage = chalk.green(`Fixed ${result.fixedLines} line(s)\n`);
+      content = result.fixedContent;
+      result = await lintNotes(content);
+    }
+
+    // Step 2: Format the report
+    const errors = result.diagnostics.filter(diagnostic => diagnostic.severity === 'error');
+    const warnings = result.diagnostics.filter(diagnostic => diagnostic.severity === 'warning');
+    const fixable = result.diagnostics.filter(diagnostic => diagnostic.fixable).length;
+
+    let report = fixMessage;
+    if (result.diagnostics.length === 0) {
+      report += chalk.green(`${workOrderNumber}_notes.md: no problems found`);
+      return report;
+    }
+
+    report += chalk.underline(`${workOrderNumber}_notes.md`) + '\n';
+    result.diagnostics.forEach(diagnostic => {
+      report += formatDiagnostic(diagnostic) + '\n';
+    });
+
+    report += `\n${errors.length} error(s), ${warnings.length} warning(s)`;
+    if (fixable > 0) {
+      report += chalk.gray(`\n${fixable} problem(s) can be fixed with 'lint ${workOrderNumber} --fix'`);
+    }
+
+    if (errors.length === 0) {
+      return report;
+    }
+
+    console.log(report);
+    throw new ValidationError(`Notes for work order ${workOrderNumber} have ${errors.length} error(s)`);
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      throw error;
+    } else if (error instanceof Error) {
+      throw wrapError(error, `Failed to lint notes: ${error.message}`);
+    } else {
+      throw new Error('Failed to lint notes: Unknown error');
+    }
+  }
+}
+
+/**
+ * Format one diagnostic as "line:column  severity  message  rule"
+ *
+ * @param diagnostic - Diagnostic to format
+ */
+function formatDiagnostic(diagnostic: NotesDiagnostic): string {
+  const position = `${diagnostic.line}:${diagnostic.column}`.padEnd(8);
+  const severity = diagnostic.severity === 'error'
+    ? chalk.red('error'.padEnd(8))
+    : chalk.yellow('warning'.padEnd(8));
+
+  return `  ${chalk.gray(position)}${severity}${diagnostic.message}  ${chalk.gray(diagnostic.rule)}`;
+}
@@ -1,6 +1,7 @@
 import { WorkDatabase } from '../database';
 import { WorkOrder } from '../models/workOrder';
 import chalk from 'chalk';
+import { wrapError } from '../utils/errors';
 
 /**
  * List all work orders from the database
@@ -25,7 +26,7 @@ export async function listWorkOrders(): Promise<string> {
   } catch (error) {
     // Handle errors
     if (error instanceof Error) {
-      throw new Error(`Failed to list work orders: ${error.message}`);
+      throw wrapError(error, `Failed to list work orders: ${error.message}`);
     } else {
       throw new Error('Failed to list work orders: Unknown error');
     }
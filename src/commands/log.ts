@@ -3,7 +3,9 @@ import path from 'path';
 import { promisify } from 'util';
 import inquirer from 'inquirer';
 import chalk from 'chalk';
-import { openInNvim } from '../utils/editor';
+import { openInEditor } from '../utils/editor';
+import { ConfigManager } from '../utils/config-manager';
+import { ValidationError, wrapError } from '../utils/errors';
 
 // Convert callback-based fs functions to Promise-based
 
@@ -33,11 +35,11 @@ export async function createLog(logName: string): Promise<string> {
   try {
     // Validate log name
     if (!logName || logName.trim() === '') {
-      throw new Error('Log name is required');
+      throw new ValidationError('Log name is required');
     }
 
     if (logName.length > 50) {
-      throw new Error('Log name must be 50 characters or less');
+      throw new ValidationError('Log name must be 50 characters or less');
     }
 
     // Process log name (lowercase, replace spaces with underscores, remove invalid chars)
@@ -46,7 +48,7 @@ export async function createLog(logName: string): Promise<string> {
       .replace(/[^a-z0-9_-]/g, ''); // Remove any characters that aren't safe for filenames
     
     // Check if journal directory exists, create if needed
-    const journalDir = path.join(process.cwd(), 'journal');
+    const journalDir = ConfigManager.getInstance().resolvePath('paths.journal');
     
     if (!fs.existsSync(journalDir)) {
       const { createDir } = await inquirer.prompt([
@@ -90,7 +92,7 @@ export async function createLog(logName: string): Promise<string> {
       ]);
       
       if (openExisting) {
-        await openInNvim(filePath);
+        await openInEditor(filePath);
         return `Opened existing log file: ${filename}`;
       } else {
         return 'Operation canceled';
@@ -145,13 +147,13 @@ ${customHeader}
     await writeFile(filePath, template, 'utf8');
     console.log(chalk.green(`Created log file: ${filename}`));
     
-    // Open file in nvim
-    await openInNvim(filePath);
+    // Open file in the editor
+    await openInEditor(filePath);
     
     return `Log file created and opened: ${filename}`;
   } catch (error) {
     if (error instanceof Error) {
-      throw new Error(`Failed to create log: ${error.message}`);
+      throw wrapError(error, `Failed to create log: ${error.message}`);
     } else {
       throw new Error('Failed to create log: Unknown error');
     }
@@ -165,7 +167,7 @@ ${customHeader}
  */
 export async function listLogs(): Promise<string> {
   try {
-    const journalDir = path.join(process.cwd(), 'journal');
+    const journalDir = ConfigManager.getInstance().resolvePath('paths.journal');
     
     if (!fs.existsSync(journalDir)) {
       return 'Journal directory does not exist. Create one with the log command.';
@@ -205,7 +207,7 @@ export async function listLogs(): Promise<string> {
     return result;
   } catch (error) {
     if (error instanceof Error) {
-      throw new Error(`Failed to list logs: ${error.message}`);
+      throw wrapError(error, `Failed to list logs: ${error.message}`);
     } else {
       throw new Error('Failed to list logs: Unknown error');
     }
@@ -220,7 +222,7 @@ export async function listLogs(): Promise<string> {
  */
 export async function openLog(logIdentifier: string): Promise<string> {
   try {
-    const journalDir = path.join(process.cwd(), 'journal');
+    const journalDir = ConfigManager.getInstance().resolvePath('paths.journal');
     
     if (!fs.existsSync(journalDir)) {
       return 'Journal directory does not exist. Create one with the log command.';
@@ -255,17 +257,17 @@ export async function openLog(logIdentifier: string): Promise<string> {
       ]);
       
       const filePath = path.join(journalDir, selectedFile);
-      await openInNvim(filePath);
+      await openInEditor(filePath);
       return `Opened log file: ${selectedFile}`;
     } else {
       // Single match, open it directly
       const filePath = path.join(journalDir, matchingFiles[0]);
-      await openInNvim(filePath);
+      await openInEditor(filePath);
       return `Opened log file: ${matchingFiles[0]}`;
     }
   } catch (error) {
     if (error instanceof Error) {
-      throw new Error(`Failed to open log: ${error.message}`);
+      throw wrapError(error, `Failed to open log: ${error.message}`);
     } else {
       throw new Error('Failed to open log: Unknown error');
     }
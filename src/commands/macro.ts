@@ -0,0 +1,302 @@
+import inquirer from 'inquirer';
+import chalk from 'chalk';
+import { CommandRegistry, CommandDefinition, CommandSession } from '../utils/command-registry';
+import { MacroManager, Alias, Macro, UserCommandType, expandParameters, usesParameters } from '../utils/macro-manager';
+import { ValidationError, ScriptError, getExitCode, wrapError } from '../utils/errors';
+import { quoteToken, splitCommands } from '../utils/tokenizer';
+
+const ALIASES = 'Aliases';
+const MACROS = 'Macros';
+
+// Aliases and macros currently running, to stop one from calling itself
+const activeCommands: Set<string> = new Set();
+
+/**
+ * List the user-defined aliases
+ *
+ * @returns A promise that resolves to a formatted list of aliases
+ */
+export async function listAliases(): Promise<string> {
+  try {
+    const aliases = MacroManager.getInstance().getAliases();
+
+    if (aliases.length === 0) {
+      return "No aliases defined. Add one with 'alias add <name> \"<command>\"'.";
+    }
+
+    let result = chalk.yellow('Aliases:') + '\n';
+    aliases.forEach(alias => {
+      result += `  ${chalk.cyan(alias.name.padEnd(12))} ${alias.command}\n`;
+    });
+
+    return result.trimEnd();
+  } catch (error) {
+    if (error instanceof Error) {
+      throw wrapError(error, `Failed to list aliases: ${error.message}`);
+    } else {
+      throw new Error('Failed to list aliases: Unknown error');
+    }
+  }
+}
+
+/**
+ * Define or replace an alias
+ *
+ * @param name - Alias name
+ * @param command - Command line the alias expands to
+ * @returns A promise that resolves to a success message
+ */
+export async function setAlias(name: string, command: string): Promise<string> {
+  try {
+    checkNameAvailable(name);
+
+    const alias = MacroManager.getInstance().setAlias(name, command);
+    const registry = CommandRegistry.getInstance();
+    registry.unregister(alias.name);
+    registry.register(buildAliasCommand(alias));
+
+    return `Alias ${alias.name} = ${alias.command}`;
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      throw error;
+    } else if (error instanceof Error) {
+      throw wrapError(error, `Failed to set alias: ${error.message}`);
+    } else {
+      throw new Error('Failed to set alias: Unknown error');
+    }
+  }
+}
+
+/**
+ * List the user-defined macros and their steps
+ *
+ * @returns A promise that resolves to a formatted list of macros
+ */
+export async function listMacros(): Promise<string> {
+  try {
+    const macros = MacroManager.getInstance().getMacros();
+
+    if (macros.length === 0) {
+      return "No macros defined. Add one with 'macro add <name> \"<step>; <step>; ...\"'.";
+    }
+
+    let result = chalk.yellow('Macros:') + '\n';
+    macros.forEach(macro => {
+      result += `\n  ${chalk.cyan(macro.name)}${macro.description ? ` - ${macro.description}` : ''}\n`;
+      macro.steps.forEach((step, index) => {
+        result += chalk.gray(`    ${index + 1}. `) + `${step}\n`;
+      });
+    });
+
+    return result.trimEnd();
+  } catch (error) {
+    if (error instanceof Error) {
+      throw wrapError(error, `Failed to list macros: ${error.message}`);
+    } else {
+      throw new Error('Failed to list macros: Unknown error');
+    }
+  }
+}
+
+/**
+ * Define or replace a macro
+ *
+ * @param name - Macro name
+ * @param definition - Steps separated by semicolons
+ * @param description - Optional description shown in help
+ * @returns A promise that resolves to a success message
+ */
+export async function setMacro(name: string, definition: string, description?: string): Promise<string> {
+  try {
+    checkNameAvailable(name);
+
+    const macro = MacroManager.getInstance().setMacro(name, splitCommands(definition), description);
+    const registry = CommandRegistry.getInstance();
+    registry.unregister(macro.name);
+    registry.register(buildMacroCommand(macro));
+
+    return `Macro ${macro.name} saved with ${macro.steps.length} step(s)`;
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      throw error;
+    } else if (error instanceof Error) {
+      throw wrapError(error, `Failed to set macro: ${error.message}`);
+    } else {
+      throw new Error('Failed to set macro: Unknown error');
+    }
+  }
+}
+
+/**
+ * Remove an alias or macro
+ *
+ * @param name - Alias or macro name
+ * @param type - Kind of command the name must belong to
+ * @returns A promise that resolves to a success message
+ */
+export async function removeUserCommand(name: string, type: UserCommandType): Promise<string> {
+  try {
+    const manager = MacroManager.getInstance();
+    if (!manager.remove(name, type)) {
+      const other: UserCommandType = type === 'alias' ? 'macro' : 'alias';
+      const isOther = other === 'alias' ? manager.findAlias(name) : manager.findMacro(name);
+      throw new ValidationError(isOther
+        ? `"${name}" is ${other === 'alias' ? 'an alias' : 'a macro'}. Use '${other} rm ${name}' to remove it`
+        : `No ${type} named "${name}"`);
+    }
+
+    CommandRegistry.getInstance().unregister(name);
+    return `Removed ${type} ${name.toLowerCase()}`;
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      throw error;
+    } else if (error instanceof Error) {
+      throw wrapError(error, `Failed to remove ${name}: ${error.message}`);
+    } else {
+      throw new Error(`Failed to remove ${name}: Unknown error`);
+    }
+  }
+}
+
+/**
+ * Register every saved alias and macro as a command
+ *
+ * Definitions whose names clash with built-in commands are skipped with a warning.
+ *
+ * @param registry - Registry to add the commands to
+ */
+export function registerUserCommands(registry: CommandRegistry): void {
+  const manager = MacroManager.getInstance();
+  const definitions = [
+    ...manager.getAliases().map(buildAliasCommand),
+    ...manager.getMacros().map(buildMacroCommand)
+  ];
+
+  definitions.forEach(definition => {
+    if (registry.find(definition.name)) {
+      console.error(chalk.yellow(`Skipping ${definition.name} from ${manager.getMacrosFilePath()}: a command with that name already exists`));
+      return;
+    }
+    registry.register(definition);
+  });
+}
+
+/**
+ * Build the command definition for an alias
+ *
+ * @param alias - Saved alias
+ */
+function buildAliasCommand(alias: Alias): CommandDefinition {
+  return {
+    name: alias.name,
+    group: ALIASES,
+    description: `Alias for "${alias.command}"`,
+    args: [{ name: 'args', type: 'string', description: 'Arguments passed to the alias', required: false, rest: true, list: true }],
+    passThrough: true,
+    handler: async ({ args, session }) => {
+      const argv: string[] = args.args;
+
+      // Without parameters the arguments are appended, like a shell alias
+      const commandLine = usesParameters(alias.command)
+        ? expandParameters(alias.command, argv, alias.name)
+        : [alias.command, ...argv.map(quoteToken)].join(' ');
+
+      if (activeCommands.has(alias.name)) {
+        throw new ValidationError(`Alias ${alias.name} cannot call itself`);
+      }
+
+      activeCommands.add(alias.name);
+      try {
+        const error = await session.execute(commandLine);
+        if (error) {
+          throw new ScriptError(`Alias ${alias.name} failed: ${commandLine}`, getExitCode(error));
+        }
+      } finally {
+        activeCommands.delete(alias.name);
+      }
+    }
+  };
+}
+
+/**
+ * Build the command definition for a macro
+ *
+ * @param macro - Saved macro
+ */
+function buildMacroCommand(macro: Macro): CommandDefinition {
+  return {
+    name: macro.name,
+    group: MACROS,
+    description: macro.description || `Runs: ${macro.steps.join('; ')}`,
+    args: [{ name: 'args', type: 'string', description: 'Arguments used as $1..$9 and $@ in the steps', required: false, rest: true, list: true }],
+    passThrough: true,
+    examples: macro.steps,
+    handler: async ({ args, session }) => await runMacro(macro, args.args, session)
+  };
+}
+
+/**
+ * Run the steps of a macro through the session dispatcher
+ *
+ * A "confirm <message>" step asks before continuing and ends the macro quietly if declined.
+ *
+ * @param macro - Macro to run
+ * @param argv - Arguments passed to the macro
+ * @param session - Session whose dispatcher runs each step
+ * @returns A promise that resolves to a completion message
+ */
+async function runMacro(macro: Macro, argv: string[], session: CommandSession): Promise<string> {
+  if (activeCommands.has(macro.name)) {
+    throw new ValidationError(`Macro ${macro.name} cannot call itself`);
+  }
+
+  // Expand every step first so a missing argument fails before anything runs
+  const steps = macro.steps.map(step => expandParameters(step, argv, macro.name));
+
+  activeCommands.add(macro.name);
+  try {
+    for (let i = 0; i < steps.length; i++) {
+      const step = steps[i];
+      const words = CommandRegistry.getInstance().tokenizeLine(step);
+
+      if (words[0] && words[0].toLowerCase() === 'confirm') {
+        const { confirm } = await inquirer.prompt([
+          {
+            type: 'confirm',
+            name: 'confirm',
+            message: chalk.yellow(words.slice(1).join(' ') || 'Continue?'),
+            default: false
+          }
+        ]);
+
+        if (!confirm) {
+          return chalk.yellow(`Macro ${macro.name} stopped at step ${i + 1} by user.`);
+        }
+        continue;
+      }
+
+      console.log(chalk.gray(`[${macro.name} ${i + 1}/${steps.length}] ${step}`));
+      const error = await session.execute(step);
+      if (error) {
+        throw new ScriptError(`Macro ${macro.name} stopped at step ${i + 1}: ${step}`, getExitCode(error));
+      }
+    }
+  } finally {
+    activeCommands.delete(macro.name);
+  }
+
+  return chalk.green(`Macro ${macro.name} finished`);
+}
+
+/**
+ * Make sure a name does not shadow a built-in command
+ *
+ * @param name - Proposed alias or macro name
+ * @throws ValidationError if a built-in command already uses the name
+ */
+function checkNameAvailable(name: string): void {
+  const existing = CommandRegistry.getInstance().find(name);
+  if (existing && existing.group !== ALIASES && existing.group !== MACROS) {
+    throw new ValidationError(`"${name}" is a built-in command`);
+  }
+}
@@ -1,12 +1,27 @@
 import { WorkDatabase } from '../database';
-import { createNotesFile, readNotesFile, writeNotesFile, getFormattedDateTime, getFormattedServiceImportTime } from '../utils/filesystem';
-import { openNotesInNvim } from '../utils/editor';
+import { createNotesFile, readNotesFile, writeNotesFile, backupNotesFile, getFormattedDateTime, getFormattedServiceImportTime } from '../utils/filesystem';
+import { openNotesInEditor } from '../utils/editor';
 import { BrowserAutomation } from '../utils/browser-enhanced';
 import chalk from 'chalk';
+import { parseNotes } from '../utils/notes-grammar';
+import { stampChecklist } from '../utils/notes-template';
+import {
+  NO_NOTES_PLACEHOLDER,
+  parseNotesSections,
+  findLatestSection,
+  collectImportedNotesLines,
+  findNewImportedNotesLines,
+  trimBlankLines
+} from '../utils/notes-sections';
+import { diffLines } from '../utils/line-diff';
+import { WO_TABS } from '../utils/medimizer-routes';
+import { ValidationError, wrapError } from '../utils/errors';
+import { formatImportedService, collectImportedServiceKeys, isServiceImported } from '../utils/imported-services';
 
 /**
- * Open notes for a work order using nvim
- * Either creates a new notes file or opens an existing one
+ * Open notes for a work order in the configured editor
+ * Either creates a new notes file or opens an existing one; checklist items
+ * checked off while editing are stamped with the time the editor closed
  * 
  * @param workOrderNumber - 7-digit work order number
  * @returns A promise that resolves when the operation is complete
@@ -15,12 +30,12 @@ export async function openNotes(workOrderNumber: string): Promise<string> {
   try {
     // Input validation
     if (!workOrderNumber || workOrderNumber.trim() === '') {
-      throw new Error('Work order number is required');
+      throw new ValidationError('Work order number is required');
     }
 
     // Validate work order number format
     if (!/^\d{7}$/.test(workOrderNumber)) {
-      throw new Error('Work order number must be exactly 7 digits');
+      throw new ValidationError('Work order number must be exactly 7 digits');
     }
 
     // Get database instance
@@ -29,19 +44,26 @@ export async function openNotes(workOrderNumber: string): Promise<string> {
     // Check if work order exists in the database
     const workOrder = await db.getWorkOrder(workOrderNumber);
     if (!workOrder) {
-      throw new Error(`Work order ${workOrderNumber} not found in the database`);
+      throw new ValidationError(`Work order ${workOrderNumber} not found in the database`);
     }
 
     // Create or get the notes file
     const notesFilePath = await createNotesFile(workOrderNumber);
 
-    // Open the notes file in nvim
-    await openNotesInNvim(workOrderNumber);
+    // Open the notes file in the editor
+    await openNotesInEditor(workOrderNumber);
 
-    return `Notes for work order ${workOrderNumber} opened successfully with nvim`;
+    // Turn checklist items ticked in the editor into timestamped service lines
+    const checklist = stampChecklist(await readNotesFile(workOrderNumber));
+    if (checklist.stamped > 0) {
+      await writeNotesFile(workOrderNumber, checklist.content);
+      return `Notes for work order ${workOrderNumber} opened successfully; ${checklist.stamped} checked item(s) stamped`;
+    }
+
+    return `Notes for work order ${workOrderNumber} opened successfully`;
   } catch (error) {
     if (error instanceof Error) {
-      throw new Error(`Failed to open notes: ${error.message}`);
+      throw wrapError(error, `Failed to open notes: ${error.message}`);
     } else {
       throw new Error('Failed to open notes: Unknown error');
     }
@@ -51,19 +73,26 @@ export async function openNotes(workOrderNumber: string): Promise<string> {
 /**
  * Import notes and services from Medimizer for a work order
  * 
+ * By default a new dated import section is appended holding only the Medimizer notes and
+ * services that earlier imports did not bring in; local content is left as it is.
+ * The previous file is kept as <wo>_notes.md.bak either way.
+ * 
  * @param workOrderNumber - 7-digit work order number
+ * @param replace - Overwrite the notes file with a fresh import instead of merging
  * @returns A promise that resolves when the import is complete
  */
-export async function importNotes(workOrderNumber: string): Promise<string> {
+export async function importNotes(workOrderNumber: string, replace: boolean = false): Promise<string> {
+  const browser = BrowserAutomation.getInstance();
+
   try {
     // Input validation
     if (!workOrderNumber || workOrderNumber.trim() === '') {
-      throw new Error('Work order number is required');
+      throw new ValidationError('Work order number is required');
     }
 
     // Validate work order number format
     if (!/^\d{7}$/.test(workOrderNumber)) {
-      throw new Error('Work order number must be exactly 7 digits');
+      throw new ValidationError('Work order number must be exactly 7 digits');
     }
 
     // Get database instance
@@ -72,15 +101,12 @@ export async function importNotes(workOrderNumber: string): Promise<string> {
     // Check if work order exists in the database
     const workOrder = await db.getWorkOrder(workOrderNumber);
     if (!workOrder) {
-      throw new Error(`Work order ${workOrderNumber} not found in the database`);
+      throw new ValidationError(`Work order ${workOrderNumber} not found in the database`);
     }
 
     // Create the notes file if it doesn't exist
     await createNotesFile(workOrderNumber);
 
-    // Get browser automation instance
-    const browser = BrowserAutomation.getInstance();
-
     // Import notes from Medimizer
     console.log(chalk.yellow(`Importing notes for work order ${workOrderNumber}...`));
     const notesFromMM = await browser.importNotes(workOrderNumber);
@@ -92,80 +118,211 @@ export async function importNotes(workOrderNumber: string): Promise<string> {
     // Print services count for debugging
     console.log(chalk.yellow(`Found ${servicesFromMM.length} services to import`));
 
+    // Keep the structured records, so later operations can find services by their Medimizer ID
+    await db.saveImportedServices(workOrder.id!, servicesFromMM);
+
     // Get formatted timestamps
     const formattedDateTime = getFormattedDateTime();
     const serviceImportTime = getFormattedServiceImportTime();
 
-    // Format notes with timestamp, notes, and services
-    let formattedContent = `
+    // Step 1: Work out what to write
+    const currentContent = await readNotesFile(workOrderNumber);
+    let content: string;
+    let summary: string;
+
+    if (replace) {
+      content = formatImportSections(notesFromMM || NO_NOTES_PLACEHOLDER, servicesFromMM.map(formatImportedService), formattedDateTime, serviceImportTime);
+      summary = `Notes${servicesFromMM.length > 0 ? ` and ${servicesFromMM.length} services` : ''} imported successfully for work order ${workOrderNumber}`;
+    } else {
+      // Only Medimizer text and services that no earlier import brought in
+      const sections = parseNotesSections(currentContent);
+      const seenServices = collectImportedServiceKeys(sections
+        .filter(section => section.kind === 'imported-services')
+        .flatMap(section => section.body));
+
+      const newNotes = collapseBlankLines(findNewImportedNotesLines(sections, notesFromMM || ''));
+      const newServices = servicesFromMM.filter(service => !isServiceImported(service, seenServices));
+
+      if (newNotes.length === 0 && newServices.length === 0) {
+        return `No new notes or services in Medimizer for work order ${workOrderNumber} since the last import`;
+      }
+
+      const additions = formatImportSections(newNotes.join('\n'), newServices.map(formatImportedService), formattedDateTime, serviceImportTime);
+      content = `${currentContent.trimEnd()}\n${additions}`;
+      summary = `Merged ${newNotes.filter(line => line.trim() !== '').length} new note line(s) and ${newServices.length} new service(s) from Medimizer into work order ${workOrderNumber}`;
+    }
+
+    // Step 2: Keep the previous file, then write
+    const backupPath = await backupNotesFile(workOrderNumber);
+    await writeNotesFile(workOrderNumber, content);
+
+    console.log(chalk.green(summary));
+    console.log(chalk.gray(`Previous notes saved to ${backupPath}`));
+
+    return summary;
+  } catch (error) {
+    if (error instanceof Error) {
+      throw wrapError(error, `Failed to import notes: ${error.message}`);
+    } else {
+      throw new Error('Failed to import notes: Unknown error');
+    }
+  } finally {
+    try {
+      await browser.close();
+    } catch (closeError) {
+      console.log(chalk.yellow(`Warning: Could not close browser properly: ${closeError instanceof Error ? closeError.message : 'Unknown error'}`));
+    }
+  }
+}
+
+/**
+ * Format the banners and text of an import
+ * 
+ * @param notes - Medimizer notes text; the notes section is left out when empty
+ * @param services - Service lines; the services section is left out when empty
+ * @param notesTime - Timestamp for the notes banner
+ * @param servicesTime - Timestamp for the services banner
+ */
+function formatImportSections(notes: string, services: string[], notesTime: string, servicesTime: string): string {
+  let formattedContent = '';
+
+  if (notes.trim() !== '') {
+    formattedContent += `
 ================================
-IMPORTED FROM MM ON ${formattedDateTime}
+IMPORTED FROM MM ON ${notesTime}
 ================================
 
-${notesFromMM || '~No notes found in Medimizer~'}
+${notes}
 
 `;
+  }
 
-    // Only add services section if we actually found services
-    if (servicesFromMM && servicesFromMM.length > 0) {
-      formattedContent += `
+  // Only add services section if we actually found services
+  if (services.length > 0) {
+    formattedContent += `
 ================================
-IMPORTED SERVICES FROM MM @ ${serviceImportTime}
+IMPORTED SERVICES FROM MM @ ${servicesTime}
 ================================
-${servicesFromMM.join('\n')}
+${services.join('\n')}
 
 `;
+  }
+
+  return formattedContent;
+}
+
+/**
+ * Collapse runs of blank lines into one
+ * 
+ * @param lines - Lines of text
+ */
+function collapseBlankLines(lines: string[]): string[] {
+  return trimBlankLines(lines.filter((line, index) => line.trim() !== '' || index === 0 || lines[index - 1].trim() !== ''));
+}
+
+/**
+ * Show how the notes in Medimizer changed since they were last imported
+ *
+ * Compares the Medimizer notes brought in by every "IMPORTED FROM MM" section of the notes
+ * file with the notes currently in Medimizer, line by line.
+ *
+ * @param workOrderNumber - 7-digit work order number
+ * @returns A promise that resolves to the formatted diff
+ */
+export async function diffNotes(workOrderNumber: string): Promise<string> {
+  const browser = BrowserAutomation.getInstance();
+
+  try {
+    // Step 1: Put together the Medimizer notes from every import, merged ones included
+    const sections = parseNotesSections(await readNotesFile(workOrderNumber));
+    const imported = findLatestSection(sections, 'imported-notes');
+    if (!imported) {
+      throw new ValidationError(`No imported Medimizer notes in ${workOrderNumber}_notes.md. Run 'import ${workOrderNumber}' first`);
     }
+    const importCount = sections.filter(section => section.kind === 'imported-notes').length;
+    const localLines = collectImportedNotesLines(sections);
 
-    // Write notes to file
-    await writeNotesFile(workOrderNumber, formattedContent);
+    // Step 2: Fetch the current notes from Medimizer
+    console.log(chalk.yellow(`Fetching notes for work order ${workOrderNumber}...`));
+    await browser.navigateToWorkOrder(workOrderNumber, WO_TABS.notes);
+    await new Promise(resolve => setTimeout(resolve, 2000));
+    const remoteLines = trimBlankLines((await browser.extractNotes()).split(/\r?\n/));
 
-    console.log(chalk.green(`Notes${servicesFromMM.length > 0 ? ` and ${servicesFromMM.length} services` : ''} imported successfully for work order ${workOrderNumber}`));
-    
-    // Close the browser after import
-    await browser.close();
+    // Step 3: Format the diff with two lines of context
+    const diff = diffLines(localLines, remoteLines);
+    const importedAt = imported.timestamp || `line ${imported.startLine}`;
+
+    if (diff.every(line => line.type === 'same')) {
+      return chalk.green(`No changes in Medimizer notes since the import at ${importedAt}`);
+    }
+
+    const origin = importCount > 1 ? `${importCount} imports, last ${importedAt}` : `imported ${importedAt}, line ${imported.bodyStartLine}`;
+    let result = chalk.red(`--- ${workOrderNumber}_notes.md (${origin})`) + '\n';
+    result += chalk.green('+++ Medimizer now') + '\n';
 
-    return `Notes${servicesFromMM.length > 0 ? ` and ${servicesFromMM.length} services` : ''} imported successfully for work order ${workOrderNumber}`;
+    const context = 2;
+    const shown = diff.map((line, index) =>
+      diff.slice(Math.max(0, index - context), index + context + 1).some(near => near.type !== 'same'));
+
+    diff.forEach((line, index) => {
+      if (!shown[index]) {
+        if (index > 0 && shown[index - 1]) {
+          result += chalk.gray('  ...') + '\n';
+        }
+        return;
+      }
+
+      if (line.type === 'removed') {
+        result += chalk.red(`- ${line.text}`) + '\n';
+      } else if (line.type === 'added') {
+        result += chalk.green(`+ ${line.text}`) + '\n';
+      } else {
+        result += chalk.gray(`  ${line.text}`) + '\n';
+      }
+    });
+
+    const added = diff.filter(line => line.type === 'added').length;
+    const removed = diff.filter(line => line.type === 'removed').length;
+    result += `\n${added} line(s) added and ${removed} line(s) removed in Medimizer since the import`;
+
+    return result;
   } catch (error) {
-    if (error instanceof Error) {
-      throw new Error(`Failed to import notes: ${error.message}`);
+    if (error instanceof ValidationError) {
+      throw error;
+    } else if (error instanceof Error) {
+      throw wrapError(error, `Failed to diff notes: ${error.message}`);
     } else {
-      throw new Error('Failed to import notes: Unknown error');
+      throw new Error('Failed to diff notes: Unknown error');
+    }
+  } finally {
+    try {
+      await browser.close();
+    } catch (closeError) {
+      console.log(chalk.yellow(`Warning: Could not close browser properly: ${closeError instanceof Error ? closeError.message : 'Unknown error'}`));
     }
   }
 }
 
 /**
  * Parse services from notes
- * Looks for patterns like [Verb, Noun] => Description
+ * Looks for lines like [Verb, Noun] (YYYY-MM-DD HH:MM) => Description
  * 
  * @param notes - Notes to parse
  * @returns An array of parsed services
+ * @throws NotesSyntaxError for the first line that starts like a service but breaks the syntax
  */
 export function parseServicesFromNotes(notes: string): Array<{verb: string, noun: string, description: string}> {
-  const services: Array<{verb: string, noun: string, description: string}> = [];
-  
-  // Regular expression to match service patterns
-  // Matches [Verb, Noun] => Description or [Verb] => Description
-  const serviceRegex = /\[(.*?)(?:,\s*(.*?))?\]\s*(?:\(\d+min\))?\s*\((.*?)\)\s*=>\s*(.*?)(?:\n|$)/g;
-  
-  let match;
-  while ((match = serviceRegex.exec(notes)) !== null) {
-    const verb = match[1]?.trim() || '';
-    const noun = match[2]?.trim() || '';
-    const datetime = match[3]?.trim() || '';
-    const description = match[4]?.trim() || '';
-    
-    if (verb) {
-      services.push({ 
-        verb, 
-        noun, 
-        description,
-      });
-    }
+  const document = parseNotes(notes);
+
+  if (document.errors.length > 0) {
+    throw document.errors[0];
   }
-  
-  return services;
+
+  return document.services.map(node => ({
+    verb: node.verb,
+    noun: node.noun || '',
+    description: node.notes
+  }));
 }
 
 /**
@@ -1,5 +1,7 @@
 import chalk from 'chalk';
 import { BrowserAutomation } from '../utils/browser-enhanced';
+import { MedimizerRoutes, WO_TABS } from '../utils/medimizer-routes';
+import { ValidationError, MedimizerError, wrapError } from '../utils/errors';
 
 /**
  * Open a work order in Medimizer and keep the browser window open
@@ -11,42 +13,43 @@ export async function openWorkOrder(workOrderNumber: string): Promise<string> {
   try {
     // Validate input
     if (!workOrderNumber || workOrderNumber.trim() === '') {
-      throw new Error('Work order number is required');
+      throw new ValidationError('Work order number is required');
     }
 
     // Validate work order number format
     if (!/^\d{7}$/.test(workOrderNumber)) {
-      throw new Error('Work order number must be exactly 7 digits');
+      throw new ValidationError('Work order number must be exactly 7 digits');
     }
 
     console.log(chalk.yellow(`Opening work order ${workOrderNumber} in Medimizer...`));
     
     // Get browser automation instance
     const browser = BrowserAutomation.getInstance();
+    const routes = MedimizerRoutes.getInstance();
     
     try {
       // Initialize browser
       await browser.initialize();
       
       // Navigate to work order page
-      const url = `http://sqlmedimizer1/MMWeb/App_Pages/WOForm.aspx?wo=${workOrderNumber}&mode=Edit&tab=0`;
+      const url = routes.workOrderUrl(workOrderNumber, WO_TABS.general);
       
       console.log(chalk.yellow(`Navigating to ${url}...`));
       if (!browser.page) {
-        throw new Error('Browser page not initialized');
+        throw new MedimizerError('Browser page not initialized');
       }
       
-      await browser.page.goto(url, { waitUntil: 'networkidle2' });
+      await browser.goto(url, { waitUntil: 'networkidle2' });
       await browser.takeScreenshot('open_work_order');
       
       // Check if login is needed
       const isLoginPage = await browser.isLoginPage();
       if (isLoginPage) {
         console.log(chalk.yellow('Login page detected. Logging in...'));
-        await browser.login('LPOLLOCK', '890piojkl!@#$98', 'URMCCEX3');
+        await browser.login();
         
         // Navigate back to work order page after login
-        await browser.page.goto(url, { waitUntil: 'networkidle2' });
+        await browser.goto(url, { waitUntil: 'networkidle2' });
         await browser.takeScreenshot('open_work_order_after_login');
       }
       
@@ -59,14 +62,14 @@ export async function openWorkOrder(workOrderNumber: string): Promise<string> {
     } catch (error) {
       // Don't close the browser even if there's an error
       if (error instanceof Error) {
-        throw new Error(`Failed to open work order: ${error.message}`);
+        throw wrapError(error, `Failed to open work order: ${error.message}`);
       } else {
         throw new Error('Failed to open work order: Unknown error');
       }
     }
   } catch (error) {
     if (error instanceof Error) {
-      throw new Error(`Failed to open work order: ${error.message}`);
+      throw wrapError(error, `Failed to open work order: ${error.message}`);
     } else {
       throw new Error('Failed to open work order: Unknown error');
     }
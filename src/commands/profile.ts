@@ -0,0 +1,142 @@
+import inquirer from 'inquirer';
+import chalk from 'chalk';
+import { ProfileManager, MEDIMIZER_DATABASES, PROFILE_ENV } from '../utils/profile-manager';
+import { BrowserAutomation } from '../utils/browser-enhanced';
+import { wrapError } from '../utils/errors';
+
+/**
+ * Interactively add a technician profile
+ *
+ * @returns A promise that resolves to a success message
+ */
+export async function addProfile(): Promise<string> {
+  try {
+    const profileManager = ProfileManager.getInstance();
+
+    const answers = await inquirer.prompt([
+      {
+        type: 'input',
+        name: 'name',
+        message: 'Profile name:',
+        validate: (input: string) => {
+          if (!/^[\w.-]+$/.test(input.trim())) return 'Use letters, numbers, dots, dashes or underscores';
+          if (profileManager.findProfile(input.trim())) return 'A profile with that name already exists';
+          return true;
+        }
+      },
+      {
+        type: 'input',
+        name: 'employeeCode',
+        message: 'Medimizer employee code (e.g. LPOLLOCK):',
+        validate: (input: string) => input.trim() ? true : 'Employee code is required'
+      },
+      {
+        type: 'input',
+        name: 'displayName',
+        message: 'Name shown on Medimizer servicer rows (e.g. LONNIE POLLOCKS):',
+        validate: (input: string) => input.trim() ? true : 'Display name is required'
+      },
+      {
+        type: 'list',
+        name: 'database',
+        message: 'Default database:',
+        choices: MEDIMIZER_DATABASES
+      },
+      {
+        type: 'input',
+        name: 'dataDir',
+        message: 'Data directory (leave empty to share the default):'
+      }
+    ]);
+
+    const profile = profileManager.addProfile(answers);
+    const isActive = profileManager.getActiveProfileName() === profile.name;
+
+    let result = `Profile ${profile.name} added for ${profile.displayName} (${profile.employeeCode})`;
+    if (isActive) {
+      result += '\nProfile is now active';
+    }
+    result += chalk.yellow("\nRun 'creds set' to store this technician's Medimizer password");
+
+    return result;
+  } catch (error) {
+    if (error instanceof Error) {
+      throw wrapError(error, `Failed to add profile: ${error.message}`);
+    } else {
+      throw new Error('Failed to add profile: Unknown error');
+    }
+  }
+}
+
+/**
+ * List technician profiles and mark the active one
+ *
+ * @returns A promise that resolves to a formatted list of profiles
+ */
+export async function listProfiles(): Promise<string> {
+  try {
+    const profileManager = ProfileManager.getInstance();
+    const profiles = profileManager.getProfiles();
+
+    if (profiles.length === 0) {
+      return "No technician profiles found. Run 'profile add' to create one.";
+    }
+
+    const activeName = profileManager.getActiveProfileName();
+
+    let result = '\n';
+    result += chalk.cyan('=============================================================\n');
+    result += chalk.cyan('                   TECHNICIAN PROFILES                       \n');
+    result += chalk.cyan('=============================================================\n\n');
+
+    profiles.forEach(profile => {
+      const isActive = activeName !== null && profile.name.toLowerCase() === activeName.toLowerCase();
+      const marker = isActive ? chalk.green('* ') : '  ';
+      result += `${marker}${chalk.white(profile.name)}  ${chalk.yellow(profile.displayName)} (${profile.employeeCode})\n`;
+      result += `    Database: ${profile.database}\n`;
+      if (profile.dataDir) {
+        result += `    Data directory: ${profile.dataDir}\n`;
+      }
+    });
+
+    result += chalk.cyan('\n=============================================================\n');
+
+    if (process.env[PROFILE_ENV]) {
+      result += chalk.yellow(`${PROFILE_ENV} is set and selects the active profile for this session\n`);
+    }
+
+    return result;
+  } catch (error) {
+    if (error instanceof Error) {
+      throw wrapError(error, `Failed to list profiles: ${error.message}`);
+    } else {
+      throw new Error('Failed to list profiles: Unknown error');
+    }
+  }
+}
+
+/**
+ * Switch the active technician profile
+ *
+ * @param name - Profile name
+ * @returns A promise that resolves to a success message
+ */
+export async function useProfile(name: string): Promise<string> {
+  try {
+    const profile = ProfileManager.getInstance().useProfile(name);
+
+    // An open browser is still logged in as the previous technician
+    const browser = BrowserAutomation.getInstance();
+    if (browser.browser) {
+      await browser.close();
+    }
+
+    return `Now working as ${profile.displayName} (${profile.employeeCode})`;
+  } catch (error) {
+    if (error instanceof Error) {
+      throw wrapError(error, `Failed to switch profile: ${error.message}`);
+    } else {
+      throw new Error('Failed to switch profile: Unknown error');
+    }
+  }
+}
@@ -2,7 +2,11 @@ import chalk from 'chalk';
 import inquirer from 'inquirer';
 import { StackManager } from '../utils/stack-manager';
 import { BrowserAutomation } from '../utils/browser-enhanced';
-import { StackableService } from '../utils/service-parser';
+import { StackableService, markServicePushed } from '../utils/service-parser';
+import { MedimizerRoutes, WO_TABS } from '../utils/medimizer-routes';
+import { ProfileManager } from '../utils/profile-manager';
+import { summarizeNotes } from '../utils/notes-grammar';
+import { ValidationError, MedimizerError, wrapError } from '../utils/errors';
 
 /**
  * Interface for existing services from Medimizer
@@ -32,6 +36,7 @@ interface ServiceGroup {
  * 
  * @param dryRun - If true, simulate without actually pushing to Medimizer
  * @returns A promise that resolves to a success message
+ * @throws MedimizerError if any service failed to push; the ones that did are kept as pushed
  */
 export async function pushStack(dryRun: boolean = false): Promise<string> {
   try {
@@ -100,7 +105,7 @@ export async function pushStack(dryRun: boolean = false): Promise<string> {
       
       if (isLoginPage) {
         console.log(chalk.yellow('Login page detected. Logging in...'));
-        await browser.login('LPOLLOCK', '890piojkl!@#$98', 'URMCCEX3');
+        await browser.login();
       } else {
         console.log(chalk.green('Already logged in.'));
       }
@@ -149,7 +154,7 @@ export async function pushStack(dryRun: boolean = false): Promise<string> {
           
           if (isDuplicate) {
             console.log(chalk.yellow(`Service appears to already exist in Medimizer. Marking as pushed and skipping.`));
-            service.pushedToMM = 1;
+            await recordServicePushed(stackManager, service);
             skippedCount++;
             continue;
           }
@@ -164,8 +169,8 @@ export async function pushStack(dryRun: boolean = false): Promise<string> {
             const wasAdded = await verifyServiceAdded(browser, workOrder.workOrderNumber, service);
             
             if (wasAdded) {
-              // Mark service as pushed
-              service.pushedToMM = 1;
+              // Mark service as pushed, in the stack and on its notes line
+              await recordServicePushed(stackManager, service);
               successCount++;
               
               console.log(chalk.green(`Service pushed and verified successfully.`));
@@ -186,8 +191,12 @@ export async function pushStack(dryRun: boolean = false): Promise<string> {
       // Close browser
       await browser.close();
       
-      // Return summary
-      return `Push completed. ${successCount} service(s) pushed successfully, ${skippedCount} skipped (already exist), ${failureCount} failed.`;
+      // Return summary; any failure fails the command so scripts see a non-zero exit code
+      const summary = `${successCount} service(s) pushed successfully, ${skippedCount} skipped (already exist), ${failureCount} failed.`;
+      if (failureCount > 0) {
+        throw new MedimizerError(`Push incomplete. ${summary} Run push again to retry the failed services`);
+      }
+      return `Push completed. ${summary}`;
     } catch (error) {
       // Make sure to close the browser even if there's an error
       try {
@@ -200,13 +209,28 @@ export async function pushStack(dryRun: boolean = false): Promise<string> {
     }
   } catch (error) {
     if (error instanceof Error) {
-      throw new Error(`Failed to push stack: ${error.message}`);
+      throw wrapError(error, `Failed to push stack: ${error.message}`);
     } else {
       throw new Error('Failed to push stack: Unknown error');
     }
   }
 }
 
+/**
+ * Record a service as pushed, saving the stack before marking its notes line
+ *
+ * Marking the notes first could leave a "(||)" line whose service the saved stack still
+ * lists as unpushed if the push stops before the stack is saved.
+ *
+ * @param stackManager - Stack holding the service
+ * @param service - Service that is now in Medimizer
+ */
+async function recordServicePushed(stackManager: StackManager, service: StackableService): Promise<void> {
+  service.pushedToMM = 1;
+  await stackManager.saveStack();
+  await markServicePushed(service);
+}
+
 /**
  * Get existing services from the services tab including their row indices
  * 
@@ -219,7 +243,7 @@ async function getExistingServicesWithIndices(
   workOrderNumber: string
 ): Promise<ExistingService[]> {
   if (!browser.page) {
-    throw new Error('Browser page not initialized');
+    throw new MedimizerError('Browser page not initialized');
   }
   
   try {
@@ -345,7 +369,7 @@ async function deleteServiceByRowIndex(
   rowIndex: number
 ): Promise<boolean> {
   if (!browser.page) {
-    throw new Error('Browser page not initialized');
+    throw new MedimizerError('Browser page not initialized');
   }
   
   try {
@@ -476,25 +500,26 @@ async function deleteServiceByRowIndex(
  */
 async function navigateToServicesTab(browser: BrowserAutomation, workOrderNumber: string): Promise<void> {
   if (!browser.page) {
-    throw new Error('Browser page not initialized');
+    throw new MedimizerError('Browser page not initialized');
   }
   
   // URL for the services tab (tab=1)
-  const servicesUrl = `http://sqlmedimizer1/MMWeb/App_Pages/WOForm.aspx?wo=${workOrderNumber}&mode=Edit&tab=1`;
+  const routes = MedimizerRoutes.getInstance();
+  const servicesUrl = routes.workOrderUrl(workOrderNumber, WO_TABS.services);
   
   console.log(chalk.yellow(`Navigating to services tab: ${servicesUrl}`));
   
   try {
-    await browser.page.goto(servicesUrl, { waitUntil: 'networkidle2' });
+    await browser.goto(servicesUrl, { waitUntil: 'networkidle2' });
     
     // Check if we were redirected to login page
     const isLoginPage = await browser.isLoginPage();
     if (isLoginPage) {
       console.log(chalk.yellow('Redirected to login page. Logging in...'));
-      await browser.login('LPOLLOCK', '890piojkl!@#$98', 'URMCCEX3');
+      await browser.login();
       
       // Navigate back to services tab after login
-      await browser.page.goto(servicesUrl, { waitUntil: 'networkidle2' });
+      await browser.goto(servicesUrl, { waitUntil: 'networkidle2' });
     }
     
     // Take screenshot for debugging
@@ -505,7 +530,7 @@ async function navigateToServicesTab(browser: BrowserAutomation, workOrderNumber
   } catch (error) {
     await browser.takeScreenshot('services_tab_navigation_error');
     if (error instanceof Error) {
-      throw new Error(`Failed to navigate to services tab: ${error.message}`);
+      throw wrapError(error, `Failed to navigate to services tab: ${error.message}`);
     } else {
       throw new Error('Failed to navigate to services tab: Unknown error');
     }
@@ -521,7 +546,7 @@ async function navigateToServicesTab(browser: BrowserAutomation, workOrderNumber
  */
 async function getExistingServices(browser: BrowserAutomation, workOrderNumber: string): Promise<ExistingService[]> {
   if (!browser.page) {
-    throw new Error('Browser page not initialized');
+    throw new MedimizerError('Browser page not initialized');
   }
   
   try {
@@ -695,7 +720,7 @@ async function verifyServiceAdded(
   service: StackableService
 ): Promise<boolean> {
   if (!browser.page) {
-    throw new Error('Browser page not initialized');
+    throw new MedimizerError('Browser page not initialized');
   }
   
   try {
@@ -812,25 +837,26 @@ async function pushServiceToMedimizer(
   service: StackableService
 ): Promise<void> {
   if (!browser.page) {
-    throw new Error('Browser page not initialized');
+    throw new MedimizerError('Browser page not initialized');
   }
   
   try {
     // Navigate to service add page
-    const serviceAddUrl = `http://sqlmedimizer1/MMWeb/App_Pages/ServiceForm.aspx?WO=${workOrderNumber}&Service=add`;
+    const routes = MedimizerRoutes.getInstance();
+    const serviceAddUrl = routes.serviceAddUrl(workOrderNumber);
     console.log(chalk.yellow(`Navigating to ${serviceAddUrl}...`));
     
-    await browser.page.goto(serviceAddUrl, { waitUntil: 'networkidle2' });
+    await browser.goto(serviceAddUrl, { waitUntil: 'networkidle2' });
     await browser.takeScreenshot('service_add_page');
     
     // Check if we were redirected to login page
     const isLoginPage = await browser.isLoginPage();
     if (isLoginPage) {
       console.log(chalk.yellow('Redirected to login page. Logging in...'));
-      await browser.login('LPOLLOCK', '890piojkl!@#$98', 'URMCCEX3');
+      await browser.login();
       
       // Navigate back to service add page after login
-      await browser.page.goto(serviceAddUrl, { waitUntil: 'networkidle2' });
+      await browser.goto(serviceAddUrl, { waitUntil: 'networkidle2' });
       await browser.takeScreenshot('service_add_page_after_login');
     }
     
@@ -926,10 +952,11 @@ async function pushServiceToMedimizer(
       await browser.takeScreenshot('time_field_not_found');
     }
     
-    // Enter Employee (LPOLLOCK) - last field before submission
+    // Enter Employee - last field before submission
     const employeeSelector = '#ContentPlaceHolder1_pagService_cboEmployees_I';
     try {
-      await enterTextWithRetry(browser, employeeSelector, 'LPOLLOCK');
+      const { employeeCode } = ProfileManager.getInstance().getActiveProfile();
+      await enterTextWithRetry(browser, employeeSelector, employeeCode);
       // Press Enter after entering employee
       await browser.page.keyboard.press('Enter');
       console.log(chalk.green('Successfully entered employee information'));
@@ -959,7 +986,7 @@ async function pushServiceToMedimizer(
     await browser.takeScreenshot('service_push_error');
     
     if (error instanceof Error) {
-      throw new Error(`Failed to push service: ${error.message}`);
+      throw wrapError(error, `Failed to push service: ${error.message}`);
     } else {
       throw new Error('Failed to push service: Unknown error');
     }
@@ -979,7 +1006,7 @@ async function enterTextWithRetry(
   text: string
 ): Promise<void> {
   if (!browser.page) {
-    throw new Error('Browser page not initialized');
+    throw new MedimizerError('Browser page not initialized');
   }
   
   const maxRetries = 3;
@@ -1131,7 +1158,7 @@ async function simulatePush(stack: any[]): Promise<string> {
         
         console.log(chalk.white(`  ${index + 1}. Verb: ${service.verb_code}${service.noun_code ? `, Noun: ${service.noun_code}` : ''}`));
         console.log(chalk.white(`     Date: ${datePart}, Time: ${timePart}`));
-        console.log(chalk.white(`     Notes: ${service.notes.substring(0, 50)}${service.notes.length > 50 ? '...' : ''}`));
+        console.log(chalk.white(`     Notes: ${summarizeNotes(service.notes, 50)}`));
       });
       
       totalServices += unpushedServices.length;
@@ -1153,7 +1180,7 @@ function parseDatetime(datetime: string): [string, string] {
     const parts = datetime.split(' ');
     
     if (parts.length < 2) {
-      throw new Error(`Invalid datetime format: ${datetime}`);
+      throw new ValidationError(`Invalid datetime format: ${datetime}`);
     }
     
     const datePart = parts[0]; // YYYY-MM-DD
@@ -1175,7 +1202,7 @@ function parseDatetime(datetime: string): [string, string] {
     } else if (timePart.includes('-')) {
       [hours, minutes] = timePart.split('-').map(part => parseInt(part, 10));
     } else {
-      throw new Error(`Invalid time format: ${timePart}`);
+      throw new ValidationError(`Invalid time format: ${timePart}`);
     }
     
     // Format time as HH:MM AM/PM
@@ -1204,7 +1231,7 @@ async function removeDuplicateServices(
   workOrderNumber: string
 ): Promise<number> {
   if (!browser.page) {
-    throw new Error('Browser page not initialized');
+    throw new MedimizerError('Browser page not initialized');
   }
   
   try {
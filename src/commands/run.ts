@@ -0,0 +1,120 @@
+import fs from 'fs';
+import path from 'path';
+import { promisify } from 'util';
+import chalk from 'chalk';
+import { CommandSession } from '../utils/command-registry';
+import { ValidationError, ScriptError, getExitCode, wrapError } from '../utils/errors';
+import {
+  ScriptLineResult,
+  parseScript,
+  parseAssignment,
+  expandVariables,
+  getBuiltInVariables
+} from '../utils/script-runner';
+
+// Convert fs.readFile to use promises
+const readFile = promisify(fs.readFile);
+
+// Scripts currently running, to stop a script from running itself
+const activeScripts: Set<string> = new Set();
+
+/**
+ * Run a file of REPL commands line by line
+ *
+ * Lines starting with # are comments. $TODAY, $NOW and any NAME=value assignment passed
+ * in or made in the script with "set NAME=value" are expanded before each line runs.
+ *
+ * @param file - Path of the script file
+ * @param assignments - Variable assignments such as "WO=1234567"
+ * @param continueOnError - Keep going after a failing line instead of stopping
+ * @param session - Session whose dispatcher runs each line
+ * @returns A promise that resolves to a summary of the run
+ */
+export async function runScript(file: string, assignments: string[], continueOnError: boolean, session: CommandSession): Promise<string> {
+  const scriptPath = path.resolve(file);
+
+  try {
+    if (!fs.existsSync(scriptPath)) {
+      throw new ValidationError(`Script not found: ${scriptPath}`);
+    }
+
+    if (activeScripts.has(scriptPath)) {
+      throw new ValidationError(`Script is already running: ${scriptPath}`);
+    }
+
+    // Step 1: Read the script and collect variables
+    const lines = parseScript(await readFile(scriptPath, 'utf8'));
+    const variables = getBuiltInVariables();
+    assignments.forEach(assignment => {
+      const { name, value } = parseAssignment(assignment);
+      variables[name] = value;
+    });
+
+    // Step 2: Run each line through the normal dispatcher
+    const results: ScriptLineResult[] = [];
+    const scriptName = path.basename(scriptPath);
+    activeScripts.add(scriptPath);
+
+    try {
+      for (const line of lines) {
+        let command = line.text;
+        let error: unknown = null;
+
+        try {
+          command = expandVariables(line.text, variables);
+
+          const setMatch = command.match(/^set\s+(.*)$/i);
+          if (setMatch) {
+            const { name, value } = parseAssignment(setMatch[1].trim());
+            variables[name] = value;
+            continue;
+          }
+
+          console.log(chalk.gray(`[${scriptName}:${line.lineNumber}] ${command}`));
+          error = await session.execute(command);
+        } catch (lineError) {
+          console.log(chalk.red(lineError instanceof Error ? lineError.message : String(lineError)));
+          error = lineError;
+        }
+
+        results.push({ line, command, error });
+
+        if (error && !continueOnError) {
+          break;
+        }
+      }
+    } finally {
+      activeScripts.delete(scriptPath);
+    }
+
+    // Step 3: Summarize
+    const failures = results.filter(result => result.error);
+    const commandCount = lines.filter(line => !/^set\s/i.test(line.text)).length;
+    const skipped = commandCount - results.length;
+
+    let summary = chalk.cyan(`Script ${scriptName}: ${results.length - failures.length} of ${results.length} command(s) succeeded`);
+    if (skipped > 0) {
+      summary += chalk.yellow(`\nStopped after line ${results[results.length - 1].line.lineNumber}; ${skipped} command(s) not run (use --continue to keep going)`);
+    }
+
+    if (failures.length === 0) {
+      return summary;
+    }
+
+    summary += chalk.red('\nFailed lines:');
+    failures.forEach(result => {
+      const message = result.error instanceof Error ? result.error.message : String(result.error);
+      summary += chalk.red(`\n  line ${result.line.lineNumber}: ${result.command}`) + chalk.gray(` - ${message}`);
+    });
+
+    throw new ScriptError(summary, getExitCode(failures[0].error));
+  } catch (error) {
+    if (error instanceof ScriptError || error instanceof ValidationError) {
+      throw error;
+    } else if (error instanceof Error) {
+      throw wrapError(error, `Failed to run script: ${error.message}`);
+    } else {
+      throw new Error('Failed to run script: Unknown error');
+    }
+  }
+}
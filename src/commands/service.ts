@@ -1,5 +1,7 @@
 import { WorkDatabase } from '../database';
 import chalk from 'chalk';
+import { CodeLookup, formatSuggestions } from '../utils/code-lookup';
+import { ValidationError, wrapError } from '../utils/errors';
 
 /**
  * Add a service to a work order
@@ -19,24 +21,39 @@ export async function addService(
   try {
     // Validate input
     if (!workOrderNumber || workOrderNumber.trim() === '') {
-      throw new Error('Work order number is required');
+      throw new ValidationError('Work order number is required');
     }
 
     if (!verbName || verbName.trim() === '') {
-      throw new Error('Verb name is required');
+      throw new ValidationError('Verb name is required');
     }
 
     if (!nounName || nounName.trim() === '') {
-      throw new Error('Noun name is required');
+      throw new ValidationError('Noun name is required');
     }
 
+    // Check the verb and noun against the code tables
+    const codeLookup = CodeLookup.getInstance();
+    await codeLookup.initialize(true);
+
+    const verb = codeLookup.resolveVerb(verbName);
+    if (!verb) {
+      throw new ValidationError(`Unknown verb "${verbName}"${formatSuggestions(codeLookup.suggestVerbs(verbName))}`);
+    }
+
+    const noun = codeLookup.resolveNoun(nounName);
+    if (verb.hasNoun && !noun) {
+      throw new ValidationError(`Unknown noun "${nounName}"${formatSuggestions(codeLookup.suggestNouns(nounName))}`);
+    }
+    const nounKeyword = noun ? noun.keyword : nounName;
+
     // Get database instance
     const db = WorkDatabase.getInstance();
 
     // Get work order
     const workOrder = await db.getWorkOrder(workOrderNumber);
     if (!workOrder) {
-      throw new Error(`Work order ${workOrderNumber} not found`);
+      throw new ValidationError(`Work order ${workOrderNumber} not found`);
     }
 
     if (!workOrder.open) {
@@ -46,17 +63,19 @@ export async function addService(
     // Add service to work order
     const service = await db.addService(
       workOrder.id!, 
-      verbName, 
-      nounName, 
+      verb.keyword, 
+      nounKeyword, 
       duration
     );
 
     // Return success message
-    return chalk.green(`Added service "${verbName} ${nounName}" to work order ${workOrderNumber}`);
+    return chalk.green(`Added service "${verb.keyword} ${nounKeyword}" to work order ${workOrderNumber}`);
   } catch (error) {
     // Handle errors
-    if (error instanceof Error) {
-      throw new Error(`Failed to add service: ${error.message}`);
+    if (error instanceof ValidationError) {
+      throw error;
+    } else if (error instanceof Error) {
+      throw wrapError(error, `Failed to add service: ${error.message}`);
     } else {
       throw new Error('Failed to add service: Unknown error');
     }
@@ -83,15 +102,15 @@ export async function addPartToService(
   try {
     // Validate input
     if (!workOrderNumber || workOrderNumber.trim() === '') {
-      throw new Error('Work order number is required');
+      throw new ValidationError('Work order number is required');
     }
 
     if (!partNumber || partNumber.trim() === '') {
-      throw new Error('Part number is required');
+      throw new ValidationError('Part number is required');
     }
 
     if (serviceIndex < 1) {
-      throw new Error('Service index must be a positive number');
+      throw new ValidationError('Service index must be a positive number');
     }
 
     // Get database instance
@@ -101,7 +120,7 @@ export async function addPartToService(
     const workOrder = await db.getWorkOrder(workOrderNumber);
     
     if (!workOrder) {
-      throw new Error(`Work order ${workOrderNumber} not found`);
+      throw new ValidationError(`Work order ${workOrderNumber} not found`);
     }
 
     if (!workOrder.open) {
@@ -111,7 +130,7 @@ export async function addPartToService(
     // Get all services for this work order to find the right serviceId
     // First get the workOrder record to get its ID
     if (!workOrder.id) {
-      throw new Error(`Invalid work order ID for ${workOrderNumber}`);
+      throw new ValidationError(`Invalid work order ID for ${workOrderNumber}`);
     }
     
     // Then get all services for this work order using the ID
@@ -143,7 +162,7 @@ export async function addPartToService(
   } catch (error) {
     // Handle errors
     if (error instanceof Error) {
-      throw new Error(`Failed to add part: ${error.message}`);
+      throw wrapError(error, `Failed to add part: ${error.message}`);
     } else {
       throw new Error('Failed to add part: Unknown error');
     }
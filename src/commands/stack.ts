@@ -1,5 +1,6 @@
 import chalk from 'chalk';
 import { StackManager } from '../utils/stack-manager';
+import { ValidationError, wrapError } from '../utils/errors';
 
 /**
  * Add a work order to the stack for processing
@@ -11,12 +12,12 @@ export async function stackWorkOrder(workOrderNumber: string): Promise<string> {
   try {
     // Input validation
     if (!workOrderNumber || workOrderNumber.trim() === '') {
-      throw new Error('Work order number is required');
+      throw new ValidationError('Work order number is required');
     }
 
     // Validate work order number format
     if (!/^\d{7}$/.test(workOrderNumber)) {
-      throw new Error('Work order number must be exactly 7 digits');
+      throw new ValidationError('Work order number must be exactly 7 digits');
     }
 
     // Get stack manager instance
@@ -28,7 +29,7 @@ export async function stackWorkOrder(workOrderNumber: string): Promise<string> {
     return result;
   } catch (error) {
     if (error instanceof Error) {
-      throw new Error(`Failed to stack work order: ${error.message}`);
+      throw wrapError(error, `Failed to stack work order: ${error.message}`);
     } else {
       throw new Error('Failed to stack work order: Unknown error');
     }
@@ -51,7 +52,7 @@ export async function displayStack(): Promise<string> {
     return formattedStack;
   } catch (error) {
     if (error instanceof Error) {
-      throw new Error(`Failed to display stack: ${error.message}`);
+      throw wrapError(error, `Failed to display stack: ${error.message}`);
     } else {
       throw new Error('Failed to display stack: Unknown error');
     }
@@ -74,7 +75,7 @@ export async function clearStack(): Promise<string> {
     return result;
   } catch (error) {
     if (error instanceof Error) {
-      throw new Error(`Failed to clear stack: ${error.message}`);
+      throw wrapError(error, `Failed to clear stack: ${error.message}`);
     } else {
       throw new Error('Failed to clear stack: Unknown error');
     }
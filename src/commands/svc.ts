@@ -0,0 +1,130 @@
+import chalk from 'chalk';
+import { readNotesFile, writeNotesFile } from '../utils/filesystem';
+import { lintNotes } from '../utils/notes-linter';
+import {
+  formatServiceLine,
+  formatNotesDatetime,
+  parseNotesDatetime,
+  parseDurationText
+} from '../utils/notes-grammar';
+import { ValidationError, wrapError } from '../utils/errors';
+
+/**
+ * Append a service line stamped with the current time to a work order's notes
+ *
+ * @param workOrderNumber - 7-digit work order number
+ * @param entry - "Verb[, Noun] => notes"
+ * @param at - Optional time ("HH:MM" today, or "YYYY-MM-DD HH:MM") instead of now
+ * @param duration - Optional explicit duration, e.g. "20m" or "1h15m"
+ * @returns A promise that resolves to the line that was added
+ */
+export async function captureService(
+  workOrderNumber: string,
+  entry: string,
+  at?: string,
+  duration?: string
+): Promise<string> {
+  try {
+    // Step 1: Split the entry into label and notes
+    const arrowIndex = entry.indexOf('=>');
+    if (arrowIndex < 0) {
+      throw new ValidationError('Expected "Verb[, Noun] => notes"');
+    }
+
+    const label = entry.slice(0, arrowIndex).trim();
+    const notes = entry.slice(arrowIndex + 2).trim();
+    if (!label) {
+      throw new ValidationError('Expected a verb before =>');
+    }
+
+    // Step 2: Work out the timestamp and duration
+    const now = new Date();
+    const datetime = at ? parseAt(at, now) : formatNotesDatetime(now);
+
+    if (duration !== undefined && parseDurationText(duration) === null) {
+      throw new ValidationError(`Invalid duration "${duration}". Use e.g. 20m, 1h15m, 1.5h or 09:00-09:45`);
+    }
+
+    // Step 3: Check the line and append it to the notes file
+    const serviceLine = await buildServiceLine(label, notes, datetime, duration, now);
+    await appendServiceLine(workOrderNumber, serviceLine);
+
+    return chalk.green(`Added to ${workOrderNumber}_notes.md: `) + serviceLine;
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      throw error;
+    } else if (error instanceof Error) {
+      throw wrapError(error, `Failed to add service line: ${error.message}`);
+    } else {
+      throw new Error('Failed to add service line: Unknown error');
+    }
+  }
+}
+
+/**
+ * Build a service line and check it the same way lint does, keeping lint's safe fixes
+ *
+ * @param label - "Verb" or "Verb, Noun"
+ * @param notes - Text after "=>"
+ * @param datetime - "YYYY-MM-DD HH:MM"
+ * @param duration - Optional explicit duration, e.g. "20min"
+ * @param now - Current time, for the future-timestamp check
+ * @returns The canonical service line
+ * @throws ValidationError for the first problem lint cannot fix
+ */
+export async function buildServiceLine(
+  label: string,
+  notes: string,
+  datetime: string,
+  duration: string | undefined,
+  now: Date
+): Promise<string> {
+  const commaIndex = label.indexOf(',');
+  const line = formatServiceLine({
+    verb: commaIndex >= 0 ? label.slice(0, commaIndex).trim() : label.trim(),
+    noun: commaIndex >= 0 ? label.slice(commaIndex + 1).trim() : undefined,
+    duration: duration ? duration.trim() : undefined,
+    datetime,
+    notes
+  });
+
+  const result = await lintNotes(line, now);
+  const problem = result.diagnostics.find(diagnostic => diagnostic.severity === 'error' && !diagnostic.fixable);
+  if (problem) {
+    throw new ValidationError(problem.message);
+  }
+
+  return result.fixedContent;
+}
+
+/**
+ * Append a line to the end of a work order's notes file
+ *
+ * @param workOrderNumber - 7-digit work order number
+ * @param line - Line to add
+ */
+export async function appendServiceLine(workOrderNumber: string, line: string): Promise<void> {
+  const content = await readNotesFile(workOrderNumber);
+  const separator = content === '' || content.endsWith('\n') ? '' : '\n';
+  await writeNotesFile(workOrderNumber, `${content}${separator}${line}\n`);
+}
+
+/**
+ * Turn an --at value into a service-line datetime
+ *
+ * @param at - "HH:MM" for today, or a full "YYYY-MM-DD HH:MM"
+ * @param now - Current time, for the date of "HH:MM"
+ * @returns "YYYY-MM-DD HH:MM"
+ * @throws ValidationError if the value is not a valid time
+ */
+function parseAt(at: string, now: Date): string {
+  const value = at.trim();
+  const date = /^\d{1,2}:\d{2}$/.test(value)
+    ? parseNotesDatetime(`${formatNotesDatetime(now).split(' ')[0]} ${value}`)
+    : parseNotesDatetime(value);
+
+  if (!date) {
+    throw new ValidationError(`Invalid time "${at}". Use HH:MM or "YYYY-MM-DD HH:MM"`);
+  }
+  return formatNotesDatetime(date);
+}
@@ -0,0 +1,189 @@
+import chalk from 'chalk';
+import { TimerManager, ServiceTimer, getElapsedMs } from '../utils/timer-manager';
+import { getNotesFilePath } from '../utils/filesystem';
+import { formatNotesDatetime, formatDurationText, parseServiceLine } from '../utils/notes-grammar';
+import { ValidationError, wrapError } from '../utils/errors';
+import { buildServiceLine, appendServiceLine } from './svc';
+
+/**
+ * Show the running timer
+ *
+ * @returns A promise that resolves to the timer status
+ */
+export async function timerStatus(): Promise<string> {
+  try {
+    const timer = TimerManager.getInstance().getTimer();
+    if (!timer) {
+      return chalk.yellow("No timer running. Start one with 'timer start <wo-number> <Verb[, Noun]>'.");
+    }
+
+    return describeTimer(timer);
+  } catch (error) {
+    if (error instanceof Error) {
+      throw wrapError(error, `Failed to get timer status: ${error.message}`);
+    } else {
+      throw new Error('Failed to get timer status: Unknown error');
+    }
+  }
+}
+
+/**
+ * Start timing a service on a work order
+ *
+ * @param workOrderNumber - 7-digit work order number
+ * @param label - "Verb" or "Verb, Noun"
+ * @returns A promise that resolves to a success message
+ */
+export async function startTimer(workOrderNumber: string, label: string): Promise<string> {
+  try {
+    const canonicalLabel = await checkTimerTarget(workOrderNumber, label);
+    const timer = TimerManager.getInstance().start(workOrderNumber, canonicalLabel);
+
+    return chalk.green(`Timer started for ${timer.workOrderNumber} [${timer.label}]`);
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      throw error;
+    } else if (error instanceof Error) {
+      throw wrapError(error, `Failed to start timer: ${error.message}`);
+    } else {
+      throw new Error('Failed to start timer: Unknown error');
+    }
+  }
+}
+
+/**
+ * Stop the running timer, writing its service line, and start timing another service
+ *
+ * @param workOrderNumber - 7-digit work order number
+ * @param label - "Verb" or "Verb, Noun"
+ * @returns A promise that resolves to a success message
+ */
+export async function switchTimer(workOrderNumber: string, label: string): Promise<string> {
+  try {
+    // Check the new service first so a typo does not stop the current timer
+    const canonicalLabel = await checkTimerTarget(workOrderNumber, label);
+    const stopped = TimerManager.getInstance().getTimer() ? `${await stopTimer()}\n` : '';
+    const timer = TimerManager.getInstance().start(workOrderNumber, canonicalLabel);
+
+    return stopped + chalk.green(`Timer started for ${timer.workOrderNumber} [${timer.label}]`);
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      throw error;
+    } else if (error instanceof Error) {
+      throw wrapError(error, `Failed to switch timer: ${error.message}`);
+    } else {
+      throw new Error('Failed to switch timer: Unknown error');
+    }
+  }
+}
+
+/**
+ * Pause the running timer
+ *
+ * @returns A promise that resolves to a success message
+ */
+export async function pauseTimer(): Promise<string> {
+  try {
+    const timer = TimerManager.getInstance().pause();
+    return chalk.yellow(`Timer paused at ${formatDurationText(getElapsedMinutes(timer))} for ${timer.workOrderNumber} [${timer.label}]`);
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      throw error;
+    } else if (error instanceof Error) {
+      throw wrapError(error, `Failed to pause timer: ${error.message}`);
+    } else {
+      throw new Error('Failed to pause timer: Unknown error');
+    }
+  }
+}
+
+/**
+ * Resume a paused timer
+ *
+ * @returns A promise that resolves to a success message
+ */
+export async function resumeTimer(): Promise<string> {
+  try {
+    const timer = TimerManager.getInstance().resume();
+    return chalk.green(`Timer resumed for ${timer.workOrderNumber} [${timer.label}]`);
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      throw error;
+    } else if (error instanceof Error) {
+      throw wrapError(error, `Failed to resume timer: ${error.message}`);
+    } else {
+      throw new Error('Failed to resume timer: Unknown error');
+    }
+  }
+}
+
+/**
+ * Stop the timer and append a service line with the measured duration to the notes
+ *
+ * @param note - Optional text written after "=>"
+ * @returns A promise that resolves to the line that was added
+ */
+export async function stopTimer(note?: string): Promise<string> {
+  try {
+    const manager = TimerManager.getInstance();
+    const timer = manager.getTimer();
+    if (!timer) {
+      throw new ValidationError('No timer is running');
+    }
+
+    // Step 1: Write the service line before forgetting the timer
+    const now = new Date();
+    const minutes = Math.max(1, getElapsedMinutes(timer, now));
+    const serviceLine = await buildServiceLine(timer.label, note || '', formatNotesDatetime(now), formatDurationText(minutes), now);
+    await appendServiceLine(timer.workOrderNumber, serviceLine);
+
+    // Step 2: Clear the timer
+    manager.stop(now);
+
+    return chalk.green(`Added to ${timer.workOrderNumber}_notes.md: `) + serviceLine;
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      throw error;
+    } else if (error instanceof Error) {
+      throw wrapError(error, `Failed to stop timer: ${error.message}`);
+    } else {
+      throw new Error('Failed to stop timer: Unknown error');
+    }
+  }
+}
+
+/**
+ * Describe a timer on one line
+ *
+ * @param timer - Timer to describe
+ */
+export function describeTimer(timer: ServiceTimer): string {
+  const state = timer.runningSince ? chalk.green('running') : chalk.yellow('paused');
+  const started = new Date(timer.startedAt).toLocaleTimeString();
+  return `Timer: ${chalk.cyan(timer.workOrderNumber)} [${timer.label}] ${chalk.yellow(formatDurationText(getElapsedMinutes(timer)))} (${state}, started ${started})`;
+}
+
+/**
+ * Get the whole minutes a timer has counted
+ *
+ * @param timer - Timer to measure
+ * @param now - Current time
+ */
+function getElapsedMinutes(timer: ServiceTimer, now: Date = new Date()): number {
+  return Math.round(getElapsedMs(timer, now) / 60000);
+}
+
+/**
+ * Check that a work order has a notes file and the verb and noun are valid
+ *
+ * @param workOrderNumber - 7-digit work order number
+ * @param label - "Verb" or "Verb, Noun"
+ * @returns The label with lint's capitalization fixes
+ */
+async function checkTimerTarget(workOrderNumber: string, label: string): Promise<string> {
+  await getNotesFilePath(workOrderNumber);
+
+  const now = new Date();
+  const line = await buildServiceLine(label, '', formatNotesDatetime(now), undefined, now);
+  return parseServiceLine(line, 1)!.label;
+}
@@ -0,0 +1,115 @@
+import fs from 'fs';
+import path from 'path';
+import inquirer from 'inquirer';
+import chalk from 'chalk';
+import { Workspace, WORKSPACE_ENV } from '../utils/workspace';
+import { ConfigManager } from '../utils/config-manager';
+import { getTablesDir } from '../utils/code-lookup';
+import { getTemplatesDir } from '../utils/notes-template';
+import { ValidationError, wrapError } from '../utils/errors';
+
+/**
+ * Show the workspace location and the directories resolved inside it
+ *
+ * @returns A promise that resolves to a formatted description of the workspace
+ */
+export async function showWorkspace(): Promise<string> {
+  try {
+    const workspace = Workspace.getInstance();
+    const config = ConfigManager.getInstance();
+
+    let source: string = workspace.getSource();
+    if (source === 'flag') {
+      source = '--workspace';
+    } else if (source === 'env') {
+      source = `env ${WORKSPACE_ENV}`;
+    }
+
+    const rows: Array<[string, string]> = [
+      ['Data', workspace.getDataDir()],
+      ['Work orders', config.resolvePath('paths.workOrders')],
+      ['Journal', config.resolvePath('paths.journal')],
+      ['Logs', config.resolvePath('paths.logs')],
+      ['Tables', getTablesDir()],
+      ['Templates', getTemplatesDir()]
+    ];
+
+    let result = '\n';
+    result += chalk.cyan('=============================================================\n');
+    result += chalk.cyan('                        WORKSPACE                            \n');
+    result += chalk.cyan('=============================================================\n\n');
+    result += `${chalk.white('Root'.padEnd(12))}  ${chalk.yellow(workspace.getRoot())} ${chalk.gray(`(${source})`)}\n`;
+
+    rows.forEach(([label, dir]) => {
+      result += `${chalk.white(label.padEnd(12))}  ${dir}\n`;
+    });
+
+    result += chalk.cyan('\n=============================================================\n');
+
+    const legacy = workspace.findLegacyLayout();
+    if (legacy.length > 0) {
+      result += chalk.yellow(`Found ${legacy.join(', ')} in ${process.cwd()}. Run 'workspace migrate' to move them into the workspace.\n`);
+    }
+
+    return result;
+  } catch (error) {
+    if (error instanceof Error) {
+      throw wrapError(error, `Failed to show workspace: ${error.message}`);
+    } else {
+      throw new Error('Failed to show workspace: Unknown error');
+    }
+  }
+}
+
+/**
+ * Move an old cwd-based layout (data/, work_orders/, journal/, logs/) into the workspace
+ *
+ * @param fromDir - Directory holding the old layout (defaults to the current directory)
+ * @returns A promise that resolves to a summary of what was moved
+ */
+export async function migrateWorkspace(fromDir?: string): Promise<string> {
+  try {
+    const workspace = Workspace.getInstance();
+    const sourceDir = path.resolve(fromDir || process.cwd());
+
+    if (!fs.existsSync(sourceDir)) {
+      throw new ValidationError(`Directory not found: ${sourceDir}`);
+    }
+
+    const legacy = workspace.findLegacyLayout(sourceDir);
+    if (legacy.length === 0) {
+      return `Nothing to migrate in ${sourceDir}`;
+    }
+
+    const { confirm } = await inquirer.prompt([
+      {
+        type: 'confirm',
+        name: 'confirm',
+        message: chalk.yellow(`Move ${legacy.join(', ')} from ${sourceDir} into ${workspace.getRoot()}?`),
+        default: true
+      }
+    ]);
+
+    if (!confirm) {
+      return 'Operation canceled by user.';
+    }
+
+    const result = workspace.migrateFrom(sourceDir);
+
+    let message = `Moved ${result.moved.length} item(s) into ${workspace.getRoot()}`;
+    if (result.skipped.length > 0) {
+      message += chalk.yellow(`\nLeft ${result.skipped.length} file(s) in place because the workspace already has them:`);
+      result.skipped.forEach(file => {
+        message += chalk.yellow(`\n  ${file}`);
+      });
+    }
+
+    return message;
+  } catch (error) {
+    if (error instanceof Error) {
+      throw wrapError(error, `Failed to migrate workspace: ${error.message}`);
+    } else {
+      throw new Error('Failed to migrate workspace: Unknown error');
+    }
+  }
+}
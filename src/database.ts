@@ -1,12 +1,16 @@
 import Database from 'better-sqlite3';
 import knex, { Knex } from 'knex';
 import path from 'path';
-import fs from 'fs';
 import inquirer from 'inquirer';
 import chalk from 'chalk';
+import { Workspace } from './utils/workspace';
+import { ServicePart } from './utils/service-parser';
+import { MedimizerService } from './utils/imported-services';
+import { ValidationError } from './utils/errors';
 import { 
   WorkOrder, 
   Service, 
+  ImportedService,
   PartCharged, 
   Part, 
   Verb, 
@@ -26,10 +30,7 @@ export class WorkDatabase {
    */
   private constructor() {
     // Ensure the data directory exists
-    const dataDir = path.join(process.cwd(), 'data');
-    if (!fs.existsSync(dataDir)) {
-      fs.mkdirSync(dataDir, { recursive: true });
-    }
+    const dataDir = Workspace.getInstance().getDataDir();
 
     // Set up the database file path
     const dbPath = path.join(dataDir, 'work-cli.sqlite');
@@ -172,11 +173,12 @@ export class WorkDatabase {
             .onDelete('CASCADE');
           table.datetime('dateAdded').notNullable();
           table.integer('duration').notNullable().defaultTo(0);
-          table.integer('nounId').notNullable()
+          table.integer('nounId')
             .references('id').inTable('Nouns');
           table.integer('verbId').notNullable()
             .references('id').inTable('Verbs');
           table.text('notes');
+          table.boolean('fromNotes').notNullable().defaultTo(false);
           table.timestamp('createdAt').defaultTo(this.db.raw('CURRENT_TIMESTAMP'));
           table.timestamp('updatedAt').defaultTo(this.db.raw('CURRENT_TIMESTAMP'));
         });
@@ -199,6 +201,10 @@ export class WorkDatabase {
         });
         console.log('Created PartsCharged table');
       }
+
+      await this.ensureImportedServicesTable();
+      await this.ensureOptionalServiceNoun();
+      await this.ensureServiceNotesColumn();
       
       this.initialized = true;
     } catch (error) {
@@ -207,6 +213,71 @@ export class WorkDatabase {
     }
   }
 
+  /**
+   * Create the ImportedServices table if it doesn't exist
+   * 
+   * Called before every use as well, since databases created before the table existed
+   * already pass the initialization check.
+   */
+  private async ensureImportedServicesTable(): Promise<void> {
+    if (await this.db.schema.hasTable('ImportedServices')) {
+      return;
+    }
+
+    await this.db.schema.createTable('ImportedServices', (table) => {
+      table.increments('id').primary();
+      table.integer('workOrderId').notNullable()
+        .references('id').inTable('WOs')
+        .onDelete('CASCADE');
+      table.string('mmServiceId').unique();
+      table.string('servicer').notNullable().defaultTo('');
+      table.datetime('dateAdded').notNullable();
+      table.integer('duration').notNullable().defaultTo(0);
+      table.string('verb').notNullable();
+      table.string('noun');
+      table.integer('verbCode');
+      table.integer('nounCode');
+      table.text('parts').notNullable().defaultTo('[]');
+      table.datetime('importedAt').notNullable();
+      table.timestamp('createdAt').defaultTo(this.db.raw('CURRENT_TIMESTAMP'));
+      table.timestamp('updatedAt').defaultTo(this.db.raw('CURRENT_TIMESTAMP'));
+    });
+    console.log('Created ImportedServices table');
+  }
+
+  /**
+   * Allow services without a noun in databases created when Services.nounId was required
+   * 
+   * Called before services are written from notes, where verbs such as "Safety and P.M."
+   * have no noun.
+   */
+  private async ensureOptionalServiceNoun(): Promise<void> {
+    const columns: Array<{ name: string; notnull: number }> = await this.db.raw(`PRAGMA table_info('Services')`);
+    const nounId = columns.find(column => column.name === 'nounId');
+    if (!nounId || !nounId.notnull) {
+      return;
+    }
+
+    await this.db.schema.alterTable('Services', (table) => {
+      table.integer('nounId').nullable().alter();
+    });
+    console.log('Made the noun optional in the Services table');
+  }
+
+  /**
+   * Add Services.fromNotes to databases created before stacking wrote services from notes
+   */
+  private async ensureServiceNotesColumn(): Promise<void> {
+    if (await this.db.schema.hasColumn('Services', 'fromNotes')) {
+      return;
+    }
+
+    await this.db.schema.alterTable('Services', (table) => {
+      table.boolean('fromNotes').notNullable().defaultTo(false);
+    });
+    console.log('Added fromNotes to the Services table');
+  }
+
   /**
    * Add a new work order to the database
    * 
@@ -224,12 +295,12 @@ export class WorkDatabase {
       
       // Validate work order number (7 digits)
       if (!/^\d{7}$/.test(workOrderNumber)) {
-        throw new Error('Work order number must be exactly 7 digits');
+        throw new ValidationError('Work order number must be exactly 7 digits');
       }
 
       // Validate control number if provided (8 digits)
       if (controlNumber && !/^\d{8}$/.test(controlNumber)) {
-        throw new Error('Control number must be exactly 8 digits');
+        throw new ValidationError('Control number must be exactly 8 digits');
       }
 
       // Check if work order already exists
@@ -285,6 +356,21 @@ export class WorkDatabase {
       .orderBy('createdAt', 'desc');
   }
 
+  /**
+   * Get the numbers of all work orders, newest first
+   *
+   * @returns The work order numbers, or an empty list before the database is initialized
+   */
+  public async getWorkOrderNumbers(): Promise<string[]> {
+    if (!(await this.checkInitialized())) {
+      return [];
+    }
+
+    return await this.db('WOs')
+      .orderBy('createdAt', 'desc')
+      .pluck('workOrderNumber');
+  }
+
   /**
    * Add a new noun to the database
    * 
@@ -362,14 +448,14 @@ export class WorkDatabase {
   }
 
   /**
-   * Add a new part to the database
+   * Add a new part to the database, or update the catalog entry if it exists
    * 
    * @param partNumber - Part number
-   * @param cost - Cost of the part
+   * @param cost - Cost of the part; an existing part keeps its cost when omitted
    * @param description - Optional description
-   * @returns The created part object
+   * @returns The created or updated part object
    */
-  public async addPart(partNumber: string, cost: number = 0, description?: string): Promise<Part> {
+  public async addPart(partNumber: string, cost?: number, description?: string): Promise<Part> {
     try {
       // Check if part already exists
       const existingPart = await this.db('Parts')
@@ -377,18 +463,22 @@ export class WorkDatabase {
         .first();
 
       if (existingPart) {
-        // Update cost if part exists
+        // Update the fields that were given
+        const updates: Partial<Part> = { updatedAt: new Date() };
+        if (cost !== undefined) {
+          updates.cost = cost;
+        }
+        if (description) {
+          updates.description = description;
+        }
+
         await this.db('Parts')
           .where({ partNumber })
-          .update({ 
-            cost,
-            updatedAt: new Date()
-          });
+          .update(updates);
         
         return {
           ...existingPart,
-          cost,
-          updatedAt: new Date()
+          ...updates
         };
       }
 
@@ -396,7 +486,7 @@ export class WorkDatabase {
       const now = new Date();
       const newPart: Part = {
         partNumber,
-        cost,
+        cost: cost !== undefined ? cost : 0,
         description,
         createdAt: now,
         updatedAt: now
@@ -418,7 +508,7 @@ export class WorkDatabase {
    * 
    * @param workOrderId - ID of the work order
    * @param verbName - Name of the verb
-   * @param nounName - Name of the noun
+   * @param nounName - Name of the noun, or null for a verb without one
    * @param duration - Duration in minutes
    * @param dateAdded - Date when the service was added
    * @returns The created service object
@@ -426,7 +516,7 @@ export class WorkDatabase {
   public async addService(
     workOrderId: number,
     verbName: string,
-    nounName: string,
+    nounName: string | null,
     duration: number = 0,
     dateAdded: Date = new Date()
   ): Promise<Service> {
@@ -435,14 +525,14 @@ export class WorkDatabase {
       const verb = await this.addVerb(verbName);
       
       // Get or create noun
-      const noun = await this.addNoun(nounName);
+      const noun = nounName ? await this.addNoun(nounName) : null;
 
       // Create new service
       const now = new Date();
       const newService: Service = {
         workOrderId,
         verbId: verb.id!,
-        nounId: noun.id!,
+        nounId: noun ? noun.id! : null,
         duration,
         dateAdded,
         createdAt: now,
@@ -468,17 +558,19 @@ export class WorkDatabase {
    * @param partNumber - Part number
    * @param quantity - Quantity of parts
    * @param cost - Cost per part
+   * @param description - Optional part description for the catalog
    * @returns The created part charged object
    */
   public async addPartToService(
     serviceId: number,
     partNumber: string,
     quantity: number = 1,
-    cost?: number
+    cost?: number,
+    description?: string
   ): Promise<PartCharged> {
     try {
       // Get or create part
-      const part = await this.addPart(partNumber, cost || 0);
+      const part = await this.addPart(partNumber, cost, description);
       
       // Use the provided cost or the part's current cost
       const finalCost = cost !== undefined ? cost : part.cost;
@@ -505,6 +597,192 @@ export class WorkDatabase {
     }
   }
 
+  /**
+   * Replace the services written in a work order's notes, and the parts charged to them
+   * 
+   * Every service stacked from the notes before is removed with its parts first, so a line
+   * whose time or verb was edited, or that was deleted, leaves no stale service or charge.
+   * Services added by hand are kept.
+   * 
+   * @param workOrderId - ID of the work order
+   * @param services - Verb, noun, date, duration, notes and parts of each service in the notes
+   * @returns The created part charged objects
+   */
+  public async replaceNotesServices(
+    workOrderId: number,
+    services: Array<{ verb: string; noun?: string; dateAdded: Date; duration: number; notes?: string; parts: ServicePart[] }>
+  ): Promise<PartCharged[]> {
+    try {
+      await this.ensureOptionalServiceNoun();
+      await this.ensureServiceNotesColumn();
+
+      // Remove the services from the previous stack and their parts
+      const previous = this.db('Services').select('id').where({ workOrderId, fromNotes: true });
+      await this.db('PartsCharged').whereIn('serviceId', previous).delete();
+      await this.db('Services').where({ workOrderId, fromNotes: true }).delete();
+
+      // Write each service and charge its parts
+      const charged: PartCharged[] = [];
+      for (const service of services) {
+        const serviceRecord = await this.addService(workOrderId, service.verb, service.noun || null, service.duration, service.dateAdded);
+        await this.db('Services')
+          .where({ id: serviceRecord.id })
+          .update({ notes: service.notes, fromNotes: true });
+
+        for (const part of service.parts) {
+          charged.push(await this.addPartToService(serviceRecord.id!, part.partNumber, part.quantity, part.cost, part.description));
+        }
+      }
+
+      return charged;
+    } catch (error) {
+      console.error('Error replacing notes services:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Save services imported from Medimizer for a work order
+   * 
+   * Services are matched on their Medimizer ID, or on servicer, time, verb and noun when
+   * the grid gave no ID; matches are updated and the rest are added.
+   * 
+   * @param workOrderId - ID of the work order
+   * @param services - Services read from Medimizer
+   * @param importedAt - Time of the import
+   * @returns The saved imported services
+   */
+  public async saveImportedServices(
+    workOrderId: number,
+    services: MedimizerService[],
+    importedAt: Date = new Date()
+  ): Promise<ImportedService[]> {
+    try {
+      await this.ensureImportedServicesTable();
+
+      const saved: ImportedService[] = [];
+      for (const service of services) {
+        const record: ImportedService = {
+          workOrderId,
+          mmServiceId: service.serviceId || undefined,
+          servicer: service.servicer,
+          dateAdded: service.dateTime,
+          duration: service.minutes,
+          verb: service.verb,
+          noun: service.noun,
+          verbCode: service.verbCode !== null ? service.verbCode : undefined,
+          nounCode: service.nounCode !== null ? service.nounCode : undefined,
+          parts: JSON.stringify(service.parts.map(part => part.text)),
+          importedAt,
+          createdAt: importedAt,
+          updatedAt: importedAt
+        };
+
+        const existing = service.serviceId
+          ? await this.db('ImportedServices').where({ mmServiceId: service.serviceId }).first()
+          : await this.db('ImportedServices')
+            .where({ workOrderId, servicer: record.servicer, dateAdded: record.dateAdded, verb: record.verb, noun: record.noun || null })
+            .whereNull('mmServiceId')
+            .first();
+
+        if (existing) {
+          const { createdAt, ...changes } = record;
+          await this.db('ImportedServices').where({ id: existing.id }).update(changes);
+          saved.push({ ...record, id: existing.id, createdAt: existing.createdAt });
+        } else {
+          const [id] = await this.db('ImportedServices').insert(record);
+          saved.push({ ...record, id });
+        }
+      }
+
+      return saved;
+    } catch (error) {
+      console.error('Error saving imported services:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the services imported from Medimizer for a work order
+   * 
+   * @param workOrderNumber - 7-digit work order number
+   * @returns The imported services, oldest first
+   */
+  public async getImportedServices(workOrderNumber: string): Promise<ImportedService[]> {
+    try {
+      await this.ensureImportedServicesTable();
+
+      return await this.db('ImportedServices')
+        .join('WOs', 'ImportedServices.workOrderId', 'WOs.id')
+        .where('WOs.workOrderNumber', workOrderNumber)
+        .select('ImportedServices.*')
+        .orderBy('ImportedServices.dateAdded', 'asc');
+    } catch (error) {
+      console.error('Error getting imported services:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Find an imported service by its Medimizer service ID
+   * 
+   * @param mmServiceId - Medimizer service ID
+   * @returns The imported service, or undefined if it was never imported
+   */
+  public async findImportedService(mmServiceId: string): Promise<ImportedService | undefined> {
+    try {
+      await this.ensureImportedServicesTable();
+
+      return await this.db('ImportedServices')
+        .where({ mmServiceId })
+        .first();
+    } catch (error) {
+      console.error('Error finding imported service:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Count the nouns a verb has been recorded with, in services and Medimizer imports
+   * 
+   * @param verbName - Verb keyword
+   * @returns The nouns and how often each was used, most used first
+   */
+  public async getNounsUsedWithVerb(verbName: string): Promise<Array<{ noun: string; count: number }>> {
+    try {
+      await this.ensureImportedServicesTable();
+
+      const services = await this.db('Services')
+        .join('Verbs', 'Services.verbId', 'Verbs.id')
+        .join('Nouns', 'Services.nounId', 'Nouns.id')
+        .where('Verbs.name', verbName)
+        .groupBy('Nouns.name')
+        .select('Nouns.name as noun')
+        .count('Services.id as count');
+
+      const imported = await this.db('ImportedServices')
+        .where({ verb: verbName })
+        .whereNotNull('noun')
+        .groupBy('noun')
+        .select('noun')
+        .count('id as count');
+
+      const counts: Map<string, number> = new Map();
+      [...services, ...imported].forEach((row: any) => {
+        if (row.noun) {
+          counts.set(row.noun, (counts.get(row.noun) || 0) + Number(row.count));
+        }
+      });
+
+      return Array.from(counts.entries())
+        .map(([noun, count]) => ({ noun, count }))
+        .sort((a, b) => b.count - a.count || a.noun.localeCompare(b.noun));
+    } catch (error) {
+      console.error('Error counting nouns used with verb:', error);
+      throw error;
+    }
+  }
+
   /**
    * Get a work order with all its services and parts
    * 
@@ -519,7 +797,7 @@ export class WorkDatabase {
         .first();
 
       if (!workOrder) {
-        throw new Error(`Work order ${workOrderNumber} not found`);
+        throw new ValidationError(`Work order ${workOrderNumber} not found`);
       }
 
       // Get services for this work order
@@ -529,7 +807,7 @@ export class WorkDatabase {
 
       // For each service, get the associated noun, verb, and parts
       const servicesWithDetails = await Promise.all(services.map(async (service) => {
-        const noun = await this.db('Nouns').where({ id: service.nounId }).first();
+        const noun = service.nounId ? await this.db('Nouns').where({ id: service.nounId }).first() : null;
         const verb = await this.db('Verbs').where({ id: service.verbId }).first();
         
         const partsCharged = await this.db('PartsCharged')
@@ -540,6 +818,7 @@ export class WorkDatabase {
           
           return {
             partNumber: part.partNumber,
+            description: part.description,
             cost: partCharged.cost,
             quantity: partCharged.quantity
           };
@@ -548,7 +827,7 @@ export class WorkDatabase {
         return {
           dateAdded: service.dateAdded,
           duration: service.duration,
-          noun: noun.name,
+          noun: noun ? noun.name : null,
           verb: verb.name,
           partsCharged: partsWithDetails,
           notes: service.notes
@@ -585,7 +864,7 @@ export class WorkDatabase {
         .first();
 
       if (!workOrder) {
-        throw new Error(`Work order ${workOrderNumber} not found`);
+        throw new ValidationError(`Work order ${workOrderNumber} not found`);
       }
 
       if (!workOrder.open) {
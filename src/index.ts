@@ -1,25 +1,66 @@
 #!/usr/bin/env node
 
 import { CeCliRepl } from './repl';
+import { Workspace } from './utils/workspace';
+import { EXIT_CODES } from './utils/errors';
 
 /**
  * Main entry point for the Work CLI application
  */
 async function main() {
   try {
+    const args = process.argv.slice(2);
+
+    // Global options come before the command name; the same flags later on belong to the command.
+    // --workspace <dir> is applied before anything touches the filesystem, and --script <file>
+    // runs a command file, passing anything after it to the run command.
+    let script: string | null = null;
+    while (args.length > 0 && script === null) {
+      const arg = args[0];
+      const name = arg.split('=')[0];
+      if (name !== '--workspace' && name !== '--script') {
+        break;
+      }
+
+      const hasValue = arg.includes('=');
+      const value = hasValue ? arg.slice(arg.indexOf('=') + 1) : args[1];
+      if (!value) {
+        console.error(name === '--workspace' ? '--workspace requires a directory' : '--script requires a file');
+        process.exit(EXIT_CODES.validation);
+      }
+      args.splice(0, hasValue ? 1 : 2);
+
+      if (name === '--workspace') {
+        Workspace.setRootOverride(value);
+      } else {
+        script = value;
+      }
+    }
+
+    if (script !== null) {
+      args.unshift('run', script);
+    }
+
     // Create a new REPL instance
     // You can customize the banner text by passing a string to the constructor
     const repl = new CeCliRepl('CE_cli');
+
+    // Run a single command and exit when one is given on the command line.
+    // The shell has already split and unquoted the arguments, so pass them through as tokens.
+    if (args.length > 0) {
+      const exitCode = await repl.runCommand(args);
+      process.exit(exitCode);
+    }
     
     // Start the REPL
     await repl.start();
     
     // Exit with success code
-    process.exit(0);
+    process.exit(EXIT_CODES.success);
   } catch (error) {
     // Log error and exit with error code
     console.error('Fatal error:', error);
-    process.exit(1);
+    process.exit(EXIT_CODES.failure);
   }
 }
 
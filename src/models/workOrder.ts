@@ -21,9 +21,30 @@ export interface Service {
   workOrderId: number;      // Foreign key to work order
   dateAdded: Date;          // Date when the service was added
   duration: number;         // Duration in minutes
-  nounId: number;           // Foreign key to noun
+  nounId: number | null;    // Foreign key to noun; null for verbs without one
   verbId: number;           // Foreign key to verb
   notes?: string;           // Optional notes
+  fromNotes?: boolean;      // True when written by stacking the notes file
+  createdAt: Date;          // Creation timestamp
+  updatedAt: Date;          // Last update timestamp
+}
+
+/**
+ * Imported service model definition: a service read from Medimizer
+ */
+export interface ImportedService {
+  id?: number;              // Auto-incremented primary key
+  workOrderId: number;      // Foreign key to work order
+  mmServiceId?: string;     // Medimizer service ID, when the grid provided one
+  servicer: string;         // Employee the service is booked under in Medimizer
+  dateAdded: Date;          // Date and time of the service
+  duration: number;         // Duration in minutes
+  verb: string;             // Verb text as shown in Medimizer
+  noun?: string;            // Noun text as shown in Medimizer
+  verbCode?: number;        // Verb code from the verb table, if it resolved
+  nounCode?: number;        // Noun code from the noun table, if it resolved
+  parts: string;            // JSON array of the part rows shown under the service
+  importedAt: Date;         // When the service was last imported
   createdAt: Date;          // Creation timestamp
   updatedAt: Date;          // Last update timestamp
 }
@@ -1,20 +1,13 @@
-import inquirer from 'inquirer';
 import chalk from 'chalk';
-import { openWorkOrder } from './commands/open';
-import { pushStack } from './commands/push';
-import { createLog, listLogs, openLog } from './commands/log';
 import { displayBanner } from './utils/banner';
-import { initWorkOrder } from './commands/init-enhanced';
-import { listWorkOrders } from './commands/list';
-import { getWorkOrderDetails } from './commands/details';
-import { addService, addPartToService } from './commands/service';
-import { closeWorkOrder } from './commands/close';
-import { openNotes, importNotes } from './commands/note';
-import { stackWorkOrder, displayStack, clearStack } from './commands/stack';
-import { startDay, endDay, dayStatus, daysSummary } from './commands/day';
-import { deleteDuplicates } from './commands/del-dups';
-import { configureApp, showConfig } from './commands/config';
-import { deleteMonth } from './commands/delete-month';
+import { CommandRegistry, CommandSession } from './utils/command-registry';
+import { registerBuiltInCommands } from './commands/builtin';
+import { registerUserCommands } from './commands/macro';
+import { Workspace } from './utils/workspace';
+import { ValidationError, UsageError, getExitCode } from './utils/errors';
+import { LineEditor } from './utils/line-editor';
+import { CommandHistory } from './utils/command-history';
+import { completeLine } from './utils/completer';
 
 /**
  * REPL (Read-Eval-Print-Loop) class for interactive CLI
@@ -22,6 +15,25 @@ import { deleteMonth } from './commands/delete-month';
 export class CeCliRepl {
   private isRunning: boolean = false;
   private bannerText: string = 'ce_cli';
+  private lastError: unknown = null;
+  private registry: CommandRegistry = CommandRegistry.getInstance();
+  private session: CommandSession = {
+    exit: () => {
+      this.isRunning = false;
+    },
+    clearScreen: () => {
+      console.clear();
+      this.displayWelcomeBanner();
+    },
+    execute: async (commandLine: string) => {
+      const outerError = this.lastError;
+      this.lastError = null;
+      await this.processCommand(commandLine.trim());
+      const error = this.lastError;
+      this.lastError = outerError;
+      return error;
+    }
+  };
 
   /**
    * Constructor for the REPL
@@ -32,6 +44,11 @@ export class CeCliRepl {
     if (bannerText) {
       this.bannerText = bannerText;
     }
+
+    if (this.registry.getCommands().length === 0) {
+      registerBuiltInCommands(this.registry);
+      registerUserCommands(this.registry);
+    }
   }
 
   /**
@@ -46,6 +63,13 @@ export class CeCliRepl {
     // Display welcome message
     console.log(chalk.green('Welcome to ce_cli - Your all in one UofR biomed digital CLI tool!'));
     console.log(chalk.yellow('Type "help" to see available commands'));
+    console.log(chalk.gray('Tab completes commands, work orders, verbs and nouns; Ctrl-R searches history'));
+
+    // Point users of the old cwd-based layout at the migration
+    const legacy = Workspace.getInstance().findLegacyLayout();
+    if (legacy.length > 0) {
+      console.log(chalk.yellow(`Found ${legacy.join(', ')} in the current directory. Run "workspace migrate" to move them into ${Workspace.getInstance().getRoot()}`));
+    }
     console.log(''); // Empty line for spacing
   }
 
@@ -56,18 +80,22 @@ export class CeCliRepl {
     this.isRunning = true;
     this.displayWelcomeBanner();
 
+    const lineEditor = new LineEditor({
+      prompt: chalk.cyan('ce-cli> '),
+      history: CommandHistory.getInstance(),
+      completer: line => completeLine(line, this.registry)
+    });
+
     // Main REPL loop
     while (this.isRunning) {
       try {
-        // Prompt for command
-        const { command } = await inquirer.prompt([
-          {
-            type: 'input',
-            name: 'command',
-            message: chalk.cyan('ce-cli> '),
-            prefix: ''
-          }
-        ]);
+        // Prompt for command; Ctrl-D ends the session like exit
+        const command = await lineEditor.readLine();
+        if (command === null) {
+          console.log(chalk.green('Goodbye!'));
+          this.isRunning = false;
+          break;
+        }
 
         // Process the command
         await this.processCommand(command.trim());
@@ -77,6 +105,37 @@ export class CeCliRepl {
     }
   }
 
+  /**
+   * Run a single command without the banner or prompt loop
+   *
+   * @param commandLine - The command line to run, or tokens already split by the shell
+   * @returns The process exit code for the command
+   */
+  public async runCommand(commandLine: string | string[]): Promise<number> {
+    this.lastError = null;
+    if (Array.isArray(commandLine)) {
+      await this.processTokens(commandLine);
+    } else {
+      await this.processCommand(commandLine.trim());
+    }
+    return getExitCode(this.lastError);
+  }
+
+  /**
+   * Print a command error and remember it for the exit code
+   *
+   * @param error - Error thrown by a command
+   */
+  private reportError(error: unknown): void {
+    this.lastError = error;
+
+    if (error instanceof Error) {
+      console.log(chalk.red(error.message));
+    } else {
+      console.log(chalk.red('An unknown error occurred'));
+    }
+  }
+
   /**
    * Process a command entered by the user
    * 
@@ -86,486 +145,51 @@ export class CeCliRepl {
     // Skip empty commands
     if (!commandLine) return;
 
-    // Split command line into command and arguments
-    const parts = commandLine.split(' ');
-    const command = parts[0].toLowerCase();
-    const args = parts.slice(1);
-
-    // Process commands
-    switch (command) {
-      case 'init':
-        if (args.length === 0) {
-          console.log(chalk.red('Error: Work order number is required'));
-          console.log(chalk.yellow('Usage: init <7-digit-work-order-number> [8-digit-control-number]'));
-        } else {
-          try {
-            const workOrderNumber = args[0];
-            const controlNumber = args.length > 1 ? args[1] : undefined;
-            const result = await initWorkOrder(workOrderNumber, controlNumber);
-            console.log(chalk.green(result));
-          } catch (error) {
-            if (error instanceof Error) {
-              console.log(chalk.red(error.message));
-            } else {
-              console.log(chalk.red('An unknown error occurred'));
-            }
-          }
-        }
-        break;
-      
-      case 'open':
-        if (args.length === 0) {
-          console.log(chalk.red('Error: Work order number is required'));
-          console.log(chalk.yellow('Usage: open <7-digit-work-order-number>'));
-        } else {
-          try {
-            const result = await openWorkOrder(args[0]);
-            console.log(chalk.green(result));
-          } catch (error) {
-            if (error instanceof Error) {
-              console.log(chalk.red(error.message));
-            } else {
-              console.log(chalk.red('An unknown error occurred'));
-            }
-          }
-        }
-        break;
-      
-      case 'push-stack':
-      case 'push':
-        try {
-          // Check for dry-run flag
-          const dryRun = args.includes('--dry-run') || args.includes('-d');
-          const result = await pushStack(dryRun);
-          console.log(chalk.green(result));
-        } catch (error) {
-          if (error instanceof Error) {
-            console.log(chalk.red(error.message));
-          } else {
-            console.log(chalk.red('An unknown error occurred'));
-          }
-        }
-        break;
-      
-      case 'list':
-      case 'ls':
-        try {
-          const result = await listWorkOrders();
-          console.log(result);
-        } catch (error) {
-          if (error instanceof Error) {
-            console.log(chalk.red(error.message));
-          } else {
-            console.log(chalk.red('An unknown error occurred'));
-          }
-        }
-        break;
-
-      case 'log':
-        if (args.length === 0) {
-          console.log(chalk.red('Error: Log name is required'));
-          console.log(chalk.yellow('Usage: log <log-name>'));
-        } else {
-          try {
-            const logName = args.join(' '); // Combine all args to allow spaces in log name
-            const result = await createLog(logName);
-            console.log(chalk.green(result));
-          } catch (error) {
-            if (error instanceof Error) {
-              console.log(chalk.red(error.message));
-            } else {
-              console.log(chalk.red('An unknown error occurred'));
-            }
-          }
-        }
-        break;
-
-      case 'list-logs':
-      case 'logs':
-        try {
-          const result = await listLogs();
-          console.log(result);
-        } catch (error) {
-          if (error instanceof Error) {
-            console.log(chalk.red(error.message));
-          } else {
-            console.log(chalk.red('An unknown error occurred'));
-          }
-        }
-        break;
-
-      case 'open-log':
-        if (args.length === 0) {
-          console.log(chalk.red('Error: Log identifier is required'));
-          console.log(chalk.yellow('Usage: open-log <date-or-name>'));
-        } else {
-          try {
-            const logIdentifier = args.join(' '); // Combine all args
-            const result = await openLog(logIdentifier);
-            console.log(chalk.green(result));
-          } catch (error) {
-            if (error instanceof Error) {
-              console.log(chalk.red(error.message));
-            } else {
-              console.log(chalk.red('An unknown error occurred'));
-            }
-          }
-        }
-        break;
-      
-      case 'show':
-      case 'details':
-        if (args.length === 0) {
-          console.log(chalk.red('Error: Work order number is required'));
-          console.log(chalk.yellow('Usage: details <7-digit-work-order-number>'));
-        } else {
-          try {
-            const result = await getWorkOrderDetails(args[0]);
-            console.log(result);
-          } catch (error) {
-            if (error instanceof Error) {
-              console.log(chalk.red(error.message));
-            } else {
-              console.log(chalk.red('An unknown error occurred'));
-            }
-          }
-        }
-        break;
-      
-      case 'service':
-      case 'add-service':
-        if (args.length < 3) {
-          console.log(chalk.red('Error: Required parameters missing'));
-          console.log(chalk.yellow('Usage: service <wo-number> <verb> <noun> [duration]'));
-        } else {
-          try {
-            const workOrderNumber = args[0];
-            const verb = args[1];
-            const noun = args[2];
-            const duration = args.length > 3 ? parseInt(args[3], 10) : 0;
-
-            const result = await addService(workOrderNumber, verb, noun, duration);
-            console.log(result);
-          } catch (error) {
-            if (error instanceof Error) {
-              console.log(chalk.red(error.message));
-            } else {
-              console.log(chalk.red('An unknown error occurred'));
-            }
-          }
-        }
-        break;
-
-      case 'part':
-      case 'add-part':
-        if (args.length < 3) {
-          console.log(chalk.red('Error: Required parameters missing'));
-          console.log(chalk.yellow('Usage: part <wo-number> <service-index> <part-number> [quantity] [cost]'));
-        } else {
-          try {
-            const workOrderNumber = args[0];
-            const serviceIndex = parseInt(args[1], 10);
-            const partNumber = args[2];
-            const quantity = args.length > 3 ? parseInt(args[3], 10) : 1;
-            const cost = args.length > 4 ? parseFloat(args[4]) : undefined;
-
-            const result = await addPartToService(workOrderNumber, serviceIndex, partNumber, quantity, cost);
-            console.log(result);
-          } catch (error) {
-            if (error instanceof Error) {
-              console.log(chalk.red(error.message));
-            } else {
-              console.log(chalk.red('An unknown error occurred'));
-            }
-          }
-        }
-        break;
-      
-      case 'close':
-        if (args.length === 0) {
-          console.log(chalk.red('Error: Work order number is required'));
-          console.log(chalk.yellow('Usage: close <7-digit-work-order-number>'));
-        } else {
-          try {
-            const result = await closeWorkOrder(args[0]);
-            console.log(result);
-          } catch (error) {
-            if (error instanceof Error) {
-              console.log(chalk.red(error.message));
-            } else {
-              console.log(chalk.red('An unknown error occurred'));
-            }
-          }
-        }
-        break;
-
-      case 'note':
-        if (args.length === 0) {
-          console.log(chalk.red('Error: Work order number is required'));
-          console.log(chalk.yellow('Usage: note <7-digit-work-order-number>'));
-        } else {
-          try {
-            const result = await openNotes(args[0]);
-            console.log(chalk.green(result));
-          } catch (error) {
-            if (error instanceof Error) {
-              console.log(chalk.red(error.message));
-            } else {
-              console.log(chalk.red('An unknown error occurred'));
-            }
-          }
-        }
-        break;
-
-      case 'import':
-        if (args.length === 0) {
-          console.log(chalk.red('Error: Work order number is required'));
-          console.log(chalk.yellow('Usage: import <7-digit-work-order-number>'));
-        } else {
-          try {
-            const result = await importNotes(args[0]);
-            console.log(chalk.green(result));
-          } catch (error) {
-            if (error instanceof Error) {
-              console.log(chalk.red(error.message));
-            } else {
-              console.log(chalk.red('An unknown error occurred'));
-            }
-          }
-        }
-        break;
-
-      case 'stack':
-        if (args.length === 0) {
-          try {
-            // If no arguments, display the stack
-            const result = await displayStack();
-            console.log(result);
-          } catch (error) {
-            if (error instanceof Error) {
-              console.log(chalk.red(error.message));
-            } else {
-              console.log(chalk.red('An unknown error occurred'));
-            }
-          }
-        } else {
-          try {
-            // If argument is provided, stack the work order
-            const result = await stackWorkOrder(args[0]);
-            console.log(chalk.green(result));
-          } catch (error) {
-            if (error instanceof Error) {
-              console.log(chalk.red(error.message));
-            } else {
-              console.log(chalk.red('An unknown error occurred'));
-            }
-          }
-        }
-        break;
-
-      case 'clear-stack':
-        try {
-          const result = await clearStack();
-          console.log(chalk.green(result));
-        } catch (error) {
-          if (error instanceof Error) {
-            console.log(chalk.red(error.message));
-          } else {
-            console.log(chalk.red('An unknown error occurred'));
-          }
-        }
-        break;
-
-      // New day tracking commands
-      case 'start-day':
-        try {
-          const result = await startDay();
-          console.log(result);
-        } catch (error) {
-          if (error instanceof Error) {
-            console.log(chalk.red(error.message));
-          } else {
-            console.log(chalk.red('An unknown error occurred'));
-          }
-        }
-        break;
-
-      case 'end-day':
-        try {
-          const result = await endDay();
-          console.log(result);
-        } catch (error) {
-          if (error instanceof Error) {
-            console.log(chalk.red(error.message));
-          } else {
-            console.log(chalk.red('An unknown error occurred'));
-          }
-        }
-        break;
-
-      case 'day-status':
-        try {
-          const result = await dayStatus();
-          console.log(result);
-        } catch (error) {
-          if (error instanceof Error) {
-            console.log(chalk.red(error.message));
-          } else {
-            console.log(chalk.red('An unknown error occurred'));
-          }
-        }
-        break;
-
-// Add this to the repl.ts file in the processCommand method, inside the switch statement
-
-case 'del-dups':
-  if (args.length === 0) {
-    console.log(chalk.red('Error: Work order number is required'));
-    console.log(chalk.yellow('Usage: del-dups <7-digit-work-order-number>'));
-  } else {
+    // Split command line into command and arguments, handling quotes and escapes
+    let words: string[];
     try {
-      const result = await deleteDuplicates(args[0]);
-      console.log(result);
+      words = this.registry.tokenizeLine(commandLine);
     } catch (error) {
-      if (error instanceof Error) {
-        console.log(chalk.red(error.message));
-      } else {
-        console.log(chalk.red('An unknown error occurred'));
-      }
+      this.reportError(error);
+      console.log('');
+      return;
     }
-  }
-  break;
-
-      case 'delete-month':
-        if (args.length < 3) {
-          console.log(chalk.red('Error: Required parameters missing'));
-          console.log(chalk.yellow('Usage: delete-month <month> <year> <wo-number-or-list>'));
-          console.log(chalk.yellow('Examples:'));
-          console.log(chalk.yellow('  delete-month 10 2025 1234567'));
-          console.log(chalk.yellow('  delete-month 10 2025 [1234567,1234568,1234569]'));
-        } else {
-          try {
-            const month = args[0];
-            const year = args[1];
-            const workOrders = args[2];
-            const result = await deleteMonth(month, year, workOrders);
-            console.log(result);
-          } catch (error) {
-            if (error instanceof Error) {
-              console.log(chalk.red(error.message));
-            } else {
-              console.log(chalk.red('An unknown error occurred'));
-            }
-          }
-        }
-        break;
-
-      case 'days-summary':
-        try {
-          // Check if there's a numeric argument for number of days
-          const days = args.length > 0 && !isNaN(parseInt(args[0])) ?
-            parseInt(args[0]) : 7;
 
-          const result = await daysSummary(days);
-          console.log(result);
-        } catch (error) {
-          if (error instanceof Error) {
-            console.log(chalk.red(error.message));
-          } else {
-            console.log(chalk.red('An unknown error occurred'));
-          }
-        }
-        break;
-
-      case 'config':
-        try {
-          if (args.length > 0 && args[0] === 'show') {
-            await showConfig();
-          } else {
-            await configureApp();
-          }
-        } catch (error) {
-          if (error instanceof Error) {
-            console.log(chalk.red(error.message));
-          } else {
-            console.log(chalk.red('An unknown error occurred'));
-          }
-        }
-        break;
+    await this.processTokens(words);
+  }
 
-      case 'help':
-        this.displayHelp();
-        break;
+  /**
+   * Dispatch a tokenized command line to its handler
+   *
+   * @param words - Command name followed by its arguments and flags
+   */
+  private async processTokens(words: string[]): Promise<void> {
+    if (words.length === 0) return;
+
+    if (!this.registry.find(words[0])) {
+      this.reportError(new ValidationError(`Unknown command: ${words[0]}`));
+      console.log(chalk.yellow('Type "help" to see available commands'));
+      console.log('');
+      return;
+    }
 
-      case 'clear':
-      case 'cls':
-        console.clear();
-        this.displayWelcomeBanner();
-        break;
+    try {
+      const resolved = this.registry.resolve(words);
+      const { args, flags } = this.registry.parseInput(resolved);
+      const result = await resolved.definition.handler!({ args, flags, session: this.session });
 
-      case 'exit':
-      case 'quit':
-        console.log(chalk.green('Goodbye!'));
-        this.isRunning = false;
-        break;
+      if (result) {
+        console.log(result);
+      }
+    } catch (error) {
+      this.reportError(error);
 
-      default:
-        console.log(chalk.red(`Unknown command: ${command}`));
-        console.log(chalk.yellow('Type "help" to see available commands'));
+      if (error instanceof UsageError) {
+        console.log(chalk.yellow(`Usage: ${error.usage}`));
+      }
     }
 
     // Add an empty line for better readability
     console.log('');
   }
-
-  /**
-   * Display help information
-   */
-  private displayHelp(): void {
-    console.log(chalk.yellow('Available commands:'));
-    
-    // Work order management
-    console.log(chalk.green('\nWork Order Management:'));
-    console.log(chalk.cyan('  init <wo-number> [control-number]') + ' - Initialize a new work order');
-    console.log(chalk.cyan('  list, ls') + ' - List all existing work orders');
-    console.log(chalk.cyan('  details, show <wo-number>') + ' - Show detailed information for a work order');
-    console.log(chalk.cyan('  service <wo-number> <verb> <noun> [duration]') + ' - Add a service to a work order');
-    console.log(chalk.cyan('  part <wo-number> <service-index> <part-number> [quantity] [cost]') + ' - Add a part to a service');
-    console.log(chalk.cyan('  close <wo-number>') + ' - Close a work order');
-    console.log(chalk.cyan('  note <wo-number>') + ' - Open notes for a work order');
-    console.log(chalk.cyan('  import <wo-number>') + ' - Import notes from Medimizer');
-    console.log(chalk.cyan('  open <wo-number>') + ' - Open a work order in Medimizer (browser stays open)');
-    console.log(chalk.cyan('  del-dups <wo-number>') + ' - Delete duplicate services for a work order in Medimizer');
-    console.log(chalk.cyan('  delete-month <month> <year> <wo-number-or-list>') + ' - Delete LONNIE POLLOCKS services from a specific month/year');
-
-    // Day tracking
-    console.log(chalk.green('\nDay Tracking:'));
-    console.log(chalk.cyan('  start-day') + ' - Start a new work day');
-    console.log(chalk.cyan('  end-day') + ' - End the current work day and show summary');
-    console.log(chalk.cyan('  day-status') + ' - Show status of the current day');
-    console.log(chalk.cyan('  days-summary [count]') + ' - Show summary of recent days (default: 7)');
-    
-    // Stack management
-    console.log(chalk.green('\nStack Management:'));
-    console.log(chalk.cyan('  stack [wo-number]') + ' - Add a work order to the stack or display the current stack');
-    console.log(chalk.cyan('  clear-stack') + ' - Clear all work orders from the stack');
-    console.log(chalk.cyan('  push-stack, push [--dry-run]') + ' - Push services to Medimizer');
-    
-    // Journal logs
-    console.log(chalk.green('\nJournal Logs:'));
-    console.log(chalk.cyan('  log <log-name>') + ' - Create a new journal log entry');
-    console.log(chalk.cyan('  list-logs, logs') + ' - List all journal log entries');
-    console.log(chalk.cyan('  open-log <date-or-name>') + ' - Open a specific log entry');
-    
-    // General commands
-    console.log(chalk.green('\nGeneral Commands:'));
-    console.log(chalk.cyan('  config') + ' - Configure application settings (including browser mode)');
-    console.log(chalk.cyan('  config show') + ' - Show current configuration');
-    console.log(chalk.cyan('  help') + ' - Display this help information');
-    console.log(chalk.cyan('  clear') + ' - Clear the screen');
-    console.log(chalk.cyan('  exit') + ' - Exit the application');
-  }
 }
-
-
-
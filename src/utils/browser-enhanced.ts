@@ -1,10 +1,17 @@
-import puppeteer, { Browser, Page } from 'puppeteer';
+import puppeteer, { Browser, Page, GoToOptions } from 'puppeteer';
 
 // Declare __doPostBack as a global variable
 declare const __doPostBack: (eventTarget: string, eventArgument: string) => void;
 import chalk from 'chalk';
 import path from 'path';
 import fs from 'fs';
+import { ConfigManager } from './config-manager';
+import { MedimizerRoutes, WO_TABS } from './medimizer-routes';
+import { CredentialVault, MedimizerCredentials } from './credential-vault';
+import { ProfileManager } from './profile-manager';
+import { CodeLookup } from './code-lookup';
+import { MedimizerServiceRow, MedimizerService, toMedimizerService } from './imported-services';
+import { MedimizerError, NetworkError, wrapError } from './errors';
 
 /**
  * Class to handle browser automation for interacting with Medimizer
@@ -20,7 +27,7 @@ export class BrowserAutomation {
    */
   private constructor() {
     // Create logs directory for screenshots
-    this.logsDir = path.join(process.cwd(), 'logs');
+    this.logsDir = ConfigManager.getInstance().resolvePath('paths.logs');
     if (!fs.existsSync(this.logsDir)) {
       fs.mkdirSync(this.logsDir, { recursive: true });
     }
@@ -68,7 +75,7 @@ export class BrowserAutomation {
     if (!this.browser) {
       console.log(chalk.yellow('Starting browser...'));
       this.browser = await puppeteer.launch({
-        headless: false, // Set to true for production
+        headless: ConfigManager.getInstance().getBoolean('browser.headless'),
         defaultViewport: null, // Use default viewport size
         args: [
           '--start-maximized',
@@ -110,6 +117,30 @@ export class BrowserAutomation {
     }
   }
 
+  /**
+   * Load a Medimizer page
+   *
+   * @param url - Page to load
+   * @param options - Navigation options; waits for the network to go idle by default
+   * @throws NetworkError if Medimizer cannot be reached or does not answer in time
+   */
+  public async goto(url: string, options: GoToOptions = { waitUntil: 'networkidle2' }): Promise<void> {
+    if (!this.page) {
+      throw new MedimizerError('Browser page not initialized');
+    }
+
+    try {
+      await this.page.goto(url, options);
+    } catch (error) {
+      // Chrome reports connection failures as "net::ERR_..." and slow servers as a TimeoutError
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      if ((error instanceof Error && error.name === 'TimeoutError') || message.includes('net::ERR_')) {
+        throw new NetworkError(`Could not reach Medimizer at ${url}: ${message}`);
+      }
+      throw error;
+    }
+  }
+
   /**
    * Navigate to a work order page in Medimizer
    * 
@@ -123,11 +154,12 @@ export class BrowserAutomation {
       await this.initialize();
 
       if (!this.browser || !this.page) {
-        throw new Error('Browser not initialized');
+        throw new MedimizerError('Browser not initialized');
       }
 
       // Navigate to the work order page
-      const url = `http://10.221.0.155/MMWeb/App_Pages/WOForm.aspx?wo=${workOrderNumber}&mode=Edit&tab=${tab}`;
+      const routes = MedimizerRoutes.getInstance();
+      const url = routes.workOrderUrl(workOrderNumber, tab);
       console.log(chalk.yellow(`Navigating to: ${url}`));
       
       // Add retry logic for navigation
@@ -136,7 +168,7 @@ export class BrowserAutomation {
       
       while (retries > 0 && !success) {
         try {
-          await this.page.goto(url, { 
+          await this.goto(url, { 
             waitUntil: 'networkidle2',
             timeout: 30000 // 30 second timeout
           });
@@ -147,7 +179,7 @@ export class BrowserAutomation {
             success = true;
             console.log(chalk.green('Navigation complete'));
           } else {
-            throw new Error('Page did not load correctly');
+            throw new MedimizerError('Page did not load correctly');
           }
         } catch (error) {
           retries--;
@@ -164,17 +196,17 @@ export class BrowserAutomation {
       const isLoginPage = await this.isLoginPage();
       if (isLoginPage) {
         console.log(chalk.yellow('Login page detected'));
-        await this.login('LPOLLOCK', '890piojkl!@#$98', 'URMCCEX3');
+        await this.login();
         
         // Navigate back to the original URL after login
-        await this.page.goto(url, { waitUntil: 'networkidle2' });
+        await this.goto(url, { waitUntil: 'networkidle2' });
       }
 
     } catch (error) {
       await this.takeScreenshot('navigation_failed');
       
       if (error instanceof Error) {
-        throw new Error(`Failed to navigate to work order: ${error.message}`);
+        throw wrapError(error, `Failed to navigate to work order: ${error.message}`);
       } else {
         throw new Error('Failed to navigate to work order: Unknown error');
       }
@@ -203,19 +235,34 @@ export class BrowserAutomation {
     }
   }
   
+  /**
+   * Put together the active profile's login: its employee code and database, and the password from the vault
+   */
+  private async readCredentials(): Promise<MedimizerCredentials> {
+    const profile = ProfileManager.getInstance().getActiveProfile();
+    return {
+      employeeCode: profile.employeeCode,
+      password: await CredentialVault.getInstance().getPassword(profile.name),
+      database: profile.database
+    };
+  }
+
   /**
    * Ultra-reliable login function with multiple fallback approaches
    * 
-   * @param employeeCode - Employee code
-   * @param password - Password
-   * @param database - Database to select
+   * @param credentials - Credentials to log in with (the active profile and its vault password if omitted)
    */
-  public async login(employeeCode: string, password: string, database: string): Promise<void> {
+  public async login(credentials?: MedimizerCredentials): Promise<void> {
     try {
       if (!this.page) {
-        throw new Error('Browser page not initialized');
+        throw new MedimizerError('Browser page not initialized');
       }
       
+      const { employeeCode, password, database: storedDatabase } = credentials || await this.readCredentials();
+      
+      // Environment profiles that pin a database override the stored one
+      const database = MedimizerRoutes.getInstance().getActiveEnvironment().database || storedDatabase;
+      
       console.log(chalk.yellow(`Logging in as ${employeeCode} to database ${database}...`));
       
       // Take a screenshot of the login page
@@ -235,7 +282,7 @@ export class BrowserAutomation {
         // Method 2: DOM manipulation
         await this.page.evaluate((code) => {
           const input = document.querySelector('#ContentPlaceHolder1_txtEmployeeCode_I') as HTMLInputElement;
-          if (!input) throw new Error('Employee code field not found');
+          if (!input) throw new MedimizerError('Employee code field not found');
           input.value = code;
           input.dispatchEvent(new Event('input', { bubbles: true }));
           input.dispatchEvent(new Event('change', { bubbles: true }));
@@ -274,7 +321,7 @@ export class BrowserAutomation {
         // Method 2: DOM manipulation
         await this.page.evaluate((pwd) => {
           const input = document.querySelector('#ContentPlaceHolder1_txtPassword_I') as HTMLInputElement;
-          if (!input) throw new Error('Password field not found');
+          if (!input) throw new MedimizerError('Password field not found');
           input.value = pwd;
           input.dispatchEvent(new Event('input', { bubbles: true }));
           input.dispatchEvent(new Event('change', { bubbles: true }));
@@ -309,7 +356,7 @@ export class BrowserAutomation {
           if (hiddenInput) {
             hiddenInput.value = dbValue;
           } else {
-            throw new Error('Hidden input not found');
+            throw new MedimizerError('Hidden input not found');
           }
           
           // Set visible input text
@@ -317,7 +364,7 @@ export class BrowserAutomation {
           if (visibleInput) {
             visibleInput.value = dbName;
           } else {
-            throw new Error('Visible input not found');
+            throw new MedimizerError('Visible input not found');
           }
           
           // Dispatch change events
@@ -572,7 +619,7 @@ export class BrowserAutomation {
       }
       
       if (!loginSubmitted) {
-        throw new Error('All login submission methods failed');
+        throw new MedimizerError('All login submission methods failed');
       }
       
       // ========== 5. Wait for navigation and verify login success ==========
@@ -621,7 +668,7 @@ export class BrowserAutomation {
         });
         
         await this.takeScreenshot('login_error');
-        throw new Error(`Login failed: ${errorText}`);
+        throw new MedimizerError(`Login failed: ${errorText}`);
       }
       
       // Final verification that we're not on the login page
@@ -632,7 +679,7 @@ export class BrowserAutomation {
         // One final effort - directly navigate to the home page
         try {
           console.log(chalk.yellow('Attempting direct navigation to home page...'));
-          await this.page.goto('http://10.221.0.155/MMWeb/Default.aspx', { 
+          await this.goto(MedimizerRoutes.getInstance().loginUrl(), { 
             waitUntil: 'networkidle2',
             timeout: 20000
           });
@@ -640,10 +687,10 @@ export class BrowserAutomation {
           // Check one more time
           const finalCheck = await this.isLoginPage();
           if (finalCheck) {
-            throw new Error('Login failed: Still on login page after all attempts');
+            throw new MedimizerError('Login failed: Still on login page after all attempts');
           }
         } catch (error) {
-          throw new Error('Login failed: Unable to navigate away from login page');
+          throw new MedimizerError('Login failed: Unable to navigate away from login page');
         }
       }
       
@@ -655,7 +702,7 @@ export class BrowserAutomation {
       await this.takeScreenshot('login_failed');
       
       if (error instanceof Error) {
-        throw new Error(`Login failed: ${error.message}`);
+        throw wrapError(error, `Login failed: ${error.message}`);
       } else {
         throw new Error('Login failed: Unknown error');
       }
@@ -670,7 +717,7 @@ export class BrowserAutomation {
   public async extractNotes(): Promise<string> {
     try {
       if (!this.browser || !this.page) {
-        throw new Error('Browser or page not initialized');
+        throw new MedimizerError('Browser or page not initialized');
       }
 
       console.log(chalk.yellow('Extracting notes...'));
@@ -706,7 +753,7 @@ export class BrowserAutomation {
       
       if (!selectorFound) {
         await this.takeScreenshot('notes_element_not_found');
-        throw new Error('Notes textarea not found on page');
+        throw new MedimizerError('Notes textarea not found on page');
       }
       
       // Extract the notes text with retry logic
@@ -741,7 +788,7 @@ export class BrowserAutomation {
       await this.takeScreenshot('extract_notes_failed');
       
       if (error instanceof Error) {
-        throw new Error(`Failed to extract notes: ${error.message}`);
+        throw wrapError(error, `Failed to extract notes: ${error.message}`);
       } else {
         throw new Error('Failed to extract notes: Unknown error');
       }
@@ -768,288 +815,157 @@ export class BrowserAutomation {
       return notes;
     } catch (error) {
       if (error instanceof Error) {
-        throw new Error(`Failed to import notes: ${error.message}`);
+        throw wrapError(error, `Failed to import notes: ${error.message}`);
       } else {
         throw new Error('Failed to import notes: Unknown error');
       }
     }
   }
-/**
- * Extract services from the Medimizer services tab
- * This is a new method to add to the BrowserAutomation class
- * 
- * @param workOrderNumber - 7-digit work order number
- * @returns A promise that resolves to an array of formatted service strings
- */
-public async extractServices(workOrderNumber: string): Promise<string[]> {
-  try {
-    if (!this.browser || !this.page) {
-      throw new Error('Browser or page not initialized');
+
+  /**
+   * Read the service rows of the services grid on the current page
+   * 
+   * Services are grouped under "(Employee)" rows for their servicer, and parts follow
+   * their service as "--" rows. Service IDs come from the grid's DXKVInput.
+   * 
+   * @returns A promise that resolves to the service rows in grid order
+   */
+  public async extractServiceRows(): Promise<MedimizerServiceRow[]> {
+    if (!this.page) {
+      throw new MedimizerError('Browser page not initialized');
     }
 
-    console.log(chalk.yellow('Navigating to services tab...'));
-    
-    // Navigate to the services tab
-    const url = `http://10.221.0.155/MMWeb/App_Pages/WOForm.aspx?wo=${workOrderNumber}&mode=Edit&tab=1`;
-    await this.page.goto(url, { waitUntil: 'networkidle2' });
-    
-    // Take a screenshot before extraction
-    await this.takeScreenshot('services_tab');
-    
-    // Wait for the services table to load
-    console.log(chalk.yellow('Waiting for services table...'));
-    
     try {
-      // Wait for the table or any td element that might contain services
-      await Promise.race([
-        this.page.waitForSelector('#ContentPlaceHolder1_pagWorkOrder_gvServInfo', { 
-          timeout: 10000,
-          visible: true 
-        }),
-        this.page.waitForSelector('td.dxgv', {
-          timeout: 10000,
-          visible: true
-        })
-      ]);
-    } catch (error) {
-      console.log(chalk.red('Services table not found'));
-      await this.takeScreenshot('services_table_not_found');
-      return []; // Return empty array if no table is found
-    }
-    
-    // Extract all service rows
-    console.log(chalk.yellow('Extracting services...'));
-    
-    // Dump page content to logs for debugging
-    const pageContent = await this.page.content();
-    console.log(chalk.gray('Page content sample: ' + pageContent.substring(0, 500) + '...'));
-    
-    // Find all service cells containing "Minutes" text
-    const services = await this.page.evaluate(() => {
-      // Try multiple strategies to find service cells
-      
-      // Strategy 1: Direct table selector
-      let serviceCells = Array.from(document.querySelectorAll('#ContentPlaceHolder1_pagWorkOrder_gvServInfo td.dxgv'));
-      
-      // Strategy 2: Any td with service-like content
-      if (serviceCells.length === 0) {
-        serviceCells = Array.from(document.querySelectorAll('td.dxgv')).filter(cell => {
-          const text = cell.textContent?.trim() || '';
-          return text.includes('Minutes') || text.includes('Minute');
-        });
-      }
-      
-      // Strategy 3: Any element with service-like content
-      if (serviceCells.length === 0) {
-        const allElements = Array.from(document.querySelectorAll('*'));
-        serviceCells = allElements.filter(el => {
-          const text = el.textContent?.trim() || '';
-          return (text.includes('Minutes') || text.includes('Minute')) && 
-                 text.includes('/') && // date indicator
-                 (text.includes('AM') || text.includes('PM')); // time indicator
+      return await this.page.evaluate(() => {
+        const records: MedimizerServiceRow[] = [];
+
+        // Get all service rows from the grid
+        const rows = document.querySelectorAll('tr.dxgvDataRow_Aqua, tr.dxgvSelectedRow_Aqua');
+
+        // Extract service IDs from DXKVInput using simple regex (not JSON parsing)
+        const serviceIdMap = new Map<number, string>();
+        const dxkvInput = document.querySelector('#ContentPlaceHolder1_pagWorkOrder_gvServInfo_DXKVInput') as HTMLInputElement;
+
+        if (dxkvInput && dxkvInput.value) {
+          // Use regex to extract service IDs: "2|Service|4586776|False|4586776|"
+          // Captures: row number (2) and service ID (4586776)
+          const servicePattern = /'(\d+)\|Service\|(\d+)\|/g;
+          let match;
+
+          while ((match = servicePattern.exec(dxkvInput.value)) !== null) {
+            serviceIdMap.set(parseInt(match[1], 10) - 1, match[2]); // Convert to 0-based index
+          }
+        }
+
+        let currentServicer = '';
+        let currentService: MedimizerServiceRow | null = null;
+        let rowIndex = 0;
+
+        rows.forEach(row => {
+          const cellText = row.querySelector('td.dxgv')?.textContent || '';
+          const rowId = row.id || '';
+
+          // Servicer rows contain "(Employee)"
+          if (cellText.includes('(Employee)')) {
+            currentServicer = cellText.replace('(Employee)', '').trim();
+            rowIndex++;
+            return;
+          }
+
+          // Service rows start with a single "-": "- 10/2/2025 9:30 AM - 30 Minutes - Verb, Noun"
+          const serviceMatch = cellText.match(/^\s*-\s+([\d/]+\s+[\d:]+\s*[APM]+)\s*-\s*(\d+)\s*Minutes\s*-\s*(.+?)\s*$/i);
+
+          if (serviceMatch) {
+            if (currentService) {
+              records.push(currentService);
+            }
+
+            currentService = {
+              rowId,
+              serviceId: serviceIdMap.get(rowIndex) || null,
+              servicer: currentServicer,
+              dateTime: serviceMatch[1].trim(),
+              minutes: parseInt(serviceMatch[2], 10),
+              description: serviceMatch[3].trim(),
+              parts: []
+            };
+            rowIndex++;
+            return;
+          }
+
+          // Part rows start with "--"
+          const partMatch = cellText.match(/^\s*--\s+(.*?)\s*$/);
+
+          if (partMatch && currentService) {
+            currentService.parts.push({ rowId, text: partMatch[1] });
+            rowIndex++;
+          }
         });
-      }
-      
-      // Extract the text content from each cell
-      return serviceCells.map(cell => cell.textContent?.trim() || '');
-    });
-    
-    console.log(chalk.green(`Found ${services.length} services`));
-    
-    // Log all raw services for debugging
-    services.forEach((service, index) => {
-      console.log(chalk.gray(`Service ${index + 1}: ${service.substring(0, 100)}...`));
-    });
-    
-    // Format each service
-    const formattedServices: string[] = [];
-    
-    for (const service of services) {
-      try {
-        const formattedService = this.formatServiceString(service);
-        if (formattedService) {
-          formattedServices.push(formattedService);
-          console.log(chalk.green(`Formatted service: ${formattedService}`));
+
+        if (currentService) {
+          records.push(currentService);
         }
-      } catch (error) {
-        console.log(chalk.yellow(`Failed to format service: ${service}`));
-      }
-    }
-    
-    console.log(chalk.green(`Formatted ${formattedServices.length} services`));
-    
-    // Take a screenshot after extraction
-    await this.takeScreenshot('services_extracted');
-    
-    return formattedServices;
-  } catch (error) {
-    await this.takeScreenshot('extract_services_failed');
-    
-    if (error instanceof Error) {
-      throw new Error(`Failed to extract services: ${error.message}`);
-    } else {
-      throw new Error('Failed to extract services: Unknown error');
+
+        return records;
+      });
+    } catch (error) {
+      throw wrapError(error, `Failed to extract service records: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
-}
 
-/**
- * Format a service string from Medimizer format to markdown format
- * Ensures exactly one comma between Verb and Noun
- * 
- * @param serviceString - Raw service string from Medimizer
- * @returns Formatted service string in markdown format
- */
-private formatServiceString(serviceString: string): string | null {
-  try {
-    // Print the raw string for debugging
-    console.log(chalk.gray(`Formatting service string: ${serviceString}`));
-    
-    // Clean up the string
-    let cleanedString = serviceString.trim();
-    
-    // Try different regex patterns to match different possible formats
-    
-    // Pattern 1: Standard format with date and time
-    let dateTimeMatch = cleanedString.match(/[^\d]*(\d{1,2}\/\d{1,2}\/\d{4})\s*(\d{1,2}:\d{2}\s*[AP]M)[^\d]*/i);
-    
-    // Pattern 2: Alternative format with just date
-    if (!dateTimeMatch) {
-      dateTimeMatch = cleanedString.match(/[^\d]*(\d{1,2}\/\d{1,2}\/\d{4})[^\d]*/i);
-      
-      if (dateTimeMatch) {
-        // Use a default time if not found
-        dateTimeMatch[2] = "12:00 PM";
-      }
-    }
-    
-    if (!dateTimeMatch) {
-      console.log(chalk.yellow('Could not find date/time in service string'));
-      return null;
-    }
-    
-    const dateStr = dateTimeMatch[1];
-    const timeStr = dateTimeMatch[2]?.trim() || "12:00 PM";
-    
-    // Parse the date into a Date object
-    let [month, day, year] = dateStr.split('/').map(num => parseInt(num));
-    
-    // Parse time
-    let hours = parseInt(timeStr.split(':')[0]);
-    const minutesMatch = timeStr.match(/:(\d{2})/);
-    const minutes = minutesMatch ? parseInt(minutesMatch[1]) : 0;
-    const isPM = timeStr.toUpperCase().includes('PM');
-    
-    if (isPM && hours < 12) hours += 12;
-    if (!isPM && hours === 12) hours = 0;
-    
-    // Format date and time in YYYY-MM-DD HH-MM format
-    const formattedDate = `${year}-${month.toString().padStart(2, '0')}-${day.toString().padStart(2, '0')}`;
-    const formattedTime = `${hours.toString().padStart(2, '0')}-${minutes.toString().padStart(2, '0')}`;
-    
-    // Parse duration - try multiple patterns
-    let duration = 0;
-    
-    // Pattern 1: XX Minutes
-    const durationMatch1 = cleanedString.match(/(\d+)\s*Minute(s)?/i);
-    if (durationMatch1) {
-      duration = parseInt(durationMatch1[1]);
-    } else {
-      // Pattern 2: (Xh Ym)
-      const durationMatch2 = cleanedString.match(/\((\d+)h\s*(\d+)m\)/i);
-      if (durationMatch2) {
-        const hours = parseInt(durationMatch2[1]) || 0;
-        const mins = parseInt(durationMatch2[2]) || 0;
-        duration = hours * 60 + mins;
-      }
-    }
-    
-    // Parse description (service name)
-    // Try multiple approaches to extract the service name
-    let description = "";
-    
-    // Approach 1: After "Minutes - "
-    const descMatch1 = cleanedString.match(/Minute(s)?\s*-\s*(.*?)(\||$)/i);
-    if (descMatch1) {
-      description = descMatch1[2].trim();
-    }
-    
-    // Approach 2: Look for a pattern where text follows a date/time and ends with a duration
-    if (!description) {
-      const parts = cleanedString.split(/\s*\|\s*/);
-      if (parts.length > 0) {
-        // Take the first part that isn't just a date/time
-        description = parts[0].replace(/\d{1,2}\/\d{1,2}\/\d{4}\s*\d{1,2}:\d{2}\s*[AP]M/, '').trim();
+  /**
+   * Import services from Medimizer for a work order
+   * 
+   * @param workOrderNumber - 7-digit work order number
+   * @returns A promise that resolves to the services with their IDs, servicers, minutes, codes and parts
+   */
+  public async importServices(workOrderNumber: string): Promise<MedimizerService[]> {
+    try {
+      // Navigate to the services tab, logging in if needed
+      await this.navigateToWorkOrder(workOrderNumber, WO_TABS.services);
+
+      if (!this.page) {
+        throw new MedimizerError('Browser page not initialized');
       }
-    }
-    
-    // Approach 3: Just use everything after the duration
-    if (!description) {
-      const afterDuration = cleanedString.split(/\d+\s*Minute(s)?/i)[1];
-      if (afterDuration) {
-        description = afterDuration.replace(/^[^a-zA-Z0-9]+/, '').trim();
+
+      // Wait for the services grid to load
+      console.log(chalk.yellow('Waiting for services table...'));
+      try {
+        await this.page.waitForSelector('#ContentPlaceHolder1_pagWorkOrder_gvServInfo', { timeout: 10000, visible: true });
+      } catch (error) {
+        console.log(chalk.red('Services table not found'));
+        await this.takeScreenshot('services_table_not_found');
+        return [];
       }
-    }
-    
-    // If we still don't have a description, use a default
-    if (!description) {
-      description = "Service";
-    }
-    
-    // Check if description has verb and noun or just verb
-    let formattedDescription: string;
-    
-    // Check if the description contains multiple commas
-    const parts = description.split(/\s*,\s*/);
-    
-    if (parts.length > 1) {
-      // We have multiple parts - use the first as Verb and the rest as Noun
-      const verb = parts[0].trim();
-      
-      // Join remaining parts with spaces instead of commas
-      const noun = parts.slice(1).join(' ').trim();
-      
-      // Format with exactly one comma
-      formattedDescription = `[${verb}, ${noun}]`;
-    } else {
-      // Just a Verb, no Noun
-      formattedDescription = `[${description}]`;
-    }
-    
-    // Combine everything into the final format
-    // Note: We don't include the duration in the markdown as it will be calculated automatically
-    return `${formattedDescription} (${formattedDate} ${formattedTime}) => (||)`;
-  } catch (error) {
-    console.log(chalk.yellow(`Error formatting service: ${serviceString}`));
-    console.log(chalk.red(error instanceof Error ? error.message : String(error)));
-    return null;
-  }
-}
 
-/**
- * Import services from Medimizer for a work order
- * 
- * @param workOrderNumber - 7-digit work order number
- * @returns A promise that resolves to an array of formatted service strings
- */
-public async importServices(workOrderNumber: string): Promise<string[]> {
-  try {
-    // Initialize browser if needed
-    await this.initialize();
-    
-    // Navigate to the work order page first to handle any login requirements
-    await this.navigateToWorkOrder(workOrderNumber, 0);
-    
-    // Extract services
-    const services = await this.extractServices(workOrderNumber);
-    
-    return services;
-  } catch (error) {
-    if (error instanceof Error) {
-      throw new Error(`Failed to import services: ${error.message}`);
-    } else {
-      throw new Error('Failed to import services: Unknown error');
+      const rows = await this.extractServiceRows();
+      console.log(chalk.green(`Found ${rows.length} services`));
+
+      // Resolve verbs and nouns against the code tables
+      const codeLookup = CodeLookup.getInstance();
+      await codeLookup.initialize(true);
+
+      const services: MedimizerService[] = [];
+      rows.forEach(row => {
+        const service = toMedimizerService(row, codeLookup);
+        if (service) {
+          services.push(service);
+        } else {
+          console.log(chalk.yellow(`Could not read the date of service: ${row.dateTime} - ${row.description}`));
+        }
+      });
+
+      await this.takeScreenshot('services_extracted');
+
+      return services;
+    } catch (error) {
+      await this.takeScreenshot('import_services_failed');
+
+      if (error instanceof Error) {
+        throw wrapError(error, `Failed to import services: ${error.message}`);
+      } else {
+        throw new Error('Failed to import services: Unknown error');
+      }
     }
   }
 }
-}
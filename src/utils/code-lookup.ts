@@ -3,6 +3,9 @@ import path from 'path';
 import { promisify } from 'util';
 import chalk from 'chalk';
 import Papa from 'papaparse';
+import { ConfigManager } from './config-manager';
+import { Workspace } from './workspace';
+import { rankMatches } from './fuzzy-match';
 
 // Convert fs.readFile to use promises
 const readFile = promisify(fs.readFile);
@@ -13,7 +16,7 @@ const readFile = promisify(fs.readFile);
 interface Verb {
   verb_keyword: string;
   verb_code: number;
-  has_noun: boolean;
+  has_noun: boolean | string;
 }
 
 /**
@@ -24,6 +27,71 @@ interface Noun {
   noun_code: number;
 }
 
+/**
+ * Alias file mapping shorthand to verb and noun keywords
+ */
+interface CodeAliases {
+  verbs?: Record<string, string>;
+  nouns?: Record<string, string>;
+}
+
+/**
+ * A verb keyword with its code
+ */
+export interface VerbMatch {
+  keyword: string;
+  code: number;
+  hasNoun: boolean;
+}
+
+/**
+ * A noun keyword with its code
+ */
+export interface NounMatch {
+  keyword: string;
+  code: number;
+}
+
+/**
+ * Path of the user's verb and noun alias file
+ *
+ * The file maps shorthand to keywords, e.g.
+ * { "verbs": { "PM": "P.M." }, "nouns": { "Batt": "Battery/Batteries" } }
+ */
+export function getCodeAliasesPath(): string {
+  return path.join(Workspace.getInstance().getDataDir(), 'code-aliases.json');
+}
+
+/**
+ * Write lookup suggestions to add to the end of an error message
+ *
+ * @param suggestions - Keywords from suggestVerbs or suggestNouns
+ * @returns e.g. '; did you mean "Replaced" or "Repaired"?', or '' without suggestions
+ */
+export function formatSuggestions(suggestions: string[]): string {
+  if (suggestions.length === 0) {
+    return '';
+  }
+  const quoted = suggestions.map(suggestion => `"${suggestion}"`);
+  const list = quoted.length === 1
+    ? quoted[0]
+    : `${quoted.slice(0, -1).join(', ')} or ${quoted[quoted.length - 1]}`;
+  return `; did you mean ${list}?`;
+}
+
+/**
+ * Directory holding verbs.csv and nouns.csv
+ *
+ * Falls back to the tables shipped with the application when the workspace has none.
+ */
+export function getTablesDir(): string {
+  const tablesDir = ConfigManager.getInstance().resolvePath('paths.tables');
+  if (fs.existsSync(path.join(tablesDir, 'verbs.csv'))) {
+    return tablesDir;
+  }
+  return path.join(__dirname, '..', '..', 'tables');
+}
+
 /**
  * Class for loading and caching verbs and nouns from CSV files
  */
@@ -31,6 +99,8 @@ export class CodeLookup {
   private static instance: CodeLookup;
   private verbs: Map<string, { code: number, hasNoun: boolean }> = new Map();
   private nouns: Map<string, number> = new Map();
+  private verbAliases: Map<string, string> = new Map();  // Lower-case alias or keyword -> keyword
+  private nounAliases: Map<string, string> = new Map();
   private initialized: boolean = false;
 
   /**
@@ -50,15 +120,18 @@ export class CodeLookup {
 
   /**
    * Initialize the lookup by loading CSV files
+   *
+   * @param quiet - Skip the progress messages, e.g. while completing at the prompt
    */
-  public async initialize(): Promise<void> {
+  public async initialize(quiet: boolean = false): Promise<void> {
     if (this.initialized) {
       return;
     }
 
     try {
       // Load verbs CSV
-      const verbsPath = path.join(process.cwd(), 'tables', 'verbs.csv');
+      const tablesDir = getTablesDir();
+      const verbsPath = path.join(tablesDir, 'verbs.csv');
       const verbsData = await readFile(verbsPath, 'utf8');
       
       // Parse verbs CSV
@@ -73,15 +146,18 @@ export class CodeLookup {
         if (verb.verb_keyword && verb.verb_code !== undefined) {
           this.verbs.set(verb.verb_keyword.trim(), {
             code: verb.verb_code,
-            hasNoun: !!verb.has_noun
+            // The table writes True/False, which dynamicTyping leaves as strings
+            hasNoun: String(verb.has_noun).toLowerCase() === 'true'
           });
         }
       });
 
-      console.log(chalk.green(`Loaded ${this.verbs.size} verbs from CSV`));
+      if (!quiet) {
+        console.log(chalk.green(`Loaded ${this.verbs.size} verbs from CSV`));
+      }
 
       // Load nouns CSV
-      const nounsPath = path.join(process.cwd(), 'tables', 'nouns.csv');
+      const nounsPath = path.join(tablesDir, 'nouns.csv');
       const nounsData = await readFile(nounsPath, 'utf8');
       
       // Parse nouns CSV
@@ -98,11 +174,17 @@ export class CodeLookup {
         }
       });
 
-      console.log(chalk.green(`Loaded ${this.nouns.size} nouns from CSV`));
+      if (!quiet) {
+        console.log(chalk.green(`Loaded ${this.nouns.size} nouns from CSV`));
+      }
+
+      this.loadAliases(quiet);
 
       this.initialized = true;
     } catch (error) {
-      console.error(chalk.red('Error loading CSV files:'), error);
+      if (!quiet) {
+        console.error(chalk.red('Error loading CSV files:'), error);
+      }
       throw new Error('Failed to load verb and noun codes');
     }
   }
@@ -110,23 +192,101 @@ export class CodeLookup {
   /**
    * Find a verb code by keyword
    * 
-   * @param verbKeyword - The verb keyword to look up
+   * @param verbKeyword - The verb keyword to look up, in any case, or an alias
    * @returns An object containing the verb code and whether it has a noun, or null if not found
    */
   public findVerb(verbKeyword: string): { code: number, hasNoun: boolean } | null {
-    const verb = this.verbs.get(verbKeyword.trim());
-    return verb || null;
+    const verb = this.resolveVerb(verbKeyword);
+    return verb ? { code: verb.code, hasNoun: verb.hasNoun } : null;
   }
 
   /**
    * Find a noun code by keyword
    * 
-   * @param nounKeyword - The noun keyword to look up
+   * @param nounKeyword - The noun keyword to look up, in any case, or an alias
    * @returns The noun code, or null if not found
    */
   public findNoun(nounKeyword: string): number | null {
-    const code = this.nouns.get(nounKeyword.trim());
-    return code !== undefined ? code : null;
+    const noun = this.resolveNoun(nounKeyword);
+    return noun ? noun.code : null;
+  }
+
+  /**
+   * Find a verb by keyword, matching exactly first, then ignoring case, then by alias
+   * 
+   * @param text - Verb as written
+   * @returns The verb keyword and code, or null if not found
+   */
+  public resolveVerb(text: string): VerbMatch | null {
+    const keyword = this.verbs.has(text.trim()) ? text.trim() : this.verbAliases.get(text.trim().toLowerCase());
+    const verb = keyword !== undefined ? this.verbs.get(keyword) : undefined;
+    return verb ? { keyword: keyword!, code: verb.code, hasNoun: verb.hasNoun } : null;
+  }
+
+  /**
+   * Find a noun by keyword, matching exactly first, then ignoring case, then by alias
+   * 
+   * @param text - Noun as written
+   * @returns The noun keyword and code, or null if not found
+   */
+  public resolveNoun(text: string): NounMatch | null {
+    const keyword = this.nouns.has(text.trim()) ? text.trim() : this.nounAliases.get(text.trim().toLowerCase());
+    const code = keyword !== undefined ? this.nouns.get(keyword) : undefined;
+    return code !== undefined ? { keyword: keyword!, code } : null;
+  }
+
+  /**
+   * Suggest verb keywords close to some text
+   * 
+   * @param text - Verb as written
+   * @param limit - Maximum number of suggestions
+   * @returns The closest keywords, best first
+   */
+  public suggestVerbs(text: string, limit: number = 3): string[] {
+    return this.suggest(text, this.getAllVerbKeywords(), this.verbAliases, limit);
+  }
+
+  /**
+   * Suggest noun keywords close to some text
+   * 
+   * @param text - Noun as written
+   * @param limit - Maximum number of suggestions
+   * @returns The closest keywords, best first
+   */
+  public suggestNouns(text: string, limit: number = 3): string[] {
+    return this.suggest(text, this.getAllNounKeywords(), this.nounAliases, limit);
+  }
+
+  /**
+   * Get every verb with its code, in table order
+   * 
+   * @returns The verbs
+   */
+  public getVerbs(): VerbMatch[] {
+    return Array.from(this.verbs.entries()).map(([keyword, verb]) => ({ keyword, code: verb.code, hasNoun: verb.hasNoun }));
+  }
+
+  /**
+   * Get every noun with its code, in table order
+   * 
+   * @returns The nouns
+   */
+  public getNouns(): NounMatch[] {
+    return Array.from(this.nouns.entries()).map(([keyword, code]) => ({ keyword, code }));
+  }
+
+  /**
+   * Get the aliases from the alias file that point at a keyword
+   * 
+   * @param kind - Table the keyword is from
+   * @param keyword - Verb or noun keyword
+   * @returns The aliases, lower-cased
+   */
+  public getAliasesFor(kind: 'verb' | 'noun', keyword: string): string[] {
+    const aliases = kind === 'verb' ? this.verbAliases : this.nounAliases;
+    return Array.from(aliases.entries())
+      .filter(([alias, target]) => target === keyword && alias !== keyword.toLowerCase())
+      .map(([alias]) => alias);
   }
 
   /**
@@ -146,4 +306,65 @@ export class CodeLookup {
   public getAllNounKeywords(): string[] {
     return Array.from(this.nouns.keys());
   }
-}
\ No newline at end of file
+
+  /**
+   * Rank keywords, and the aliases pointing at them, against some text
+   * 
+   * @param text - Text as written
+   * @param keywords - Keywords of one table
+   * @param aliases - Aliases of the same table
+   * @param limit - Maximum number of suggestions
+   */
+  private suggest(text: string, keywords: string[], aliases: Map<string, string>, limit: number): string[] {
+    const aliasNames = Array.from(aliases.keys()).filter(alias => !keywords.some(keyword => keyword.toLowerCase() === alias));
+    const ranked = rankMatches(text.trim(), [...keywords, ...aliasNames], keywords.length + aliasNames.length);
+
+    const suggestions: string[] = [];
+    for (const match of ranked) {
+      const keyword = aliases.get(match) || match;
+      if (!suggestions.includes(keyword)) {
+        suggestions.push(keyword);
+      }
+    }
+    return suggestions.slice(0, limit);
+  }
+
+  /**
+   * Index keywords by lower case and load the user's alias file
+   * 
+   * @param quiet - Skip the warnings for aliases of unknown keywords
+   */
+  private loadAliases(quiet: boolean): void {
+    this.verbAliases.clear();
+    this.nounAliases.clear();
+
+    this.verbs.forEach((_, keyword) => this.verbAliases.set(keyword.toLowerCase(), keyword));
+    this.nouns.forEach((_, keyword) => this.nounAliases.set(keyword.toLowerCase(), keyword));
+
+    const aliasesPath = getCodeAliasesPath();
+    if (!fs.existsSync(aliasesPath)) {
+      return;
+    }
+
+    try {
+      const aliases: CodeAliases = JSON.parse(fs.readFileSync(aliasesPath, 'utf8'));
+      const add = (entries: Record<string, string> | undefined, index: Map<string, string>, resolve: (text: string) => { keyword: string } | null, kind: string) => {
+        Object.entries(entries || {}).forEach(([alias, target]) => {
+          const match = resolve(String(target));
+          if (match) {
+            index.set(alias.trim().toLowerCase(), match.keyword);
+          } else if (!quiet) {
+            console.log(chalk.yellow(`Ignoring ${kind} alias "${alias}": "${target}" is not a ${kind} keyword`));
+          }
+        });
+      };
+
+      add(aliases.verbs, this.verbAliases, text => this.resolveVerb(text), 'verb');
+      add(aliases.nouns, this.nounAliases, text => this.resolveNoun(text), 'noun');
+    } catch (error) {
+      if (!quiet) {
+        console.error(chalk.red('Error loading code aliases:'), error);
+      }
+    }
+  }
+}
@@ -0,0 +1,114 @@
+import fs from 'fs';
+import path from 'path';
+import chalk from 'chalk';
+import { ConfigManager } from './config-manager';
+import { Workspace } from './workspace';
+
+/**
+ * Class for keeping REPL command history across sessions
+ *
+ * History is stored oldest first, one command per line, in the workspace data directory.
+ */
+export class CommandHistory {
+  private static instance: CommandHistory;
+  private historyFile: string;
+  private entries: string[] = [];
+  private loaded: boolean = false;
+
+  /**
+   * Private constructor to enforce singleton pattern
+   */
+  private constructor() {
+    // Set the path to the history file
+    this.historyFile = path.join(Workspace.getInstance().getDataDir(), 'history');
+  }
+
+  /**
+   * Get the singleton instance
+   */
+  public static getInstance(): CommandHistory {
+    if (!CommandHistory.instance) {
+      CommandHistory.instance = new CommandHistory();
+    }
+    return CommandHistory.instance;
+  }
+
+  /**
+   * Get the path of the history file
+   */
+  public getHistoryFilePath(): string {
+    return this.historyFile;
+  }
+
+  /**
+   * Get the maximum number of entries kept
+   */
+  public getMaxSize(): number {
+    const size = ConfigManager.getInstance().getNumber('repl.historySize');
+    return size > 0 ? Math.floor(size) : 0;
+  }
+
+  /**
+   * Load the history from the file
+   */
+  public load(): void {
+    this.entries = [];
+    this.loaded = true;
+
+    if (!fs.existsSync(this.historyFile)) {
+      return;
+    }
+
+    try {
+      const maxSize = this.getMaxSize();
+      const lines = fs.readFileSync(this.historyFile, 'utf8')
+        .split('\n')
+        .filter(line => line.trim() !== '');
+      this.entries = maxSize > 0 ? lines.slice(-maxSize) : [];
+    } catch (error) {
+      console.error(chalk.yellow(`Could not read ${this.historyFile}, starting with empty history`));
+      this.entries = [];
+    }
+  }
+
+  /**
+   * Get the history, newest first, as readline expects it
+   */
+  public getEntries(): string[] {
+    if (!this.loaded) {
+      this.load();
+    }
+    return [...this.entries].reverse();
+  }
+
+  /**
+   * Record a command and save the history
+   *
+   * Repeats of the previous command are not recorded twice.
+   *
+   * @param line - Command line as entered
+   */
+  public add(line: string): void {
+    if (!this.loaded) {
+      this.load();
+    }
+
+    const trimmed = line.trim();
+    const maxSize = this.getMaxSize();
+    if (!trimmed || maxSize === 0 || this.entries[this.entries.length - 1] === trimmed) {
+      return;
+    }
+
+    this.entries.push(trimmed);
+    if (this.entries.length > maxSize) {
+      this.entries = this.entries.slice(-maxSize);
+    }
+
+    try {
+      fs.writeFileSync(this.historyFile, this.entries.join('\n') + '\n');
+    } catch (error) {
+      // Losing history is not worth interrupting the session for
+      console.error(chalk.yellow(`Could not save history to ${this.historyFile}`));
+    }
+  }
+}
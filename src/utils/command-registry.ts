@@ -0,0 +1,467 @@
+import chalk from 'chalk';
+import { ValidationError, UsageError } from './errors';
+import { parseArguments, tokenize, findUnquoted } from './tokenizer';
+
+/**
+ * Type of a positional argument, used for validation and conversion
+ */
+export type ArgType = 'string' | 'workOrder' | 'integer' | 'number' | 'verb' | 'noun' | 'command';
+
+/**
+ * Type of a flag value
+ */
+export type FlagType = 'boolean' | 'string' | 'number';
+
+/**
+ * Schema entry for a positional argument
+ */
+export interface ArgDefinition {
+  name: string;             // Name shown in usage and used as the key in CommandContext.args
+  type: ArgType;
+  description: string;
+  required?: boolean;       // Defaults to true
+  rest?: boolean;           // Collects all remaining positional arguments into one space-separated value
+  list?: boolean;           // With rest, collects them into an array instead
+  default?: string | number;
+}
+
+/**
+ * Schema entry for a flag
+ */
+export interface FlagDefinition {
+  name: string;             // Long name without dashes, e.g. "dry-run"
+  alias?: string;           // Single-letter short form, e.g. "d"
+  type: FlagType;
+  description: string;
+}
+
+/**
+ * Hooks into the session running a command
+ */
+export interface CommandSession {
+  exit(): void;
+  clearScreen(): void;
+  execute(commandLine: string): Promise<unknown>;   // Runs a line through normal dispatch; resolves to its error or null
+}
+
+/**
+ * Parsed input passed to a command handler
+ */
+export interface CommandContext {
+  args: Record<string, any>;
+  flags: Record<string, any>;
+  session: CommandSession;
+}
+
+/**
+ * Declarative definition of a command
+ */
+export interface CommandDefinition {
+  name: string;
+  aliases?: string[];
+  group?: string;           // Heading the command is listed under in help
+  description: string;
+  args?: ArgDefinition[];
+  flags?: FlagDefinition[];
+  examples?: string[];
+  subcommands?: CommandDefinition[];
+  passThrough?: boolean;    // Hand every token after the name to the first arg as an array, flags included
+  rawTail?: string;         // Marker, e.g. "=>", after which the line reaches the last arg as typed
+  handler?: (context: CommandContext) => Promise<string | void>;
+}
+
+/**
+ * A command line resolved to the definition that handles it
+ */
+export interface ResolvedCommand {
+  definition: CommandDefinition;
+  path: string[];           // Command and subcommand names, e.g. ["config", "set"]
+  rest: string[];           // Remaining tokens after the command path
+}
+
+/**
+ * Class that holds every command definition and generates dispatch, validation and help from them
+ */
+export class CommandRegistry {
+  private static instance: CommandRegistry;
+  private commands: CommandDefinition[] = [];
+
+  /**
+   * Private constructor to enforce singleton pattern
+   */
+  private constructor() {}
+
+  /**
+   * Get the singleton instance
+   */
+  public static getInstance(): CommandRegistry {
+    if (!CommandRegistry.instance) {
+      CommandRegistry.instance = new CommandRegistry();
+    }
+    return CommandRegistry.instance;
+  }
+
+  /**
+   * Register a command
+   *
+   * @param definition - Command definition
+   */
+  public register(definition: CommandDefinition): void {
+    const names = [definition.name, ...(definition.aliases || [])];
+    names.forEach(name => {
+      if (this.find(name)) {
+        throw new Error(`Command "${name}" is already registered`);
+      }
+    });
+
+    this.commands.push(definition);
+  }
+
+  /**
+   * Remove a command
+   *
+   * @param name - Command name
+   * @returns True if a command was removed
+   */
+  public unregister(name: string): boolean {
+    const count = this.commands.length;
+    this.commands = this.commands.filter(command => command.name !== name.toLowerCase());
+    return this.commands.length !== count;
+  }
+
+  /**
+   * Get all registered commands in registration order
+   */
+  public getCommands(): CommandDefinition[] {
+    return this.commands;
+  }
+
+  /**
+   * Find a command by name or alias
+   *
+   * @param name - Command name or alias
+   */
+  public find(name: string): CommandDefinition | undefined {
+    const lower = name.toLowerCase();
+    return this.commands.find(command =>
+      command.name === lower || (command.aliases || []).includes(lower)
+    );
+  }
+
+  /**
+   * Split a command line into tokens for dispatch
+   *
+   * For a command with a raw tail, everything from the marker on is kept as typed in one
+   * token, so quotes, dashes and spacing in free text are not read as shell syntax.
+   *
+   * @param commandLine - Command line as typed
+   * @returns The tokens
+   * @throws ValidationError if a quote before the marker is left open
+   */
+  public tokenizeLine(commandLine: string): string[] {
+    const definition = this.find(commandLine.trim().split(/\s+/)[0]);
+    const markerIndex = definition && definition.rawTail ? findUnquoted(commandLine, definition.rawTail) : -1;
+
+    if (markerIndex < 0) {
+      return tokenize(commandLine);
+    }
+    return [...tokenize(commandLine.slice(0, markerIndex)), commandLine.slice(markerIndex).trim()];
+  }
+
+  /**
+   * Resolve the tokens of a command line to a command or subcommand
+   *
+   * @param words - Command line tokens from tokenize()
+   * @returns The resolved command
+   * @throws ValidationError if the command is unknown
+   */
+  public resolve(words: string[]): ResolvedCommand {
+    const definition = this.find(words[0]);
+    if (!definition) {
+      throw new ValidationError(`Unknown command: ${words[0]}`);
+    }
+
+    let resolved: ResolvedCommand = { definition, path: [definition.name], rest: words.slice(1) };
+
+    // Descend into subcommands while the next word names one
+    while (resolved.definition.subcommands && resolved.rest.length > 0) {
+      const next = resolved.rest[0].toLowerCase();
+      const sub = resolved.definition.subcommands.find(command =>
+        command.name === next || (command.aliases || []).includes(next)
+      );
+      if (!sub) break;
+
+      resolved = { definition: sub, path: [...resolved.path, sub.name], rest: resolved.rest.slice(1) };
+    }
+
+    return resolved;
+  }
+
+  /**
+   * Validate and convert the arguments and flags of a resolved command
+   *
+   * @param resolved - Resolved command
+   * @returns Parsed arguments and flags keyed by name
+   * @throws UsageError if the input does not match the schema
+   */
+  public parseInput(resolved: ResolvedCommand): { args: Record<string, any>; flags: Record<string, any> } {
+    const { definition } = resolved;
+    const usage = this.formatUsage(resolved.path, definition);
+    const flagDefs = definition.flags || [];
+    const flags: Record<string, any> = {};
+
+    if (definition.passThrough && definition.handler) {
+      const argName = definition.args && definition.args.length > 0 ? definition.args[0].name : 'args';
+      return { args: { [argName]: resolved.rest }, flags };
+    }
+
+    // Flags that take a value may consume the following token
+    const valueFlags: string[] = [];
+    flagDefs
+      .filter(flag => flag.type !== 'boolean')
+      .forEach(flag => valueFlags.push(flag.name, ...(flag.alias ? [flag.alias] : [])));
+
+    // Only the words before a raw tail can hold flags
+    const tailIndex = definition.rawTail ? resolved.rest.findIndex(word => word.includes(definition.rawTail!)) : -1;
+    const words = tailIndex >= 0 ? resolved.rest.slice(0, tailIndex) : resolved.rest;
+    const { positionals, flags: parsedFlags } = parseArguments(words, valueFlags);
+    if (tailIndex >= 0) {
+      positionals.push(resolved.rest.slice(tailIndex).join(' '));
+    }
+
+    parsedFlags.forEach(parsed => {
+      const flagDef = flagDefs.find(flag => parsed.long ? flag.name === parsed.name : flag.alias === parsed.name);
+
+      if (!flagDef) {
+        throw new UsageError(`Unknown option: ${parsed.raw}`, usage);
+      }
+
+      flags[flagDef.name] = convertFlag(flagDef, parsed.value, usage);
+    });
+
+    if (!definition.handler) {
+      const choices = (definition.subcommands || []).map(command => command.name).join(', ');
+      throw new UsageError(`Subcommand required: ${choices}`, usage);
+    }
+
+    // Match positional words against the argument schema
+    const args: Record<string, any> = {};
+    const argDefs = definition.args || [];
+
+    argDefs.forEach((argDef, index) => {
+      if (argDef.rest && argDef.list) {
+        args[argDef.name] = positionals.slice(index).map(raw => convertArg(argDef, raw, usage));
+        return;
+      }
+
+      const raw = argDef.rest ? positionals.slice(index).join(' ') : positionals[index];
+
+      if (raw === undefined || raw === '') {
+        if (argDef.required !== false) {
+          throw new UsageError(`Missing required argument: <${argDef.name}>`, usage);
+        }
+        args[argDef.name] = argDef.default;
+        return;
+      }
+
+      args[argDef.name] = convertArg(argDef, raw, usage);
+    });
+
+    const maxPositionals = argDefs.some(argDef => argDef.rest) ? Infinity : argDefs.length;
+    if (positionals.length > maxPositionals) {
+      throw new UsageError(`Unexpected argument: ${positionals[maxPositionals]}`, usage);
+    }
+
+    return { args, flags };
+  }
+
+  /**
+   * Format the usage line of a command
+   *
+   * @param path - Command and subcommand names
+   * @param definition - Command definition
+   */
+  public formatUsage(path: string[], definition: CommandDefinition): string {
+    const parts = [...path];
+
+    if (!definition.handler && definition.subcommands) {
+      parts.push(`<${definition.subcommands.map(command => command.name).join('|')}>`);
+    }
+
+    (definition.args || []).forEach(argDef => {
+      const label = argDef.rest ? `${argDef.name}...` : argDef.name;
+      parts.push(argDef.required === false ? `[${label}]` : `<${label}>`);
+    });
+
+    (definition.flags || []).forEach(flag => {
+      const value = flag.type === 'boolean' ? '' : `=<${flag.type}>`;
+      parts.push(`[--${flag.name}${value}]`);
+    });
+
+    return parts.join(' ');
+  }
+
+  /**
+   * Generate the full help listing, grouped by command group
+   */
+  public formatHelp(): string {
+    let result = chalk.yellow('Available commands:') + '\n';
+    const groups: string[] = [];
+
+    this.commands.forEach(command => {
+      const group = command.group || 'General Commands';
+      if (!groups.includes(group)) groups.push(group);
+    });
+
+    groups.forEach(group => {
+      result += chalk.green(`\n${group}:`) + '\n';
+
+      this.commands
+        .filter(command => (command.group || 'General Commands') === group)
+        .forEach(command => {
+          result += this.formatHelpLines([command.name], command, command.aliases || []);
+        });
+    });
+
+    result += chalk.gray('\nType "help <command>" for details and examples.');
+    return result;
+  }
+
+  /**
+   * Generate detailed help for a single command
+   *
+   * @param words - Command name or alias, optionally followed by subcommand names
+   */
+  public formatCommandHelp(words: string[]): string {
+    const resolved = this.resolve(words);
+    const { definition } = resolved;
+
+    let result = chalk.yellow(this.formatUsage(resolved.path, definition)) + '\n\n';
+    result += `${definition.description}\n`;
+
+    if (definition.aliases && definition.aliases.length > 0) {
+      result += `\n${chalk.green('Aliases:')} ${definition.aliases.join(', ')}\n`;
+    }
+
+    if (definition.args && definition.args.length > 0) {
+      result += `\n${chalk.green('Arguments:')}\n`;
+      definition.args.forEach(argDef => {
+        const optional = argDef.required === false ? ' (optional)' : '';
+        result += `  ${chalk.cyan(argDef.name.padEnd(16))} ${argDef.description}${optional}\n`;
+      });
+    }
+
+    if (definition.flags && definition.flags.length > 0) {
+      result += `\n${chalk.green('Options:')}\n`;
+      definition.flags.forEach(flag => {
+        const label = flag.alias ? `-${flag.alias}, --${flag.name}` : `--${flag.name}`;
+        result += `  ${chalk.cyan(label.padEnd(16))} ${flag.description}\n`;
+      });
+    }
+
+    if (definition.subcommands && definition.subcommands.length > 0) {
+      result += `\n${chalk.green('Subcommands:')}\n`;
+      definition.subcommands.forEach(sub => {
+        result += `  ${chalk.cyan(this.formatUsage([...resolved.path, sub.name], sub))} - ${sub.description}\n`;
+      });
+    }
+
+    if (definition.examples && definition.examples.length > 0) {
+      result += `\n${chalk.green('Examples:')}\n`;
+      definition.examples.forEach(example => {
+        result += `  ${example}\n`;
+      });
+    }
+
+    return result.trimEnd();
+  }
+
+  /**
+   * Format the help listing lines for a command and its subcommands
+   *
+   * @param path - Command and subcommand names
+   * @param definition - Command definition
+   * @param aliases - Aliases shown next to the name
+   */
+  private formatHelpLines(path: string[], definition: CommandDefinition, aliases: string[]): string {
+    let result = '';
+
+    if (definition.handler) {
+      const usage = this.formatUsage(path, definition);
+      const label = aliases.length > 0 ? `${usage} (${aliases.join(', ')})` : usage;
+      result += chalk.cyan(`  ${label}`) + ` - ${definition.description}\n`;
+    }
+
+    (definition.subcommands || []).forEach(sub => {
+      result += this.formatHelpLines([...path, sub.name], sub, []);
+    });
+
+    return result;
+  }
+}
+
+/**
+ * Convert and validate a positional argument
+ *
+ * @param argDef - Argument schema
+ * @param raw - Raw word from the command line
+ * @param usage - Usage line for error messages
+ */
+function convertArg(argDef: ArgDefinition, raw: string, usage: string): string | number {
+  switch (argDef.type) {
+    case 'workOrder':
+      if (!/^\d{7}$/.test(raw)) {
+        throw new UsageError(`Invalid work order number: ${raw}. Must be 7 digits.`, usage);
+      }
+      return raw;
+
+    case 'integer': {
+      const value = parseInt(raw, 10);
+      if (isNaN(value) || !/^-?\d+$/.test(raw)) {
+        throw new UsageError(`<${argDef.name}> must be a whole number`, usage);
+      }
+      return value;
+    }
+
+    case 'number': {
+      const value = parseFloat(raw);
+      if (isNaN(value)) {
+        throw new UsageError(`<${argDef.name}> must be a number`, usage);
+      }
+      return value;
+    }
+
+    default:
+      return raw;
+  }
+}
+
+/**
+ * Convert and validate a flag value
+ *
+ * @param flagDef - Flag schema
+ * @param raw - Value after "=" or the following token, if any
+ * @param usage - Usage line for error messages
+ */
+function convertFlag(flagDef: FlagDefinition, raw: string | undefined, usage: string): boolean | string | number {
+  if (flagDef.type === 'boolean') {
+    if (raw === undefined) return true;
+    if (['true', 'yes', '1'].includes(raw.toLowerCase())) return true;
+    if (['false', 'no', '0'].includes(raw.toLowerCase())) return false;
+    throw new UsageError(`--${flagDef.name} must be true or false`, usage);
+  }
+
+  if (raw === undefined || raw === '') {
+    throw new UsageError(`--${flagDef.name} requires a value`, usage);
+  }
+
+  if (flagDef.type === 'number') {
+    const value = parseFloat(raw);
+    if (isNaN(value)) {
+      throw new UsageError(`--${flagDef.name} must be a number`, usage);
+    }
+    return value;
+  }
+
+  return raw;
+}
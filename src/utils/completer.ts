@@ -0,0 +1,132 @@
+import { CommandRegistry, CommandDefinition, ArgType } from './command-registry';
+import { CodeLookup } from './code-lookup';
+import { WorkDatabase } from '../database';
+import { tokenizePartial, parseArguments, quoteToken } from './tokenizer';
+
+/**
+ * Result of a completion: the candidates and the text they replace, as readline expects
+ */
+export type CompletionResult = [string[], string];
+
+/**
+ * Complete the word under the cursor based on the command's argument schema
+ *
+ * Completes command and subcommand names, flags, and for positional arguments
+ * work order numbers from the database and verb and noun keywords from the code tables.
+ *
+ * @param line - Command line up to the cursor
+ * @param registry - Registry holding the command definitions
+ * @returns The matching candidates and the text they replace
+ */
+export async function completeLine(line: string, registry: CommandRegistry): Promise<CompletionResult> {
+  const { tokens, word, rawWord } = tokenizePartial(line);
+
+  // First word: command names and aliases
+  if (tokens.length === 0) {
+    const names: string[] = [];
+    registry.getCommands().forEach(command => names.push(command.name, ...(command.aliases || [])));
+    return [filterCandidates(names, word), rawWord];
+  }
+
+  if (!registry.find(tokens[0])) {
+    return [[], rawWord];
+  }
+
+  const resolved = registry.resolve(tokens);
+  const { definition } = resolved;
+  const flagDefs = definition.flags || [];
+  const valueFlags: string[] = [];
+  flagDefs
+    .filter(flag => flag.type !== 'boolean')
+    .forEach(flag => valueFlags.push(flag.name, ...(flag.alias ? [flag.alias] : [])));
+
+  const parsed = parseArguments(resolved.rest, valueFlags);
+  const previous = resolved.rest[resolved.rest.length - 1];
+
+  // A flag waiting for its value: nothing sensible to offer
+  if (previous && valueFlags.some(name => previous === `--${name}` || previous === `-${name}`)) {
+    return [[], rawWord];
+  }
+
+  if (word.startsWith('-') && !resolved.rest.includes('--')) {
+    return [filterCandidates(flagDefs.map(flag => `--${flag.name}`), word), rawWord];
+  }
+
+  const candidates: string[] = [];
+
+  // Subcommand names are only valid straight after the command path
+  if (definition.subcommands && resolved.rest.length === 0) {
+    candidates.push(...definition.subcommands.map(command => command.name));
+  }
+
+  const argType = findArgType(definition, parsed.positionals.length);
+  if (argType) {
+    candidates.push(...await getArgCandidates(argType, registry));
+  }
+
+  return [filterCandidates(candidates, word).map(quoteToken), rawWord];
+}
+
+/**
+ * Find the type of the positional argument at an index
+ *
+ * @param definition - Command definition
+ * @param index - Zero-based positional index
+ */
+function findArgType(definition: CommandDefinition, index: number): ArgType | undefined {
+  const argDefs = definition.args || [];
+  if (index < argDefs.length) {
+    return argDefs[index].type;
+  }
+
+  const last = argDefs[argDefs.length - 1];
+  return last && last.rest ? last.type : undefined;
+}
+
+/**
+ * Get the completion candidates for an argument type
+ *
+ * @param type - Argument type
+ * @param registry - Registry holding the command definitions
+ */
+async function getArgCandidates(type: ArgType, registry: CommandRegistry): Promise<string[]> {
+  try {
+    switch (type) {
+      case 'command':
+        return registry.getCommands().map(command => command.name);
+
+      case 'workOrder':
+        return await WorkDatabase.getInstance().getWorkOrderNumbers();
+
+      case 'verb': {
+        const codeLookup = CodeLookup.getInstance();
+        await codeLookup.initialize(true);
+        return codeLookup.getAllVerbKeywords();
+      }
+
+      case 'noun': {
+        const codeLookup = CodeLookup.getInstance();
+        await codeLookup.initialize(true);
+        return codeLookup.getAllNounKeywords();
+      }
+
+      default:
+        return [];
+    }
+  } catch (error) {
+    // Completion must never break the prompt
+    return [];
+  }
+}
+
+/**
+ * Keep the candidates that start with the typed word, ignoring case
+ *
+ * @param candidates - Possible values
+ * @param word - Word typed so far
+ */
+function filterCandidates(candidates: string[], word: string): string[] {
+  const lower = word.toLowerCase();
+  const matches = candidates.filter(candidate => candidate.toLowerCase().startsWith(lower));
+  return Array.from(new Set(matches)).sort();
+}
@@ -0,0 +1,442 @@
+import fs from 'fs';
+import path from 'path';
+import chalk from 'chalk';
+import { ProfileManager } from './profile-manager';
+import { Workspace } from './workspace';
+import { ValidationError } from './errors';
+
+/**
+ * Type of value a configuration setting holds
+ */
+export type ConfigValueType = 'string' | 'boolean' | 'number' | 'enum';
+
+/**
+ * A resolved configuration value
+ */
+export type ConfigValue = string | number | boolean;
+
+/**
+ * Where the effective value of a setting came from
+ */
+export type ConfigSource = 'default' | 'file' | 'env';
+
+/**
+ * Schema entry describing a single configuration setting
+ */
+export interface ConfigSetting {
+  key: string;              // Dotted key, e.g. "browser.headless"
+  type: ConfigValueType;    // Value type used for validation
+  default: ConfigValue;     // Built-in default value
+  env: string;              // Environment variable that overrides the file value
+  description: string;     // Human readable description
+  choices?: string[];       // Allowed values for enum settings
+}
+
+/**
+ * An effective configuration value along with its source
+ */
+export interface ConfigEntry {
+  setting: ConfigSetting;
+  value: ConfigValue;
+  source: ConfigSource;
+}
+
+/**
+ * Schema of every supported setting, in display order
+ */
+export const CONFIG_SCHEMA: ConfigSetting[] = [
+  {
+    key: 'medimizer.environment',
+    type: 'string',
+    default: 'prod',
+    env: 'CE_CLI_MEDIMIZER_ENV',
+    description: 'Medimizer environment profile (see the env command)'
+  },
+  {
+    key: 'browser.headless',
+    type: 'boolean',
+    default: false,
+    env: 'CE_CLI_HEADLESS',
+    description: 'Run the automation browser without a visible window'
+  },
+  {
+    key: 'editor.command',
+    type: 'string',
+    default: 'nvim',
+    env: 'CE_CLI_EDITOR',
+    description: 'Editor used to open notes and journal logs'
+  },
+  {
+    key: 'paths.workOrders',
+    type: 'string',
+    default: 'work_orders',
+    env: 'CE_CLI_WORK_ORDERS_DIR',
+    description: 'Directory holding work order folders and notes'
+  },
+  {
+    key: 'paths.journal',
+    type: 'string',
+    default: 'journal',
+    env: 'CE_CLI_JOURNAL_DIR',
+    description: 'Directory holding journal logs'
+  },
+  {
+    key: 'paths.logs',
+    type: 'string',
+    default: 'logs',
+    env: 'CE_CLI_LOGS_DIR',
+    description: 'Directory for browser screenshots'
+  },
+  {
+    key: 'paths.tables',
+    type: 'string',
+    default: 'tables',
+    env: 'CE_CLI_TABLES_DIR',
+    description: 'Directory holding verbs.csv and nouns.csv'
+  },
+  {
+    key: 'paths.templates',
+    type: 'string',
+    default: 'templates',
+    env: 'CE_CLI_TEMPLATES_DIR',
+    description: 'Directory holding notes templates used by init --template'
+  },
+  {
+    key: 'repl.historySize',
+    type: 'number',
+    default: 1000,
+    env: 'CE_CLI_HISTORY_SIZE',
+    description: 'Number of REPL commands kept in the history file'
+  }
+];
+
+/**
+ * Class for loading, validating and saving layered configuration
+ *
+ * Values are resolved in order: built-in default, config file, environment variable.
+ */
+export class ConfigManager {
+  private static instance: ConfigManager;
+  private configFile: string;
+  private fileValues: Record<string, ConfigValue> = {};
+  private loaded: boolean = false;
+
+  /**
+   * Private constructor to enforce singleton pattern
+   */
+  private constructor() {
+    // Set the path to the config file
+    this.configFile = path.join(Workspace.getInstance().getDataDir(), 'config.json');
+  }
+
+  /**
+   * Get the singleton instance
+   */
+  public static getInstance(): ConfigManager {
+    if (!ConfigManager.instance) {
+      ConfigManager.instance = new ConfigManager();
+    }
+    return ConfigManager.instance;
+  }
+
+  /**
+   * Get the path of the config file
+   */
+  public getConfigFilePath(): string {
+    return this.configFile;
+  }
+
+  /**
+   * Load the config file, discarding unknown keys and invalid values
+   */
+  public load(): void {
+    this.fileValues = {};
+    this.loaded = true;
+
+    if (!fs.existsSync(this.configFile)) {
+      return;
+    }
+
+    try {
+      const data = JSON.parse(fs.readFileSync(this.configFile, 'utf8'));
+      const flattened = flattenObject(data);
+
+      Object.entries(flattened).forEach(([key, rawValue]) => {
+        const setting = findSetting(key);
+        if (!setting) {
+          console.log(chalk.yellow(`Ignoring unknown config key "${key}" in ${this.configFile}`));
+          return;
+        }
+
+        try {
+          this.fileValues[key] = coerceValue(setting, rawValue);
+        } catch (error) {
+          console.log(chalk.yellow(`Ignoring invalid value for "${key}" in ${this.configFile}: ${error instanceof Error ? error.message : 'Unknown error'}`));
+        }
+      });
+    } catch (error) {
+      console.error(chalk.red('Error loading config:'), error);
+      this.fileValues = {};
+    }
+  }
+
+  /**
+   * Save the file layer of the configuration
+   */
+  public save(): void {
+    try {
+      const dir = path.dirname(this.configFile);
+      if (!fs.existsSync(dir)) {
+        fs.mkdirSync(dir, { recursive: true });
+      }
+
+      fs.writeFileSync(this.configFile, JSON.stringify(unflattenObject(this.fileValues), null, 2), 'utf8');
+    } catch (error) {
+      console.error(chalk.red('Error saving config:'), error);
+      throw new Error('Failed to save config');
+    }
+  }
+
+  /**
+   * Get the effective value and source of a setting
+   *
+   * @param key - Dotted setting key
+   * @returns The effective entry
+   */
+  public getEntry(key: string): ConfigEntry {
+    if (!this.loaded) {
+      this.load();
+    }
+
+    const setting = findSetting(key);
+    if (!setting) {
+      throw new ValidationError(`Unknown config key: ${key}`);
+    }
+
+    // Environment variables take precedence over everything else
+    const envValue = process.env[setting.env];
+    if (envValue !== undefined && envValue !== '') {
+      try {
+        return { setting, value: coerceValue(setting, envValue), source: 'env' };
+      } catch (error) {
+        console.log(chalk.yellow(`Ignoring invalid ${setting.env}: ${error instanceof Error ? error.message : 'Unknown error'}`));
+      }
+    }
+
+    if (key in this.fileValues) {
+      return { setting, value: this.fileValues[key], source: 'file' };
+    }
+
+    return { setting, value: setting.default, source: 'default' };
+  }
+
+  /**
+   * Get every setting with its effective value and source
+   */
+  public getEntries(): ConfigEntry[] {
+    return CONFIG_SCHEMA.map(setting => this.getEntry(setting.key));
+  }
+
+  /**
+   * Get the effective value of a setting
+   *
+   * @param key - Dotted setting key
+   */
+  public get(key: string): ConfigValue {
+    return this.getEntry(key).value;
+  }
+
+  /**
+   * Get the effective value of a string or enum setting
+   *
+   * @param key - Dotted setting key
+   */
+  public getString(key: string): string {
+    return String(this.get(key));
+  }
+
+  /**
+   * Get the effective value of a boolean setting
+   *
+   * @param key - Dotted setting key
+   */
+  public getBoolean(key: string): boolean {
+    return this.get(key) === true;
+  }
+
+  /**
+   * Get the effective value of a number setting
+   *
+   * @param key - Dotted setting key
+   */
+  public getNumber(key: string): number {
+    return Number(this.get(key));
+  }
+
+  /**
+   * Resolve a path setting to an absolute path
+   *
+   * Relative paths are resolved against the active technician's data directory when one
+   * is set, otherwise against the workspace root.
+   *
+   * @param key - Dotted setting key of a path setting
+   */
+  public resolvePath(key: string): string {
+    const workspace = Workspace.getInstance();
+    const profile = ProfileManager.getInstance().findActiveProfile();
+    const baseDir = profile && profile.dataDir ? workspace.resolve(profile.dataDir) : workspace.getRoot();
+    return path.resolve(baseDir, this.getString(key));
+  }
+
+  /**
+   * Validate and store a value in the config file
+   *
+   * @param key - Dotted setting key
+   * @param rawValue - Value to store, as typed by the user
+   * @returns The stored value after coercion
+   */
+  public set(key: string, rawValue: unknown): ConfigValue {
+    if (!this.loaded) {
+      this.load();
+    }
+
+    const setting = findSetting(key);
+    if (!setting) {
+      throw new ValidationError(`Unknown config key: ${key}. Valid keys: ${CONFIG_SCHEMA.map(s => s.key).join(', ')}`);
+    }
+
+    const value = coerceValue(setting, rawValue);
+    this.fileValues[key] = value;
+    this.save();
+
+    return value;
+  }
+
+  /**
+   * Remove a value from the config file so the default applies again
+   *
+   * @param key - Dotted setting key
+   */
+  public unset(key: string): void {
+    if (!this.loaded) {
+      this.load();
+    }
+
+    if (!findSetting(key)) {
+      throw new ValidationError(`Unknown config key: ${key}`);
+    }
+
+    delete this.fileValues[key];
+    this.save();
+  }
+}
+
+/**
+ * Find the schema entry for a key
+ *
+ * @param key - Dotted setting key
+ * @returns The schema entry, or undefined if the key is unknown
+ */
+export function findSetting(key: string): ConfigSetting | undefined {
+  return CONFIG_SCHEMA.find(setting => setting.key === key);
+}
+
+/**
+ * Coerce a raw value into the type required by a setting
+ *
+ * @param setting - Schema entry for the setting
+ * @param rawValue - Raw value from the file, environment or command line
+ * @returns The validated value
+ */
+function coerceValue(setting: ConfigSetting, rawValue: unknown): ConfigValue {
+  switch (setting.type) {
+    case 'boolean': {
+      if (typeof rawValue === 'boolean') return rawValue;
+      const text = String(rawValue).trim().toLowerCase();
+      if (['true', 'yes', 'on', '1'].includes(text)) return true;
+      if (['false', 'no', 'off', '0'].includes(text)) return false;
+      throw new ValidationError(`${setting.key} must be true or false`);
+    }
+
+    case 'number': {
+      // Number() rejects trailing junk such as "30s" that parseFloat() would read as 30
+      const text = String(rawValue).trim();
+      const num = typeof rawValue === 'number' ? rawValue : text === '' ? NaN : Number(text);
+      if (!Number.isFinite(num)) {
+        throw new ValidationError(`${setting.key} must be a number`);
+      }
+      return num;
+    }
+
+    case 'enum': {
+      const text = String(rawValue).trim();
+      const match = setting.choices?.find(choice => choice.toLowerCase() === text.toLowerCase());
+      if (!match) {
+        throw new ValidationError(`${setting.key} must be one of: ${(setting.choices || []).join(', ')}`);
+      }
+      return match;
+    }
+
+    default: {
+      if (typeof rawValue === 'object' || rawValue === undefined) {
+        throw new ValidationError(`${setting.key} must be a string`);
+      }
+      const text = String(rawValue).trim();
+      if (text === '') {
+        throw new ValidationError(`${setting.key} cannot be empty`);
+      }
+      return text;
+    }
+  }
+}
+
+/**
+ * Nested settings as written in config.json
+ */
+interface ConfigTree {
+  [key: string]: ConfigValue | ConfigTree;
+}
+
+/**
+ * Flatten a nested object into dotted keys
+ *
+ * @param obj - Object to flatten, as parsed from JSON
+ * @param prefix - Key prefix for recursion
+ */
+function flattenObject(obj: unknown, prefix: string = ''): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+
+  Object.entries(obj !== null && typeof obj === 'object' ? obj : {}).forEach(([key, value]) => {
+    const fullKey = prefix ? `${prefix}.${key}` : key;
+    if (value !== null && typeof value === 'object' && !Array.isArray(value)) {
+      Object.assign(result, flattenObject(value, fullKey));
+    } else {
+      result[fullKey] = value;
+    }
+  });
+
+  return result;
+}
+
+/**
+ * Expand dotted keys into a nested object
+ *
+ * @param values - Flat map of dotted keys to values
+ */
+function unflattenObject(values: Record<string, ConfigValue>): ConfigTree {
+  const result: ConfigTree = {};
+
+  Object.entries(values).forEach(([key, value]) => {
+    const parts = key.split('.');
+    let node = result;
+    parts.slice(0, -1).forEach(part => {
+      if (typeof node[part] !== 'object') {
+        node[part] = {};
+      }
+      node = node[part] as ConfigTree;
+    });
+    node[parts[parts.length - 1]] = value;
+  });
+
+  return result;
+}
@@ -0,0 +1,331 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { promisify } from 'util';
+import inquirer from 'inquirer';
+import { Workspace } from './workspace';
+import { ValidationError } from './errors';
+
+// Convert fs functions to use promises
+const writeFile = promisify(fs.writeFile);
+const readFile = promisify(fs.readFile);
+const exists = promisify(fs.exists);
+const unlink = promisify(fs.unlink);
+
+/**
+ * Environment variable that supplies the master passphrase without prompting
+ */
+export const VAULT_PASSPHRASE_ENV = 'CE_CLI_VAULT_PASSPHRASE';
+
+/**
+ * Interface for a set of Medimizer login credentials
+ */
+export interface MedimizerCredentials {
+  employeeCode: string;   // Employee code typed on the login page
+  password: string;       // Medimizer password
+  database: string;       // Database selected at login (URMCCEX3, TEST or ARCHIVE)
+}
+
+/**
+ * Secrets stored for a technician profile
+ *
+ * The employee code and database are read from the profile when logging in, so editing the
+ * profile does not leave a stale copy in the vault.
+ */
+interface StoredCredentials {
+  password: string;       // Medimizer password
+}
+
+/**
+ * Decrypted contents of the vault
+ */
+interface VaultPayload {
+  accounts: Record<string, StoredCredentials>;   // Keyed by technician profile name
+}
+
+/**
+ * On-disk format of the vault file
+ */
+interface VaultFile {
+  version: number;
+  kdf: {
+    name: 'scrypt';
+    salt: string;         // Base64 salt
+    N: number;
+    r: number;
+    p: number;
+  };
+  cipher: 'aes-256-gcm';
+  iv: string;             // Base64 initialisation vector
+  tag: string;            // Base64 authentication tag
+  data: string;           // Base64 ciphertext
+}
+
+// Key derivation parameters for new vaults
+const SCRYPT_PARAMS = { N: 16384, r: 8, p: 1 };
+const KEY_LENGTH = 32;
+
+/**
+ * Class for storing Medimizer credentials encrypted at rest
+ *
+ * The vault is encrypted with AES-256-GCM using a key derived from a master
+ * passphrase with scrypt. It is unlocked at most once per session.
+ */
+export class CredentialVault {
+  private static instance: CredentialVault;
+  private vaultFile: string;
+  private key: Buffer | null = null;
+  private salt: Buffer | null = null;
+  private payload: VaultPayload | null = null;
+
+  /**
+   * Private constructor to enforce singleton pattern
+   */
+  private constructor() {
+    // Set the path to the vault file
+    this.vaultFile = path.join(Workspace.getInstance().getDataDir(), 'credentials.vault.json');
+  }
+
+  /**
+   * Get the singleton instance
+   */
+  public static getInstance(): CredentialVault {
+    if (!CredentialVault.instance) {
+      CredentialVault.instance = new CredentialVault();
+    }
+    return CredentialVault.instance;
+  }
+
+  /**
+   * Get the path of the vault file
+   */
+  public getVaultFilePath(): string {
+    return this.vaultFile;
+  }
+
+  /**
+   * Check whether a vault file has been created
+   */
+  public async exists(): Promise<boolean> {
+    return await exists(this.vaultFile);
+  }
+
+  /**
+   * Check whether the vault has been unlocked this session
+   */
+  public isUnlocked(): boolean {
+    return this.payload !== null;
+  }
+
+  /**
+   * Unlock the vault, prompting for the master passphrase if needed
+   */
+  public async unlock(): Promise<void> {
+    if (this.isUnlocked()) {
+      return;
+    }
+
+    if (!(await this.exists())) {
+      throw new ValidationError("No credentials stored. Run 'creds set' first");
+    }
+
+    const file: VaultFile = JSON.parse(await readFile(this.vaultFile, 'utf8'));
+    if (file.version !== 1 || file.cipher !== 'aes-256-gcm' || file.kdf.name !== 'scrypt') {
+      throw new Error(`Unsupported vault format in ${this.vaultFile}`);
+    }
+
+    const passphrase = await this.readPassphrase('Vault passphrase:', false);
+    const salt = Buffer.from(file.kdf.salt, 'base64');
+    const key = await deriveKey(passphrase, salt, file.kdf);
+
+    let payload: VaultPayload;
+    try {
+      const decipher = crypto.createDecipheriv('aes-256-gcm', key, Buffer.from(file.iv, 'base64'));
+      decipher.setAuthTag(Buffer.from(file.tag, 'base64'));
+      const plaintext = Buffer.concat([
+        decipher.update(Buffer.from(file.data, 'base64')),
+        decipher.final()
+      ]);
+      payload = JSON.parse(plaintext.toString('utf8'));
+    } catch (error) {
+      throw new ValidationError('Incorrect vault passphrase');
+    }
+
+    this.key = key;
+    this.salt = salt;
+    this.payload = payload;
+  }
+
+  /**
+   * Drop the decrypted credentials and key from memory
+   */
+  public lock(): void {
+    this.key = null;
+    this.salt = null;
+    this.payload = null;
+  }
+
+  /**
+   * Get the Medimizer password stored for a technician profile
+   *
+   * @param account - Profile name
+   * @returns The stored password
+   */
+  public async getPassword(account: string): Promise<string> {
+    await this.unlock();
+
+    const credentials = this.payload!.accounts[account];
+    if (!credentials) {
+      throw new ValidationError(`No credentials stored for profile "${account}". Run 'creds set' first`);
+    }
+
+    return credentials.password;
+  }
+
+  /**
+   * Store the Medimizer password for a technician profile, creating the vault if needed
+   *
+   * @param password - Password to store
+   * @param account - Profile name
+   */
+  public async setPassword(password: string, account: string): Promise<void> {
+    if (await this.exists()) {
+      await this.unlock();
+    } else {
+      // New vault, so choose a passphrase
+      const passphrase = await this.readPassphrase('New vault passphrase:', true);
+      this.salt = crypto.randomBytes(16);
+      this.key = await deriveKey(passphrase, this.salt, SCRYPT_PARAMS);
+      this.payload = { accounts: {} };
+    }
+
+    this.payload!.accounts[account] = { password };
+    await this.save();
+  }
+
+  /**
+   * Re-encrypt the vault under a new passphrase
+   *
+   * @param newPassphrase - The new master passphrase
+   */
+  public async rotate(newPassphrase: string): Promise<void> {
+    await this.unlock();
+
+    if (!newPassphrase) {
+      throw new ValidationError('Passphrase cannot be empty');
+    }
+
+    this.salt = crypto.randomBytes(16);
+    this.key = await deriveKey(newPassphrase, this.salt, SCRYPT_PARAMS);
+    await this.save();
+  }
+
+  /**
+   * Delete the vault file and forget everything held in memory
+   */
+  public async forget(): Promise<void> {
+    if (await this.exists()) {
+      await unlink(this.vaultFile);
+    }
+    this.lock();
+  }
+
+  /**
+   * Encrypt the payload and write the vault file
+   */
+  private async save(): Promise<void> {
+    if (!this.key || !this.salt || !this.payload) {
+      throw new Error('Vault is locked');
+    }
+
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv('aes-256-gcm', this.key, iv);
+    const ciphertext = Buffer.concat([
+      cipher.update(JSON.stringify(this.payload), 'utf8'),
+      cipher.final()
+    ]);
+
+    const file: VaultFile = {
+      version: 1,
+      kdf: { name: 'scrypt', salt: this.salt.toString('base64'), ...SCRYPT_PARAMS },
+      cipher: 'aes-256-gcm',
+      iv: iv.toString('base64'),
+      tag: cipher.getAuthTag().toString('base64'),
+      data: ciphertext.toString('base64')
+    };
+
+    const dir = path.dirname(this.vaultFile);
+    if (!fs.existsSync(dir)) {
+      fs.mkdirSync(dir, { recursive: true });
+    }
+
+    await writeFile(this.vaultFile, JSON.stringify(file, null, 2), { encoding: 'utf8', mode: 0o600 });
+  }
+
+  /**
+   * Read the master passphrase from the environment or prompt for it
+   *
+   * @param message - Prompt message
+   * @param confirm - Whether to ask for the passphrase twice
+   */
+  private async readPassphrase(message: string, confirm: boolean): Promise<string> {
+    const fromEnv = process.env[VAULT_PASSPHRASE_ENV];
+    if (fromEnv) {
+      return fromEnv;
+    }
+
+    return await promptPassphrase(message, confirm);
+  }
+}
+
+/**
+ * Prompt for a passphrase without echoing it
+ *
+ * @param message - Prompt message
+ * @param confirm - Whether to ask for the passphrase twice
+ * @returns The passphrase entered
+ */
+export async function promptPassphrase(message: string, confirm: boolean): Promise<string> {
+  const { passphrase } = await inquirer.prompt([
+    {
+      type: 'password',
+      name: 'passphrase',
+      message,
+      mask: '*',
+      validate: (input: string) => input ? true : 'Passphrase cannot be empty'
+    }
+  ]);
+
+  if (confirm) {
+    const { repeated } = await inquirer.prompt([
+      {
+        type: 'password',
+        name: 'repeated',
+        message: 'Repeat passphrase:',
+        mask: '*'
+      }
+    ]);
+
+    if (repeated !== passphrase) {
+      throw new ValidationError('Passphrases do not match');
+    }
+  }
+
+  return passphrase;
+}
+
+/**
+ * Derive an encryption key from a passphrase
+ *
+ * @param passphrase - Master passphrase
+ * @param salt - Salt stored with the vault
+ * @param params - scrypt cost parameters
+ */
+function deriveKey(passphrase: string, salt: Buffer, params: { N: number; r: number; p: number }): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    crypto.scrypt(passphrase, salt, KEY_LENGTH, params, (error, key) => {
+      if (error) reject(error);
+      else resolve(key);
+    });
+  });
+}
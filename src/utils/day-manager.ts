@@ -3,6 +3,7 @@ import path from 'path';
 import { promisify } from 'util';
 import chalk from 'chalk';
 import { StackManager } from './stack-manager';
+import { Workspace } from './workspace';
 
 // Convert fs functions to use promises
 const writeFile = promisify(fs.writeFile);
@@ -41,13 +42,7 @@ export class DayManager {
    */
   private constructor() {
     // Set the path to the days file
-    this.daysFile = path.join(process.cwd(), 'data', 'days.json');
-    
-    // Create the data directory if it doesn't exist
-    const dataDir = path.join(process.cwd(), 'data');
-    if (!fs.existsSync(dataDir)) {
-      fs.mkdirSync(dataDir, { recursive: true });
-    }
+    this.daysFile = path.join(Workspace.getInstance().getDataDir(), 'days.json');
   }
 
   /**
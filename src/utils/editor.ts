@@ -1,23 +1,25 @@
 import { spawn } from 'child_process';
 import chalk from 'chalk';
 import { getNotesFilePath } from './filesystem';
+import { ConfigManager } from './config-manager';
+import { wrapError } from './errors';
 
 /**
- * Open a file in nvim editor
+ * Open a file in the configured editor (nvim by default)
  * 
  * @param filePath - Path to the file to open
  * @returns A promise that resolves when the editor is closed
  */
-export async function openInNvim(filePath: string): Promise<void> {
+export async function openInEditor(filePath: string): Promise<void> {
   return new Promise((resolve, reject) => {
     try {
-      // Use nvim specifically, rather than the default editor
-      const editorCommand = 'nvim';
+      // Use the configured editor, rather than the system default
+      const editorCommand = ConfigManager.getInstance().getString('editor.command');
       
-      console.log(chalk.yellow(`Opening ${filePath} with nvim...`));
+      console.log(chalk.yellow(`Opening ${filePath} with ${editorCommand}...`));
       
-      // Spawn the nvim process
-      const editor = spawn(editorCommand, [filePath], {
+      // Spawn the editor process
+      const editor = spawn(editorCommand, [JSON.stringify(filePath)], {
         stdio: 'inherit', // Inherit stdio to allow user interaction
         shell: true // Use shell to resolve editor command
       });
@@ -34,11 +36,11 @@ export async function openInNvim(filePath: string): Promise<void> {
       
       // Handle process error
       editor.on('error', (err) => {
-        // If nvim is not available, try using vim
-        if (err.message.includes('ENOENT')) {
-          console.log(chalk.yellow('nvim not found, trying vim...'));
+        // If the configured editor is not available, try using vim
+        if (err.message.includes('ENOENT') && editorCommand !== 'vim') {
+          console.log(chalk.yellow(`${editorCommand} not found, trying vim...`));
           
-          const vimEditor = spawn('vim', [filePath], {
+          const vimEditor = spawn('vim', [JSON.stringify(filePath)], {
             stdio: 'inherit',
             shell: true
           });
@@ -56,7 +58,7 @@ export async function openInNvim(filePath: string): Promise<void> {
             reject(new Error(`Failed to start vim: ${vimErr.message}`));
           });
         } else {
-          reject(new Error(`Failed to start nvim: ${err.message}`));
+          reject(new Error(`Failed to start ${editorCommand}: ${err.message}`));
         }
       });
     } catch (error) {
@@ -70,23 +72,23 @@ export async function openInNvim(filePath: string): Promise<void> {
 }
 
 /**
- * Open the notes file for a work order in nvim
+ * Open the notes file for a work order in the configured editor
  * 
  * @param workOrderNumber - 7-digit work order number
  * @returns A promise that resolves when the editor is closed
  */
-export async function openNotesInNvim(workOrderNumber: string): Promise<void> {
+export async function openNotesInEditor(workOrderNumber: string): Promise<void> {
   try {
     // Get the path to the notes file
     const notesFilePath = await getNotesFilePath(workOrderNumber);
     
-    // Open the file in nvim
-    await openInNvim(notesFilePath);
+    // Open the file in the editor
+    await openInEditor(notesFilePath);
     
     return;
   } catch (error) {
     if (error instanceof Error) {
-      throw new Error(`Failed to open notes in editor: ${error.message}`);
+      throw wrapError(error, `Failed to open notes in editor: ${error.message}`);
     } else {
       throw new Error('Failed to open notes in editor: Unknown error');
     }
@@ -0,0 +1,122 @@
+/**
+ * Process exit codes used in one-shot mode
+ */
+export const EXIT_CODES = {
+  success: 0,
+  failure: 1,       // Anything not covered below
+  validation: 2,    // Bad arguments or input
+  medimizer: 3,     // Medimizer rejected or did not behave as expected
+  network: 4        // Medimizer could not be reached
+};
+
+/**
+ * Error raised for invalid user input
+ */
+export class ValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ValidationError';
+  }
+}
+
+/**
+ * Error raised when a command line does not match the command's argument schema
+ */
+export class UsageError extends ValidationError {
+  public usage: string;
+
+  constructor(message: string, usage: string) {
+    super(message);
+    this.name = 'UsageError';
+    this.usage = usage;
+  }
+}
+
+/**
+ * Error raised when a line of work order notes does not follow the service-line syntax
+ */
+export class NotesSyntaxError extends ValidationError {
+  public line: number;
+  public column: number;
+
+  constructor(message: string, line: number, column: number) {
+    super(`Line ${line}, column ${column}: ${message}`);
+    this.name = 'NotesSyntaxError';
+    this.line = line;
+    this.column = column;
+  }
+}
+
+/**
+ * Error raised when Medimizer does not behave as expected
+ */
+export class MedimizerError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MedimizerError';
+  }
+}
+
+/**
+ * Error raised when Medimizer cannot be reached
+ */
+export class NetworkError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'NetworkError';
+  }
+}
+
+/**
+ * Error raised when lines of a script fail
+ *
+ * Carries the exit code of the first failing command so one-shot scripts exit the same way.
+ */
+export class ScriptError extends Error {
+  public exitCode: number;
+
+  constructor(message: string, exitCode: number) {
+    super(message);
+    this.name = 'ScriptError';
+    this.exitCode = exitCode;
+  }
+}
+
+/**
+ * Re-create an error with a new message, keeping the class its exit code depends on
+ *
+ * Commands add context such as "Failed to push stack: " to the errors they catch; wrapping
+ * through here keeps a Medimizer or network failure from turning into a generic one. A
+ * puppeteer TimeoutError left over at this point is an element Medimizer never showed.
+ *
+ * @param error - Error that was caught
+ * @param message - Message for the new error
+ * @returns An error of the same kind with the new message
+ */
+export function wrapError(error: unknown, message: string): Error {
+  if (error instanceof ScriptError) return new ScriptError(message, error.exitCode);
+  if (error instanceof ValidationError) return new ValidationError(message);
+  if (error instanceof NetworkError) return new NetworkError(message);
+  if (error instanceof MedimizerError) return new MedimizerError(message);
+  if (error instanceof Error && error.name === 'TimeoutError') return new MedimizerError(message);
+  return new Error(message);
+}
+
+/**
+ * Map an error to a process exit code by its class
+ *
+ * @param error - Error thrown by a command, or null on success
+ * @returns The exit code to use
+ */
+export function getExitCode(error: unknown): number {
+  if (!error) {
+    return EXIT_CODES.success;
+  }
+
+  if (error instanceof ScriptError) return error.exitCode;
+  if (error instanceof ValidationError) return EXIT_CODES.validation;
+  if (error instanceof NetworkError) return EXIT_CODES.network;
+  if (error instanceof MedimizerError) return EXIT_CODES.medimizer;
+
+  return EXIT_CODES.failure;
+}
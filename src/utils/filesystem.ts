@@ -1,17 +1,24 @@
 import fs from 'fs';
 import path from 'path';
 import { promisify } from 'util';
+import { ConfigManager } from './config-manager';
+import { ValidationError, wrapError } from './errors';
 
 // Convert callback-based fs functions to Promise-based
 const mkdir = promisify(fs.mkdir);
 const writeFile = promisify(fs.writeFile);
 const readFile = promisify(fs.readFile);
 const exists = promisify(fs.exists);
+const copyFile = promisify(fs.copyFile);
 
 /**
- * Base directory for work order files
+ * Get the base directory for work order files
+ * 
+ * @returns Absolute path of the configured work orders directory
  */
-const BASE_DIR = path.join(process.cwd(), 'work_orders');
+export function getWorkOrdersDir(): string {
+  return ConfigManager.getInstance().resolvePath('paths.workOrders');
+}
 
 /**
  * Create directory structure for a work order
@@ -23,16 +30,17 @@ export async function createWorkOrderDirectory(workOrderNumber: string): Promise
   try {
     // Validate work order number
     if (!/^\d{7}$/.test(workOrderNumber)) {
-      throw new Error('Work order number must be exactly 7 digits');
+      throw new ValidationError('Work order number must be exactly 7 digits');
     }
 
     // Create base directory if it doesn't exist
-    if (!fs.existsSync(BASE_DIR)) {
-      await mkdir(BASE_DIR, { recursive: true });
+    const baseDir = getWorkOrdersDir();
+    if (!fs.existsSync(baseDir)) {
+      await mkdir(baseDir, { recursive: true });
     }
 
     // Create work order directory
-    const workOrderDir = path.join(BASE_DIR, workOrderNumber);
+    const workOrderDir = path.join(baseDir, workOrderNumber);
     if (!fs.existsSync(workOrderDir)) {
       await mkdir(workOrderDir, { recursive: true });
     }
@@ -46,7 +54,7 @@ export async function createWorkOrderDirectory(workOrderNumber: string): Promise
     return workOrderDir;
   } catch (error) {
     if (error instanceof Error) {
-      throw new Error(`Failed to create directory structure: ${error.message}`);
+      throw wrapError(error, `Failed to create directory structure: ${error.message}`);
     } else {
       throw new Error('Failed to create directory structure: Unknown error');
     }
@@ -88,7 +96,7 @@ export async function createNotesFile(workOrderNumber: string): Promise<string>
   try {
     // Validate work order number
     if (!/^\d{7}$/.test(workOrderNumber)) {
-      throw new Error('Work order number must be exactly 7 digits');
+      throw new ValidationError('Work order number must be exactly 7 digits');
     }
 
     // Create directory if it doesn't exist
@@ -114,7 +122,7 @@ IMPORTED FROM MM ON ${formattedDateTime}
     return notesFilePath;
   } catch (error) {
     if (error instanceof Error) {
-      throw new Error(`Failed to create notes file: ${error.message}`);
+      throw wrapError(error, `Failed to create notes file: ${error.message}`);
     } else {
       throw new Error('Failed to create notes file: Unknown error');
     }
@@ -130,10 +138,10 @@ IMPORTED FROM MM ON ${formattedDateTime}
 export async function getNotesFilePath(workOrderNumber: string): Promise<string> {
   // Validate work order number
   if (!/^\d{7}$/.test(workOrderNumber)) {
-    throw new Error('Work order number must be exactly 7 digits');
+    throw new ValidationError('Work order number must be exactly 7 digits');
   }
 
-  const notesFilePath = path.join(BASE_DIR, workOrderNumber, `${workOrderNumber}_notes.md`);
+  const notesFilePath = path.join(getWorkOrdersDir(), workOrderNumber, `${workOrderNumber}_notes.md`);
   
   // Check if the file exists
   if (!fs.existsSync(notesFilePath)) {
@@ -156,7 +164,7 @@ export async function readNotesFile(workOrderNumber: string): Promise<string> {
     return content;
   } catch (error) {
     if (error instanceof Error) {
-      throw new Error(`Failed to read notes file: ${error.message}`);
+      throw wrapError(error, `Failed to read notes file: ${error.message}`);
     } else {
       throw new Error('Failed to read notes file: Unknown error');
     }
@@ -176,13 +184,34 @@ export async function writeNotesFile(workOrderNumber: string, content: string):
     await writeFile(notesFilePath, content, 'utf8');
   } catch (error) {
     if (error instanceof Error) {
-      throw new Error(`Failed to write notes file: ${error.message}`);
+      throw wrapError(error, `Failed to write notes file: ${error.message}`);
     } else {
       throw new Error('Failed to write notes file: Unknown error');
     }
   }
 }
 
+/**
+ * Copy a notes file to <wo>_notes.md.bak, replacing any earlier backup
+ * 
+ * @param workOrderNumber - 7-digit work order number
+ * @returns A promise that resolves to the path of the backup
+ */
+export async function backupNotesFile(workOrderNumber: string): Promise<string> {
+  try {
+    const notesFilePath = await getNotesFilePath(workOrderNumber);
+    const backupPath = `${notesFilePath}.bak`;
+    await copyFile(notesFilePath, backupPath);
+    return backupPath;
+  } catch (error) {
+    if (error instanceof Error) {
+      throw wrapError(error, `Failed to back up notes file: ${error.message}`);
+    } else {
+      throw new Error('Failed to back up notes file: Unknown error');
+    }
+  }
+}
+
 /**
  * Append imported services template with timestamp to notes file
  * 
@@ -221,7 +250,7 @@ IMPORTED SERVICES FROM MM @ ${formattedDateTime}
     await writeNotesFile(workOrderNumber, updatedContent);
   } catch (error) {
     if (error instanceof Error) {
-      throw new Error(`Failed to append imported services: ${error.message}`);
+      throw wrapError(error, `Failed to append imported services: ${error.message}`);
     } else {
       throw new Error('Failed to append imported services: Unknown error');
     }
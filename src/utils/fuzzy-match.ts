@@ -0,0 +1,101 @@
+/**
+ * Count the single-character edits that turn one string into another
+ *
+ * @param a - First string
+ * @param b - Second string
+ * @returns The Levenshtein distance
+ */
+export function levenshtein(a: string, b: string): number {
+  if (a === b) {
+    return 0;
+  }
+
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const substitution = previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1);
+      current.push(Math.min(previous[j] + 1, current[j - 1] + 1, substitution));
+    }
+    previous = current;
+  }
+
+  return previous[b.length];
+}
+
+/**
+ * Score how close some text is to a candidate, from 0 (unrelated) to 1 (equal)
+ *
+ * Both are compared case-insensitively, whole and word by word, so "batery" is close to
+ * "Battery/Batteries" and "pm" to "Safety and P.M.".
+ *
+ * @param text - Text that was typed
+ * @param candidate - Candidate to compare against
+ */
+export function similarity(text: string, candidate: string): number {
+  const a = normalize(text);
+  const b = normalize(candidate);
+  if (!a || !b) {
+    return 0;
+  }
+  if (a === b) {
+    return 1;
+  }
+
+  // Whole-string closeness
+  let score = 1 - levenshtein(a, b) / Math.max(a.length, b.length);
+
+  // Prefix matches, e.g. "repl" for "Replaced"
+  if (b.startsWith(a)) {
+    score = Math.max(score, 0.6 + 0.4 * a.length / b.length);
+  }
+
+  // Word-by-word closeness: every typed word against its best candidate word
+  const words = tokenize(a);
+  const candidateWords = tokenize(b);
+  if (words.length > 0 && candidateWords.length > 0) {
+    const total = words.reduce((sum, word) => sum + Math.max(...candidateWords.map(candidateWord => {
+      const distance = 1 - levenshtein(word, candidateWord) / Math.max(word.length, candidateWord.length);
+      return candidateWord.startsWith(word) ? Math.max(distance, 0.8) : distance;
+    })), 0);
+    score = Math.max(score, 0.9 * total / words.length);
+  }
+
+  return score;
+}
+
+/**
+ * Rank candidates by how close they are to some text
+ *
+ * @param text - Text that was typed
+ * @param candidates - Candidates to rank
+ * @param limit - Maximum number of results
+ * @param threshold - Minimum similarity to include
+ * @returns The closest candidates, best first
+ */
+export function rankMatches(text: string, candidates: string[], limit: number = 3, threshold: number = 0.6): string[] {
+  return candidates
+    .map(candidate => ({ candidate, score: similarity(text, candidate) }))
+    .filter(match => match.score >= threshold)
+    .sort((a, b) => b.score - a.score || a.candidate.localeCompare(b.candidate))
+    .slice(0, limit)
+    .map(match => match.candidate);
+}
+
+/**
+ * Lower-case text and drop punctuation other than word separators
+ *
+ * @param text - Text to normalize
+ */
+function normalize(text: string): string {
+  return text.toLowerCase().replace(/[.]/g, '').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Split normalized text into words on spaces, slashes, commas and hyphens
+ *
+ * @param text - Normalized text
+ */
+function tokenize(text: string): string[] {
+  return text.split(/[\s/,&-]+/).filter(word => word !== '' && word !== 'and');
+}
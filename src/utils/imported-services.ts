@@ -0,0 +1,227 @@
+import { CodeLookup } from './code-lookup';
+import {
+  IMPORTED_MARKER,
+  formatServiceLine,
+  formatNotesDatetime,
+  formatDurationText,
+  parseServiceLine,
+  parseNotesDatetime
+} from './notes-grammar';
+
+/**
+ * A service row as read from the Medimizer services grid
+ */
+export interface MedimizerServiceRow {
+  rowId: string;            // DOM id of the grid row, used to select it
+  serviceId: string | null; // Medimizer service ID from the grid's DXKVInput
+  servicer: string;         // Employee the service is booked under
+  dateTime: string;         // As shown, e.g. "10/2/2025 9:30 AM"
+  minutes: number;
+  description: string;      // "Verb, Noun" as shown
+  parts: MedimizerPartRow[];
+}
+
+/**
+ * A part row ("-- ...") under a service in the Medimizer services grid
+ */
+export interface MedimizerPartRow {
+  rowId: string;
+  text: string;             // Row text without the leading "--"
+}
+
+/**
+ * A Medimizer service with its verb and noun resolved against the code tables
+ */
+export interface MedimizerService {
+  serviceId: string | null;
+  servicer: string;
+  dateTime: Date;
+  minutes: number;
+  verb: string;
+  noun?: string;
+  verbCode: number | null;
+  nounCode: number | null;
+  parts: MedimizerPartRow[];
+}
+
+// "MM#4586776" after the imported marker ties a notes line to its Medimizer service
+const SERVICE_ID_PATTERN = /\bMM#(\d+)\b/;
+
+// "10/2/2025 9:30 AM", as shown in the services grid
+const MM_DATETIME_PATTERN = /^(\d{1,2})\/(\d{1,2})\/(\d{4})(?:\s+(\d{1,2}):(\d{2})\s*([AP]M))?/i;
+
+/**
+ * Turn a services grid row into a structured service
+ *
+ * @param row - Row read from the services grid
+ * @param codeLookup - Initialized code tables
+ * @returns The service, or null if its date cannot be read
+ */
+export function toMedimizerService(row: MedimizerServiceRow, codeLookup: CodeLookup): MedimizerService | null {
+  const dateTime = parseMedimizerDateTime(row.dateTime);
+  if (!dateTime) {
+    return null;
+  }
+
+  const { verb, noun } = splitDescription(row.description, codeLookup);
+  const verbMatch = codeLookup.findVerb(verb);
+
+  return {
+    serviceId: row.serviceId,
+    servicer: row.servicer,
+    dateTime,
+    minutes: row.minutes,
+    verb: verb || 'Service',
+    noun,
+    verbCode: verbMatch ? verbMatch.code : null,
+    nounCode: noun ? codeLookup.findNoun(noun) : null,
+    parts: row.parts
+  };
+}
+
+/**
+ * Split a services grid description into its verb and noun
+ *
+ * Verbs and nouns may both contain commas ("Safety, Performance and P.M.", "Screen, Phosphor"),
+ * so the verb is the longest comma-separated prefix found in the verb table and the noun is
+ * everything after it, commas included.
+ *
+ * @param description - "Verb, Noun" as shown
+ * @param codeLookup - Initialized code tables
+ * @returns The verb, and the noun if there is one
+ */
+function splitDescription(description: string, codeLookup: CodeLookup): { verb: string; noun?: string } {
+  const segments = description.split(',').map(segment => segment.trim());
+
+  // Step 1: Try the whole text, then each shorter prefix
+  for (let count = segments.length; count > 0; count--) {
+    const verbMatch = codeLookup.resolveVerb(segments.slice(0, count).join(', '));
+    if (verbMatch) {
+      const noun = segments.slice(count).join(', ').trim();
+      return { verb: verbMatch.keyword, noun: noun || undefined };
+    }
+  }
+
+  // Step 2: Unknown verb, so split at the first comma as Medimizer shows it
+  const [verb, ...rest] = segments;
+  return { verb: verb || '', noun: rest.join(', ').trim() || undefined };
+}
+
+/**
+ * Parse a date and time as shown in the services grid
+ *
+ * @param value - e.g. "10/2/2025 9:30 AM"; a date without a time means noon
+ * @returns The local date and time, or null if the text is not a date
+ */
+export function parseMedimizerDateTime(value: string): Date | null {
+  const match = value.trim().match(MM_DATETIME_PATTERN);
+  if (!match) {
+    return null;
+  }
+
+  const [month, day, year] = match.slice(1, 4).map(part => parseInt(part, 10));
+  let hours = match[4] ? parseInt(match[4], 10) : 12;
+  const minutes = match[5] ? parseInt(match[5], 10) : 0;
+  const meridiem = (match[6] || 'PM').toUpperCase();
+
+  if (meridiem === 'PM' && hours < 12) hours += 12;
+  if (meridiem === 'AM' && hours === 12) hours = 0;
+
+  const date = new Date(year, month - 1, day, hours, minutes);
+  return isNaN(date.getTime()) || date.getMonth() !== month - 1 ? null : date;
+}
+
+/**
+ * Write an imported service as notes lines
+ *
+ * The service line carries the imported marker, its Medimizer ID and servicer; each part
+ * follows as an indented "--" line.
+ *
+ * @param service - Service imported from Medimizer
+ * @returns e.g. "[Inspected, Battery] (30min) (2025-10-02 09:30) => (||) MM#4586776 by SMITH, JOHN"
+ */
+export function formatImportedService(service: MedimizerService): string {
+  const tags = [IMPORTED_MARKER];
+  if (service.serviceId) {
+    tags.push(`MM#${service.serviceId}`);
+  }
+  if (service.servicer) {
+    tags.push(`by ${service.servicer}`);
+  }
+
+  const line = formatServiceLine({
+    verb: service.verb,
+    noun: service.noun,
+    duration: formatDurationText(service.minutes),
+    datetime: formatNotesDatetime(service.dateTime),
+    notes: tags.join(' ')
+  });
+
+  return [line, ...service.parts.map(part => `  -- ${part.text}`)].join('\n');
+}
+
+/**
+ * Get the Medimizer service ID written on a notes line
+ *
+ * @param line - Line of notes
+ * @returns The ID, or null if the line has none
+ */
+export function findMedimizerServiceId(line: string): string | null {
+  const match = line.match(SERVICE_ID_PATTERN);
+  return match ? match[1] : null;
+}
+
+/**
+ * Key identifying a service by its label and time, for lines imported without an ID
+ *
+ * @param label - "Verb" or "Verb, Noun"
+ * @param dateTime - Time of the service
+ */
+export function getServiceKey(label: string, dateTime: Date): string {
+  return `${label.toLowerCase()}|${formatNotesDatetime(dateTime)}`;
+}
+
+/**
+ * Collect the services already written in notes lines
+ *
+ * @param lines - Lines of imported-services sections
+ * @returns The Medimizer IDs found, and label/time keys of service lines without an ID
+ */
+export function collectImportedServiceKeys(lines: string[]): { ids: Set<string>; keys: Set<string> } {
+  const ids: Set<string> = new Set();
+  const keys: Set<string> = new Set();
+
+  lines.forEach(line => {
+    const id = findMedimizerServiceId(line);
+    if (id) {
+      ids.add(id);
+      return;
+    }
+
+    try {
+      const node = parseServiceLine(line, 1);
+      const date = node ? parseNotesDatetime(node.datetime) : null;
+      if (node && date) {
+        keys.add(getServiceKey(node.noun ? `${node.verb}, ${node.noun}` : node.verb, date));
+      }
+    } catch (error) {
+      // Not a service line
+    }
+  });
+
+  return { ids, keys };
+}
+
+/**
+ * Check whether an imported service is already written in the notes
+ *
+ * @param service - Service imported from Medimizer
+ * @param seen - Result of collectImportedServiceKeys
+ */
+export function isServiceImported(service: MedimizerService, seen: { ids: Set<string>; keys: Set<string> }): boolean {
+  if (service.serviceId && seen.ids.has(service.serviceId)) {
+    return true;
+  }
+  const label = service.noun ? `${service.verb}, ${service.noun}` : service.verb;
+  return seen.keys.has(getServiceKey(label, service.dateTime));
+}
@@ -0,0 +1,51 @@
+/**
+ * One line of a diff
+ */
+export interface DiffLine {
+  type: 'same' | 'removed' | 'added';
+  text: string;
+  oldLine?: number;         // 1-based line in the old text
+  newLine?: number;         // 1-based line in the new text
+}
+
+/**
+ * Diff two lists of lines using their longest common subsequence
+ *
+ * @param oldLines - Lines before
+ * @param newLines - Lines after
+ * @returns Every line of both inputs, marked same, removed or added, in order
+ */
+export function diffLines(oldLines: string[], newLines: string[]): DiffLine[] {
+  // Step 1: Length of the common subsequence of every pair of suffixes
+  const rows = oldLines.length;
+  const cols = newLines.length;
+  const lengths: number[][] = Array.from({ length: rows + 1 }, () => new Array(cols + 1).fill(0));
+
+  for (let i = rows - 1; i >= 0; i--) {
+    for (let j = cols - 1; j >= 0; j--) {
+      lengths[i][j] = oldLines[i] === newLines[j]
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  // Step 2: Walk the table, preferring removals before additions
+  const diff: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < rows || j < cols) {
+    if (i < rows && j < cols && oldLines[i] === newLines[j]) {
+      diff.push({ type: 'same', text: oldLines[i], oldLine: i + 1, newLine: j + 1 });
+      i++;
+      j++;
+    } else if (i < rows && (j >= cols || lengths[i + 1][j] >= lengths[i][j + 1])) {
+      diff.push({ type: 'removed', text: oldLines[i], oldLine: i + 1 });
+      i++;
+    } else {
+      diff.push({ type: 'added', text: newLines[j], newLine: j + 1 });
+      j++;
+    }
+  }
+
+  return diff;
+}
@@ -0,0 +1,187 @@
+import readline from 'readline';
+import { PassThrough } from 'stream';
+import { CommandHistory } from './command-history';
+import { CompletionResult } from './completer';
+
+/**
+ * Options for the interactive prompt
+ */
+export interface LineEditorOptions {
+  prompt: string;
+  history: CommandHistory;
+  completer: (line: string) => Promise<CompletionResult>;
+}
+
+/**
+ * Class for reading command lines with history, tab completion and Ctrl-R search
+ *
+ * A fresh readline interface is created for every line and closed before the command runs,
+ * so commands that prompt through inquirer get stdin to themselves.
+ */
+export class LineEditor {
+  private options: LineEditorOptions;
+
+  /**
+   * Constructor for the line editor
+   *
+   * @param options - Prompt, history and completer to use
+   */
+  constructor(options: LineEditorOptions) {
+    this.options = options;
+  }
+
+  /**
+   * Read one line from the user
+   *
+   * Ctrl-C abandons the current line; Ctrl-D on an empty line ends input.
+   *
+   * @returns The line entered, or null when input has ended
+   */
+  public readLine(): Promise<string | null> {
+    const { history } = this.options;
+    const entries = history.getEntries();
+
+    return new Promise(resolve => {
+      // On a terminal, keys reach readline through attachKeys() so Ctrl-R can be caught first
+      const terminal = !!process.stdin.isTTY;
+      const rl = readline.createInterface({
+        input: terminal ? new PassThrough() : process.stdin,
+        output: process.stdout,
+        terminal,
+        history: entries,
+        historySize: history.getMaxSize(),
+        removeHistoryDuplicates: true,
+        completer: (line: string, callback: (error: Error | null, result: CompletionResult) => void) => {
+          this.options.completer(line)
+            .then(result => callback(null, result))
+            .catch(() => callback(null, [[], line]));
+        }
+      });
+
+      let answered = false;
+      let detachKeys = () => {};
+      const finish = (value: string | null) => {
+        if (answered) return;
+        answered = true;
+        detachKeys();
+        rl.close();
+        resolve(value);
+      };
+
+      rl.on('line', line => {
+        history.add(line);
+        finish(line);
+      });
+      rl.on('SIGINT', () => {
+        process.stdout.write('^C\n');
+        finish('');
+      });
+      rl.on('close', () => finish(null));
+
+      if (terminal) {
+        detachKeys = this.attachKeys(rl, entries);
+      }
+
+      rl.setPrompt(this.options.prompt);
+      rl.prompt();
+    });
+  }
+
+  /**
+   * Read keys from the terminal and pass them to readline, with bash-style Ctrl-R search
+   *
+   * Readline has no public hook for custom keys, so keys are read here and handed on with
+   * rl.write(). Typing narrows the search, Ctrl-R steps to older matches, Enter runs the
+   * match, Ctrl-G or Ctrl-C cancels and any other key accepts the match for editing.
+   *
+   * @param rl - Readline interface reading from a stream that never sends anything itself
+   * @param entries - History, newest first
+   * @returns A function that stops reading keys and hands the terminal back
+   */
+  private attachKeys(rl: readline.Interface, entries: string[]): () => void {
+    const stdin = process.stdin;
+    readline.emitKeypressEvents(stdin);
+    stdin.setRawMode(true);
+    stdin.resume();
+
+    let searching = false;
+    let query = '';
+    let matchIndex = -1;
+    let savedLine = '';
+
+    const findMatch = (from: number): number => {
+      for (let i = from; i < entries.length; i++) {
+        if (entries[i].includes(query)) return i;
+      }
+      return -1;
+    };
+
+    // Replace the prompt and the text after it using readline's own editing keys
+    const showLine = (prompt: string, line: string) => {
+      rl.setPrompt(prompt);
+      rl.write(null, { ctrl: true, name: 'e' });
+      rl.write(null, { ctrl: true, name: 'u' });
+      rl.write(line);
+      rl.prompt(true);
+    };
+
+    const render = (failing: boolean) => {
+      const label = failing ? 'failing reverse-i-search' : 'reverse-i-search';
+      showLine(`(${label})\`${query}': `, matchIndex >= 0 ? entries[matchIndex] : '');
+    };
+
+    const search = (from: number) => {
+      const found = query ? findMatch(from) : -1;
+      if (found >= 0) {
+        matchIndex = found;
+      }
+      render(query !== '' && found < 0);
+    };
+
+    const stop = (line: string) => {
+      searching = false;
+      showLine(this.options.prompt, line);
+    };
+
+    const onKeypress = (s: string | undefined, key: readline.Key = {}) => {
+      if (!searching) {
+        if (key.ctrl && key.name === 'r') {
+          searching = true;
+          query = '';
+          matchIndex = -1;
+          savedLine = rl.line;
+          render(false);
+          return;
+        }
+        rl.write(s, key);
+        return;
+      }
+
+      const match = matchIndex >= 0 ? entries[matchIndex] : savedLine;
+
+      if (key.ctrl && key.name === 'r') {
+        search(matchIndex + 1);
+      } else if (key.ctrl && (key.name === 'g' || key.name === 'c')) {
+        stop(savedLine);
+      } else if (key.name === 'backspace') {
+        query = query.slice(0, -1);
+        matchIndex = -1;
+        search(0);
+      } else if (s && s.length === 1 && s >= ' ' && !key.ctrl && !key.meta) {
+        query += s;
+        search(Math.max(matchIndex, 0));
+      } else {
+        // Enter, arrows and other editing keys act on the match
+        stop(match);
+        rl.write(s, key);
+      }
+    };
+
+    stdin.on('keypress', onKeypress);
+    return () => {
+      stdin.removeListener('keypress', onKeypress);
+      stdin.setRawMode(false);
+      stdin.pause();
+    };
+  }
+}
@@ -0,0 +1,279 @@
+import fs from 'fs';
+import path from 'path';
+import chalk from 'chalk';
+import { Workspace } from './workspace';
+import { ValidationError } from './errors';
+import { quoteToken } from './tokenizer';
+
+/**
+ * A short name for a single command line
+ */
+export interface Alias {
+  name: string;
+  command: string;          // Command line it expands to; may use $1..$9 and $@
+}
+
+/**
+ * A named sequence of command lines
+ */
+export interface Macro {
+  name: string;
+  description?: string;
+  steps: string[];          // Command lines; "confirm <message>" asks before continuing
+}
+
+/**
+ * Kind of user-defined command
+ */
+export type UserCommandType = 'alias' | 'macro';
+
+/**
+ * Structure of the macros file
+ */
+interface MacrosFile {
+  aliases: Alias[];
+  macros: Macro[];
+}
+
+// Names users can pick: a letter followed by letters, digits, dashes or underscores
+const NAME_PATTERN = /^[a-z][a-z0-9_-]*$/;
+
+// $1..$9 and $@ in a template
+const PARAMETER_PATTERN = /\$(@|[1-9])/;
+
+/**
+ * Class for managing user-defined aliases and macros
+ */
+export class MacroManager {
+  private static instance: MacroManager;
+  private macrosFile: string;
+  private data: MacrosFile = { aliases: [], macros: [] };
+  private loaded: boolean = false;
+
+  /**
+   * Private constructor to enforce singleton pattern
+   */
+  private constructor() {
+    // Set the path to the macros file
+    this.macrosFile = path.join(Workspace.getInstance().getDataDir(), 'macros.json');
+  }
+
+  /**
+   * Get the singleton instance
+   */
+  public static getInstance(): MacroManager {
+    if (!MacroManager.instance) {
+      MacroManager.instance = new MacroManager();
+    }
+    return MacroManager.instance;
+  }
+
+  /**
+   * Get the path of the macros file
+   */
+  public getMacrosFilePath(): string {
+    return this.macrosFile;
+  }
+
+  /**
+   * Load the aliases and macros from the file
+   */
+  public load(): void {
+    this.data = { aliases: [], macros: [] };
+    this.loaded = true;
+
+    if (!fs.existsSync(this.macrosFile)) {
+      return;
+    }
+
+    try {
+      const data = JSON.parse(fs.readFileSync(this.macrosFile, 'utf8'));
+      this.data = {
+        aliases: Array.isArray(data.aliases) ? data.aliases : [],
+        macros: Array.isArray(data.macros) ? data.macros : []
+      };
+    } catch (error) {
+      console.error(chalk.red('Error loading macros:'), error);
+    }
+  }
+
+  /**
+   * Save the aliases and macros to the file
+   */
+  public save(): void {
+    try {
+      const dir = path.dirname(this.macrosFile);
+      if (!fs.existsSync(dir)) {
+        fs.mkdirSync(dir, { recursive: true });
+      }
+
+      fs.writeFileSync(this.macrosFile, JSON.stringify(this.data, null, 2), 'utf8');
+    } catch (error) {
+      console.error(chalk.red('Error saving macros:'), error);
+      throw new Error('Failed to save macros');
+    }
+  }
+
+  /**
+   * Get all aliases
+   */
+  public getAliases(): Alias[] {
+    if (!this.loaded) {
+      this.load();
+    }
+    return this.data.aliases;
+  }
+
+  /**
+   * Get all macros
+   */
+  public getMacros(): Macro[] {
+    if (!this.loaded) {
+      this.load();
+    }
+    return this.data.macros;
+  }
+
+  /**
+   * Find an alias by name
+   *
+   * @param name - Alias name
+   */
+  public findAlias(name: string): Alias | undefined {
+    return this.getAliases().find(alias => alias.name === name.toLowerCase());
+  }
+
+  /**
+   * Find a macro by name
+   *
+   * @param name - Macro name
+   */
+  public findMacro(name: string): Macro | undefined {
+    return this.getMacros().find(macro => macro.name === name.toLowerCase());
+  }
+
+  /**
+   * Add or replace an alias
+   *
+   * @param name - Alias name
+   * @param command - Command line it expands to
+   * @returns The saved alias
+   */
+  public setAlias(name: string, command: string): Alias {
+    const alias: Alias = { name: validateName(name), command: command.trim() };
+    if (!alias.command) {
+      throw new ValidationError('Alias command is required');
+    }
+    if (this.findMacro(alias.name)) {
+      throw new ValidationError(`"${alias.name}" is already a macro`);
+    }
+
+    this.data.aliases = this.getAliases().filter(existing => existing.name !== alias.name);
+    this.data.aliases.push(alias);
+    this.save();
+
+    return alias;
+  }
+
+  /**
+   * Add or replace a macro
+   *
+   * @param name - Macro name
+   * @param steps - Command lines to run in order
+   * @param description - Optional description shown in help
+   * @returns The saved macro
+   */
+  public setMacro(name: string, steps: string[], description?: string): Macro {
+    const macro: Macro = { name: validateName(name), steps: steps.map(step => step.trim()).filter(step => step !== '') };
+    if (macro.steps.length === 0) {
+      throw new ValidationError('A macro needs at least one step');
+    }
+    if (description && description.trim()) {
+      macro.description = description.trim();
+    }
+    if (this.findAlias(macro.name)) {
+      throw new ValidationError(`"${macro.name}" is already an alias`);
+    }
+
+    this.data.macros = this.getMacros().filter(existing => existing.name !== macro.name);
+    this.data.macros.push(macro);
+    this.save();
+
+    return macro;
+  }
+
+  /**
+   * Remove an alias or macro
+   *
+   * @param name - Alias or macro name
+   * @param type - Kind of command to remove; one of the other kind is left alone
+   * @returns True if something was removed
+   */
+  public remove(name: string, type: UserCommandType): boolean {
+    const lower = name.toLowerCase();
+
+    if (type === 'alias') {
+      const count = this.getAliases().length;
+      this.data.aliases = this.data.aliases.filter(alias => alias.name !== lower);
+      if (this.data.aliases.length === count) {
+        return false;
+      }
+    } else {
+      const count = this.getMacros().length;
+      this.data.macros = this.data.macros.filter(macro => macro.name !== lower);
+      if (this.data.macros.length === count) {
+        return false;
+      }
+    }
+
+    this.save();
+    return true;
+  }
+}
+
+/**
+ * Check whether a template refers to positional parameters
+ *
+ * @param template - Alias command or macro step
+ */
+export function usesParameters(template: string): boolean {
+  return PARAMETER_PATTERN.test(template);
+}
+
+/**
+ * Substitute $1..$9 and $@ in a template with the given arguments
+ *
+ * Arguments are quoted as needed so each one stays a single token.
+ *
+ * @param template - Alias command or macro step
+ * @param argv - Arguments passed to the alias or macro
+ * @param name - Alias or macro name, for error messages
+ * @returns The expanded command line
+ * @throws ValidationError if the template needs an argument that was not given
+ */
+export function expandParameters(template: string, argv: string[], name: string): string {
+  return template.replace(/\$(@|[1-9])/g, (_whole, parameter) => {
+    if (parameter === '@') {
+      return argv.map(quoteToken).join(' ');
+    }
+
+    const value = argv[parseInt(parameter, 10) - 1];
+    if (value === undefined) {
+      throw new ValidationError(`${name} needs argument $${parameter}`);
+    }
+    return quoteToken(value);
+  });
+}
+
+/**
+ * Validate and normalize an alias or macro name
+ *
+ * @param name - Name entered by the user
+ */
+function validateName(name: string): string {
+  const lower = name.trim().toLowerCase();
+  if (!NAME_PATTERN.test(lower)) {
+    throw new ValidationError(`Invalid name "${name}". Use letters, digits, dashes and underscores, starting with a letter`);
+  }
+  return lower;
+}
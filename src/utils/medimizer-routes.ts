@@ -0,0 +1,188 @@
+import fs from 'fs';
+import path from 'path';
+import chalk from 'chalk';
+import { ConfigManager } from './config-manager';
+import { Workspace } from './workspace';
+import { ValidationError } from './errors';
+
+/**
+ * Interface for a named Medimizer environment profile
+ */
+export interface MedimizerEnvironment {
+  name: string;           // Profile name used with "env use"
+  baseUrl: string;        // Base URL of the MMWeb application, without trailing slash
+  database?: string;      // Database forced at login (falls back to the stored credentials)
+  description: string;    // Human readable description
+}
+
+/**
+ * Tabs of the work order form
+ */
+export const WO_TABS = {
+  general: 0,
+  services: 1,
+  notes: 2
+};
+
+/**
+ * Built-in environment profiles
+ */
+export const BUILT_IN_ENVIRONMENTS: MedimizerEnvironment[] = [
+  {
+    name: 'prod',
+    baseUrl: 'http://sqlmedimizer1/MMWeb',
+    description: 'Production Medimizer'
+  },
+  {
+    name: 'prod-ip',
+    baseUrl: 'http://10.221.0.155/MMWeb',
+    description: 'Production Medimizer addressed by IP, for when DNS is unavailable'
+  },
+  {
+    name: 'test',
+    baseUrl: 'http://sqlmedimizer1/MMWeb',
+    database: 'TEST',
+    description: 'Production server logged in to the TEST database'
+  },
+  {
+    name: 'local-mock',
+    baseUrl: 'http://localhost:8080/MMWeb',
+    database: 'TEST',
+    description: 'Local fake Medimizer for development'
+  }
+];
+
+/**
+ * Class that builds every Medimizer page URL from the active environment profile
+ */
+export class MedimizerRoutes {
+  private static instance: MedimizerRoutes;
+  private environmentsFile: string;
+
+  /**
+   * Private constructor to enforce singleton pattern
+   */
+  private constructor() {
+    // User-defined environments live next to the rest of the data
+    this.environmentsFile = path.join(Workspace.getInstance().getDataDir(), 'environments.json');
+  }
+
+  /**
+   * Get the singleton instance
+   */
+  public static getInstance(): MedimizerRoutes {
+    if (!MedimizerRoutes.instance) {
+      MedimizerRoutes.instance = new MedimizerRoutes();
+    }
+    return MedimizerRoutes.instance;
+  }
+
+  /**
+   * Get the path of the user-defined environments file
+   */
+  public getEnvironmentsFilePath(): string {
+    return this.environmentsFile;
+  }
+
+  /**
+   * Get all environment profiles, with user-defined profiles overriding built-ins of the same name
+   */
+  public getEnvironments(): MedimizerEnvironment[] {
+    const environments = [...BUILT_IN_ENVIRONMENTS];
+
+    if (!fs.existsSync(this.environmentsFile)) {
+      return environments;
+    }
+
+    try {
+      const data = JSON.parse(fs.readFileSync(this.environmentsFile, 'utf8'));
+      const custom: Array<Partial<MedimizerEnvironment> | null> = Array.isArray(data) ? data : [];
+
+      custom.forEach(env => {
+        if (!env || typeof env.name !== 'string' || typeof env.baseUrl !== 'string') {
+          console.log(chalk.yellow(`Ignoring invalid environment in ${this.environmentsFile}: ${JSON.stringify(env)}`));
+          return;
+        }
+
+        const profile: MedimizerEnvironment = {
+          name: env.name,
+          baseUrl: env.baseUrl.replace(/\/+$/, ''),
+          database: env.database,
+          description: env.description || 'Custom environment'
+        };
+
+        const index = environments.findIndex(existing => existing.name === profile.name);
+        if (index >= 0) {
+          environments[index] = profile;
+        } else {
+          environments.push(profile);
+        }
+      });
+    } catch (error) {
+      console.error(chalk.red('Error loading environments:'), error);
+    }
+
+    return environments;
+  }
+
+  /**
+   * Find an environment profile by name
+   *
+   * @param name - Profile name
+   * @returns The profile, or undefined if no profile has that name
+   */
+  public findEnvironment(name: string): MedimizerEnvironment | undefined {
+    return this.getEnvironments().find(env => env.name === name);
+  }
+
+  /**
+   * Get the environment profile selected in the configuration
+   */
+  public getActiveEnvironment(): MedimizerEnvironment {
+    const name = ConfigManager.getInstance().getString('medimizer.environment');
+    const environment = this.findEnvironment(name);
+
+    if (!environment) {
+      const names = this.getEnvironments().map(env => env.name).join(', ');
+      throw new ValidationError(`Unknown Medimizer environment "${name}". Available: ${names}`);
+    }
+
+    return environment;
+  }
+
+  /**
+   * URL of the login page
+   */
+  public loginUrl(): string {
+    return `${this.getActiveEnvironment().baseUrl}/Default.aspx`;
+  }
+
+  /**
+   * URL of a tab of the work order form
+   *
+   * @param workOrderNumber - 7-digit work order number
+   * @param tab - Tab number (see WO_TABS)
+   */
+  public workOrderUrl(workOrderNumber: string, tab: number = WO_TABS.general): string {
+    return `${this.getActiveEnvironment().baseUrl}/App_Pages/WOForm.aspx?wo=${workOrderNumber}&mode=Edit&tab=${tab}`;
+  }
+
+  /**
+   * URL of the form for adding a service to a work order
+   *
+   * @param workOrderNumber - 7-digit work order number
+   */
+  public serviceAddUrl(workOrderNumber: string): string {
+    return `${this.getActiveEnvironment().baseUrl}/App_Pages/ServiceForm.aspx?WO=${workOrderNumber}&Service=add`;
+  }
+
+  /**
+   * URL of the form for editing an existing service
+   *
+   * @param workOrderNumber - 7-digit work order number
+   * @param serviceId - Medimizer service ID
+   */
+  public serviceEditUrl(workOrderNumber: string, serviceId: string): string {
+    return `${this.getActiveEnvironment().baseUrl}/App_Pages/ServiceForm.aspx?WO=${workOrderNumber}&Service=${serviceId}`;
+  }
+}
@@ -0,0 +1,702 @@
+import { NotesSyntaxError } from './errors';
+
+/**
+ * Kind of token in a service line
+ */
+export type NotesTokenKind = 'lbracket' | 'rbracket' | 'lparen' | 'rparen' | 'comma' | 'arrow' | 'space' | 'text' | 'eol';
+
+/**
+ * A token of a service line
+ */
+export interface NotesToken {
+  kind: NotesTokenKind;
+  text: string;
+  line: number;             // 1-based line number
+  column: number;           // 1-based column of the first character
+}
+
+/**
+ * Position of a piece of a service line
+ */
+export interface SourceSpan {
+  line: number;
+  column: number;           // 1-based column of the first character
+  length: number;
+}
+
+/**
+ * An explicit duration written on a service line: (30min), (1h15m), (1.5h) or (09:00-09:45)
+ */
+export interface DurationToken {
+  raw: string;              // Text inside the parentheses, e.g. "1h15m"
+  minutes: number;
+  span: SourceSpan;         // Covers the parentheses
+}
+
+/**
+ * A parsed "[Verb, Noun] (30min) (YYYY-MM-DD HH:MM) => notes" line
+ */
+export interface ServiceNode {
+  type: 'service';
+  line: number;
+  column: number;
+  raw: string;              // The whole line as written
+  checklist?: string;       // "- [x] " prefix when the service is a checked checklist item
+  label: string;            // Everything between the brackets
+  verb: string;
+  verbSpan: SourceSpan;
+  noun?: string;
+  nounSpan?: SourceSpan;
+  datetime: string;
+  datetimeSpan: SourceSpan; // Covers the text inside the parentheses
+  duration?: DurationToken;
+  markers: string[];        // Markers such as "(||)" found in the notes
+  notes: string;            // Notes with markers removed, continuation lines joined with "\n"
+  notesSpan: SourceSpan;    // Covers everything after "=>" on the service line
+  continuation: string[];   // Indented or ">" lines under the service, prefix removed
+  parts: PartNode[];        // "+part" lines under the service
+  endLine: number;          // Last line belonging to the service
+}
+
+/**
+ * A parsed "+part 12345XYZ x2 @250.75 "O-ring kit"" line
+ */
+export interface PartNode {
+  type: 'part';
+  line: number;
+  column: number;
+  partNumber: string;
+  quantity: number;         // Defaults to 1
+  cost?: number;            // Cost per part; the catalog cost is used when omitted
+  description?: string;
+}
+
+/**
+ * Every service line of a notes file, plus the lines that looked like services but did not parse
+ */
+export interface NotesDocument {
+  services: ServiceNode[];
+  errors: NotesSyntaxError[];
+}
+
+// Marker written on services imported from Medimizer
+export const IMPORTED_MARKER = '(||)';
+
+// Indented lines, or lines starting with ">", continue the notes of the service above
+const CONTINUATION_PATTERN = /^(?:[ \t]+\S|[ \t]*>)/;
+
+// "=====" and "-----" rules, "~Notes~" and markdown headings start a new section
+const BANNER_PATTERN = /^\s*(?:={3,}|-{3,}|~[^~]+~\s*$|#)/;
+
+// "- [ ] " or "- [x] " before a "[Verb, Noun]" checklist item
+const CHECKLIST_PATTERN = /^\s*[-*]\s+\[([ xX])\]\s+(?=\[)/;
+
+// "+part" at the start of a line, optionally indented
+const PART_PATTERN = /^(\s*)\+part\b/i;
+
+// Pieces of a part line: a quoted description or a run of non-space characters
+const PART_FIELD_PATTERN = /"([^"]*)"|"[^"]*$|\S+/g;
+
+// Punctuation-only groups in the notes, e.g. "(||)"
+const MARKER_PATTERN = /\([^\w\s()]+\)/g;
+
+const DATETIME_PATTERN = /^\d{4}-\d{1,2}-\d{1,2}\s+\d{1,2}[:-]\d{2}$/;
+const MINUTES_PATTERN = /^(\d+)\s*m(?:in|ins|inutes?)?$/i;
+const HOURS_PATTERN = /^(\d+(?:\.\d+)?)\s*h(?:rs?|ours?)?$/i;
+const HOURS_MINUTES_PATTERN = /^(\d+)\s*h\s*(\d+)\s*m(?:in|ins)?$/i;
+const RANGE_PATTERN = /^(\d{1,2}):(\d{2})\s*[-\u2013]\s*(\d{1,2}):(\d{2})$/;
+
+/**
+ * Split one line of notes into tokens
+ *
+ * Text runs stop at brackets, parentheses, commas, "=>" and whitespace.
+ *
+ * @param text - Line of notes
+ * @param lineNumber - 1-based line number, recorded on each token
+ * @returns The tokens, always ending with an "eol" token
+ */
+export function lexServiceLine(text: string, lineNumber: number): NotesToken[] {
+  const tokens: NotesToken[] = [];
+  const singles: Record<string, NotesTokenKind> = {
+    '[': 'lbracket',
+    ']': 'rbracket',
+    '(': 'lparen',
+    ')': 'rparen',
+    ',': 'comma'
+  };
+
+  let i = 0;
+  while (i < text.length) {
+    const char = text[i];
+    const column = i + 1;
+
+    if (singles[char]) {
+      tokens.push({ kind: singles[char], text: char, line: lineNumber, column });
+      i++;
+    } else if (text.startsWith('=>', i)) {
+      tokens.push({ kind: 'arrow', text: '=>', line: lineNumber, column });
+      i += 2;
+    } else if (/\s/.test(char)) {
+      let end = i;
+      while (end < text.length && /\s/.test(text[end])) end++;
+      tokens.push({ kind: 'space', text: text.slice(i, end), line: lineNumber, column });
+      i = end;
+    } else {
+      let end = i;
+      while (end < text.length && !singles[text[end]] && !/\s/.test(text[end]) && !text.startsWith('=>', end)) end++;
+      tokens.push({ kind: 'text', text: text.slice(i, end), line: lineNumber, column });
+      i = end;
+    }
+  }
+
+  tokens.push({ kind: 'eol', text: '', line: lineNumber, column: text.length + 1 });
+  return tokens;
+}
+
+/**
+ * Parse one line of notes
+ *
+ * Lines that do not start with "[" are prose and yield null, as are "[" lines with neither "=>"
+ * nor a "(" group after the "]", such as "[see manual] p. 12". A checked checklist item,
+ * "- [x] [Verb, Noun] (YYYY-MM-DD HH:MM) => notes", is a service; unchecked items are prose.
+ *
+ * @param text - Line of notes
+ * @param lineNumber - 1-based line number
+ * @returns The service node, or null for prose
+ * @throws NotesSyntaxError if the line starts like a service but breaks the syntax
+ */
+export function parseServiceLine(text: string, lineNumber: number): ServiceNode | null {
+  // A checked checklist item is a service; blank its prefix so columns stay the same
+  const checklist = text.match(CHECKLIST_PATTERN);
+  if (checklist && checklist[1] === ' ') {
+    return null;
+  }
+  const source = checklist ? ' '.repeat(checklist[0].length) + text.slice(checklist[0].length) : text;
+
+  const parser = new ServiceLineParser(lexServiceLine(source, lineNumber), lineNumber);
+  const node = parser.parse(source);
+  if (node && checklist) {
+    node.raw = text;
+    node.checklist = checklist[0];
+  }
+  return node;
+}
+
+/**
+ * Find a checked checklist item that has no timestamp yet
+ *
+ * @param text - Line of notes
+ * @returns The prefix, "[Verb, Noun]" label and the rest of the line, or null
+ */
+export function matchUnstampedChecklistItem(text: string): { prefix: string; label: string; rest: string } | null {
+  const checklist = text.match(CHECKLIST_PATTERN);
+  if (!checklist || checklist[1] === ' ') {
+    return null;
+  }
+
+  const body = text.slice(checklist[0].length);
+  const close = body.indexOf(']');
+  if (close < 0) {
+    return null;
+  }
+
+  const rest = body.slice(close + 1);
+  const beforeArrow = rest.split('=>')[0];
+  if (/\(\s*\d{4}-\d{1,2}-\d{1,2}\s+\d{1,2}[:-]\d{2}\s*\)/.test(beforeArrow)) {
+    return null;
+  }
+
+  return { prefix: checklist[0], label: body.slice(0, close + 1), rest: rest.trim() };
+}
+
+/**
+ * Parse every service line of a notes file
+ *
+ * Indented lines and lines starting with ">" under a service line are added to its notes,
+ * and "+part" lines to its parts, up to the next service line, section banner or unindented prose. Blank lines in between
+ * are kept as paragraph breaks. Syntax errors are collected rather than thrown so one bad
+ * line does not hide the rest.
+ *
+ * @param content - Contents of the notes file
+ * @returns The service nodes and syntax errors in line order
+ */
+export function parseNotes(content: string): NotesDocument {
+  const document: NotesDocument = { services: [], errors: [] };
+  let current: ServiceNode | null = null;
+  let pendingBlanks = 0;
+
+  content.split(/\r?\n/).forEach((text, index) => {
+    const lineNumber = index + 1;
+
+    // Parts charged to the service above
+    try {
+      const part = parsePartLine(text, lineNumber);
+      if (part) {
+        if (!current) {
+          throw new NotesSyntaxError('+part must follow a service line', lineNumber, part.column);
+        }
+        current.parts.push(part);
+        current.endLine = lineNumber;
+        pendingBlanks = 0;
+        return;
+      }
+    } catch (error) {
+      if (error instanceof NotesSyntaxError) {
+        document.errors.push(error);
+        return;
+      }
+      throw error;
+    }
+
+    // Continuation of the service above
+    if (current && text.trim() === '') {
+      pendingBlanks++;
+      return;
+    }
+    if (current && CONTINUATION_PATTERN.test(text) && !BANNER_PATTERN.test(text) && !text.trim().startsWith('[') && !CHECKLIST_PATTERN.test(text)) {
+      for (; pendingBlanks > 0; pendingBlanks--) {
+        current.continuation.push('');
+      }
+      current.continuation.push(stripContinuation(text));
+      current.notes = joinNotes(current);
+      current.endLine = lineNumber;
+      return;
+    }
+
+    current = null;
+    pendingBlanks = 0;
+
+    try {
+      const node = parseServiceLine(text, lineNumber);
+      if (node) {
+        document.services.push(node);
+        current = node;
+      }
+    } catch (error) {
+      if (error instanceof NotesSyntaxError) {
+        document.errors.push(error);
+      } else {
+        throw error;
+      }
+    }
+  });
+
+  return document;
+}
+
+/**
+ * Parse a "+part <part-number> [xQTY] [@COST] ["description"]" line
+ *
+ * @param text - Line of notes
+ * @param lineNumber - 1-based line number
+ * @returns The part node, or null if the line is not a part line
+ * @throws NotesSyntaxError if a field of the part line is malformed
+ */
+export function parsePartLine(text: string, lineNumber: number): PartNode | null {
+  const match = text.match(PART_PATTERN);
+  if (!match) {
+    return null;
+  }
+
+  const column = match[1].length + 1;
+  const part: PartNode = { type: 'part', line: lineNumber, column, partNumber: '', quantity: 1 };
+  const seen: Set<string> = new Set();
+  const fail = (message: string, index: number) => new NotesSyntaxError(message, lineNumber, index + 1);
+  const once = (field: string, index: number) => {
+    if (seen.has(field)) {
+      throw fail(`${field} given twice`, index);
+    }
+    seen.add(field);
+  };
+
+  const fields = new RegExp(PART_FIELD_PATTERN.source, 'g');
+  fields.lastIndex = match[0].length;
+
+  let field: RegExpExecArray | null;
+  while ((field = fields.exec(text)) !== null) {
+    const value = field[0];
+
+    if (value.startsWith('"')) {
+      if (field[1] === undefined) {
+        throw fail('Missing closing quote after the description', field.index);
+      }
+      once('Description', field.index);
+      part.description = field[1].trim() || undefined;
+    } else if (!part.partNumber) {
+      part.partNumber = value;
+    } else if (/^[x\u00d7]/i.test(value)) {
+      once('Quantity', field.index);
+      if (!/^[x\u00d7][1-9]\d*$/i.test(value)) {
+        throw fail(`Quantity "${value}" should be x followed by a whole number, e.g. x2`, field.index);
+      }
+      part.quantity = parseInt(value.slice(1), 10);
+    } else if (value.startsWith('@')) {
+      once('Cost', field.index);
+      if (!/^@\$?\d+(?:\.\d{1,2})?$/.test(value)) {
+        throw fail(`Cost "${value}" should look like @250.75`, field.index);
+      }
+      part.cost = parseFloat(value.replace(/^@\$?/, ''));
+    } else {
+      throw fail(`Unexpected "${value}"; expected xQTY, @COST or a "description"`, field.index);
+    }
+  }
+
+  if (!part.partNumber) {
+    throw fail('Expected a part number after +part', text.trimEnd().length);
+  }
+
+  return part;
+}
+
+/**
+ * Remove the indent or ">" prefix of a continuation line
+ *
+ * @param text - Continuation line as written
+ */
+function stripContinuation(text: string): string {
+  const trimmed = text.trim();
+  return trimmed.startsWith('>') ? trimmed.slice(1).trim() : trimmed;
+}
+
+/**
+ * Join the notes of a service line with its continuation lines
+ *
+ * @param node - Service with continuation lines
+ */
+function joinNotes(node: ServiceNode): string {
+  const firstLine = getRawNotes(node).replace(MARKER_PATTERN, '').trim();
+  return [firstLine, ...node.continuation].join('\n').trim();
+}
+
+/**
+ * Convert the text of an explicit duration to minutes
+ *
+ * @param text - Text inside the parentheses, e.g. "10min", "1h15m", "1.5h" or "09:00-09:45"
+ * @returns The whole number of minutes, or null if the text is not a duration
+ */
+export function parseDurationText(text: string): number | null {
+  const value = text.trim();
+  let match = value.match(MINUTES_PATTERN);
+  if (match) {
+    return parseInt(match[1], 10);
+  }
+
+  match = value.match(HOURS_MINUTES_PATTERN);
+  if (match) {
+    return parseInt(match[1], 10) * 60 + parseInt(match[2], 10);
+  }
+
+  match = value.match(HOURS_PATTERN);
+  if (match) {
+    return Math.round(parseFloat(match[1]) * 60);
+  }
+
+  match = value.match(RANGE_PATTERN);
+  if (match) {
+    const [startHours, startMinutes, endHours, endMinutes] = match.slice(1).map(part => parseInt(part, 10));
+    if (startHours > 23 || endHours > 23 || startMinutes > 59 || endMinutes > 59) {
+      return null;
+    }
+
+    const minutes = (endHours * 60 + endMinutes) - (startHours * 60 + startMinutes);
+    return minutes > 0 ? minutes : null;
+  }
+
+  return null;
+}
+
+/**
+ * Write a number of minutes as a duration service lines accept
+ *
+ * @param minutes - Whole minutes
+ * @returns e.g. "20min", "1h" or "1h15m"
+ */
+export function formatDurationText(minutes: number): string {
+  if (minutes < 60) {
+    return `${minutes}min`;
+  }
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  return rest === 0 ? `${hours}h` : `${hours}h${rest}m`;
+}
+
+/**
+ * Convert a service-line datetime to a Date
+ *
+ * Accepts "YYYY-MM-DD HH:MM" and "YYYY-MM-DD HH-MM" and rejects impossible dates such as 2025-02-30.
+ *
+ * @param value - Datetime text from a service line
+ * @returns The local date and time, or null if the text is not a real date and time
+ */
+export function parseNotesDatetime(value: string): Date | null {
+  const match = value.trim().match(/^(\d{4})-(\d{1,2})-(\d{1,2})\s+(\d{1,2})[:-](\d{2})$/);
+  if (!match) {
+    return null;
+  }
+
+  const [year, month, day, hours, minutes] = match.slice(1).map(part => parseInt(part, 10));
+  const date = new Date(year, month - 1, day, hours, minutes);
+
+  // Date rolls invalid values over (Feb 30 -> Mar 2), so compare the fields back
+  if (date.getFullYear() !== year || date.getMonth() !== month - 1 || date.getDate() !== day ||
+      date.getHours() !== hours || date.getMinutes() !== minutes) {
+    return null;
+  }
+
+  return date;
+}
+
+/**
+ * Format a Date the way service lines write it
+ *
+ * @param date - Date to format
+ * @returns "YYYY-MM-DD HH:MM"
+ */
+export function formatNotesDatetime(date: Date): string {
+  const pad = (value: number) => value.toString().padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
+
+/**
+ * Write a service line in the canonical layout
+ *
+ * @param parts - Pieces of the line; notes may include markers; prefix keeps a "- [x] " checklist box
+ * @returns "[Verb, Noun] (30min) (YYYY-MM-DD HH:MM) => notes"
+ */
+export function formatServiceLine(parts: { verb: string; noun?: string; duration?: string; datetime: string; notes: string; prefix?: string }): string {
+  const label = parts.noun ? `${parts.verb}, ${parts.noun}` : parts.verb;
+  const duration = parts.duration ? ` (${parts.duration})` : '';
+  return `${parts.prefix || ''}[${label}]${duration} (${parts.datetime}) => ${parts.notes}`.trimEnd();
+}
+
+/**
+ * Collapse multi-line service notes onto one line for lists and summaries
+ *
+ * @param notes - Service notes, possibly with continuation lines
+ * @param maxLength - Truncate with "..." beyond this many characters
+ * @returns The lines joined with " / "
+ */
+export function summarizeNotes(notes: string, maxLength?: number): string {
+  const summary = notes.split('\n').map(line => line.trim()).filter(line => line !== '').join(' / ');
+  if (maxLength !== undefined && summary.length > maxLength) {
+    return summary.substring(0, maxLength) + '...';
+  }
+  return summary;
+}
+
+/**
+ * Get the notes of a service line exactly as written, markers included
+ *
+ * @param node - Parsed service line
+ */
+export function getRawNotes(node: ServiceNode): string {
+  return node.raw.slice(node.notesSpan.column - 1).trim();
+}
+
+/**
+ * Recursive-descent parser over the tokens of a single line
+ */
+class ServiceLineParser {
+  private tokens: NotesToken[];
+  private lineNumber: number;
+  private position: number = 0;
+
+  /**
+   * @param tokens - Tokens from lexServiceLine()
+   * @param lineNumber - 1-based line number, for errors
+   */
+  constructor(tokens: NotesToken[], lineNumber: number) {
+    this.tokens = tokens;
+    this.lineNumber = lineNumber;
+  }
+
+  /**
+   * Parse the line
+   *
+   * @param text - The line as written
+   */
+  public parse(text: string): ServiceNode | null {
+    // Step 1: Only lines starting with "[" and shaped like a service are service lines
+    this.skipSpace();
+    const open = this.peek();
+    if (open.kind !== 'lbracket' || !this.looksLikeService()) {
+      return null;
+    }
+    this.next();
+
+    // Step 2: [Verb, Noun]
+    const labelTokens: NotesToken[] = [];
+    while (this.peek().kind !== 'rbracket') {
+      if (this.peek().kind === 'eol') {
+        throw this.error('Missing ] after the verb and noun', open);
+      }
+      labelTokens.push(this.next());
+    }
+    const close = this.next();
+
+    const commaIndex = labelTokens.findIndex(token => token.kind === 'comma');
+    const verbTokens = commaIndex >= 0 ? labelTokens.slice(0, commaIndex) : labelTokens;
+    const nounTokens = commaIndex >= 0 ? labelTokens.slice(commaIndex + 1) : [];
+
+    const verb = this.joinTokens(verbTokens, open.column + 1);
+    if (!verb.value) {
+      throw this.error('Expected a verb after [', labelTokens[0] || close);
+    }
+
+    const noun = commaIndex >= 0 ? this.joinTokens(nounTokens, labelTokens[commaIndex].column + 1) : null;
+    if (noun && !noun.value) {
+      throw this.error('Expected a noun after the comma', labelTokens[commaIndex]);
+    }
+
+    // Step 3: optional (30min) and the required (YYYY-MM-DD HH:MM), in either order
+    let duration: DurationToken | undefined;
+    let datetime: { value: string; span: SourceSpan } | null = null;
+
+    this.skipSpace();
+    while (this.peek().kind === 'lparen') {
+      const lparen = this.next();
+      const innerTokens: NotesToken[] = [];
+      while (this.peek().kind !== 'rparen') {
+        if (this.peek().kind === 'eol') {
+          throw this.error('Missing )', lparen);
+        }
+        innerTokens.push(this.next());
+      }
+      const rparen = this.next();
+      const inner = this.joinTokens(innerTokens, lparen.column + 1);
+      const minutes = parseDurationText(inner.value);
+
+      if (minutes !== null && !duration) {
+        duration = {
+          raw: inner.value,
+          minutes,
+          span: { line: this.lineNumber, column: lparen.column, length: rparen.column - lparen.column + 1 }
+        };
+      } else if (DATETIME_PATTERN.test(inner.value) && !datetime) {
+        datetime = inner;
+      } else if (RANGE_PATTERN.test(inner.value)) {
+        throw this.error(`Time range (${inner.value}) ends before it starts`, lparen);
+      } else {
+        throw this.error(`Expected (YYYY-MM-DD HH:MM) or a duration like (30min), (1h15m), (1.5h) or (09:00-09:45), found (${inner.value})`, lparen);
+      }
+      this.skipSpace();
+    }
+
+    if (!datetime) {
+      throw this.error('Expected (YYYY-MM-DD HH:MM) after ]', this.peek());
+    }
+
+    // Step 4: => notes
+    const arrow = this.peek();
+    if (arrow.kind !== 'arrow') {
+      throw this.error('Expected => before the notes', arrow);
+    }
+
+    const notesStart = arrow.column + 1;  // 0-based index just past "=>"
+    const notesRaw = text.slice(notesStart);
+    const markers = notesRaw.match(MARKER_PATTERN) || [];
+
+    const node: ServiceNode = {
+      type: 'service',
+      line: this.lineNumber,
+      column: open.column,
+      raw: text,
+      label: text.slice(open.column, close.column - 1).trim(),
+      verb: verb.value,
+      verbSpan: verb.span,
+      datetime: datetime.value,
+      datetimeSpan: datetime.span,
+      markers,
+      notes: notesRaw.replace(MARKER_PATTERN, '').trim(),
+      notesSpan: { line: this.lineNumber, column: notesStart + 1, length: notesRaw.length },
+      continuation: [],
+      parts: [],
+      endLine: this.lineNumber
+    };
+
+    if (noun) {
+      node.noun = noun.value;
+      node.nounSpan = noun.span;
+    }
+    if (duration) {
+      node.duration = duration;
+    }
+
+    return node;
+  }
+
+  /**
+   * Check whether the line has "=>", or a "]" followed by a group such as "(30min)" or "(2025-...)"
+   *
+   * Anything else starting with "[" is prose, e.g. a note or a markdown link.
+   */
+  private looksLikeService(): boolean {
+    if (this.tokens.some(token => token.kind === 'arrow')) {
+      return true;
+    }
+
+    let index = this.tokens.findIndex(token => token.kind === 'rbracket');
+    if (index < 0) {
+      return false;
+    }
+    index++;
+    while (this.tokens[index].kind === 'space') index++;
+    return this.tokens[index].kind === 'lparen' && /^\d/.test(this.tokens[index + 1].text);
+  }
+
+  /**
+   * Look at the current token
+   */
+  private peek(): NotesToken {
+    return this.tokens[this.position];
+  }
+
+  /**
+   * Consume the current token
+   */
+  private next(): NotesToken {
+    const token = this.tokens[this.position];
+    if (token.kind !== 'eol') {
+      this.position++;
+    }
+    return token;
+  }
+
+  /**
+   * Consume any whitespace
+   */
+  private skipSpace(): void {
+    while (this.peek().kind === 'space') {
+      this.position++;
+    }
+  }
+
+  /**
+   * Join tokens into trimmed text and the span it covers
+   *
+   * @param tokens - Tokens to join
+   * @param fallbackColumn - Column used when there is no text
+   */
+  private joinTokens(tokens: NotesToken[], fallbackColumn: number): { value: string; span: SourceSpan } {
+    const first = tokens.findIndex(token => token.kind !== 'space');
+    if (first < 0) {
+      return { value: '', span: { line: this.lineNumber, column: fallbackColumn, length: 0 } };
+    }
+
+    let last = tokens.length - 1;
+    while (tokens[last].kind === 'space') last--;
+
+    const value = tokens.slice(first, last + 1).map(token => token.text).join('');
+    return { value, span: { line: this.lineNumber, column: tokens[first].column, length: value.length } };
+  }
+
+  /**
+   * Build a syntax error pointing at a token
+   *
+   * @param message - What went wrong
+   * @param token - Token the error points at
+   */
+  private error(message: string, token: NotesToken): NotesSyntaxError {
+    return new NotesSyntaxError(message, this.lineNumber, token.column);
+  }
+}
@@ -0,0 +1,189 @@
+import { CodeLookup, formatSuggestions } from './code-lookup';
+import {
+  ServiceNode,
+  SourceSpan,
+  IMPORTED_MARKER,
+  parseNotes,
+  parseNotesDatetime,
+  formatNotesDatetime,
+  formatServiceLine,
+  getRawNotes
+} from './notes-grammar';
+
+/**
+ * Severity of a lint problem; only errors make lint fail
+ */
+export type LintSeverity = 'error' | 'warning';
+
+/**
+ * A problem found on a line of a notes file
+ */
+export interface NotesDiagnostic {
+  line: number;
+  column: number;
+  severity: LintSeverity;
+  rule: string;             // Short rule id, e.g. "unknown-verb"
+  message: string;
+  fixable: boolean;         // True when --fix would correct it
+}
+
+/**
+ * Result of linting a notes file
+ */
+export interface LintResult {
+  diagnostics: NotesDiagnostic[];
+  fixedContent: string;     // Content with the safe fixes applied
+  fixedLines: number;       // Number of lines --fix would change
+}
+
+/**
+ * Check the service lines of a notes file
+ *
+ * Services imported from Medimizer (marked "(||)") are only checked for syntax and duplicates.
+ * Safe fixes: verb and noun capitalization and aliases (reported as warnings, since stacking
+ * resolves them too), zero-padded "YYYY-MM-DD HH:MM" timestamps and canonical spacing around
+ * brackets, parentheses and "=>".
+ *
+ * @param content - Contents of the notes file
+ * @param now - Current time, for the future-timestamp check
+ * @returns The diagnostics in line order and the fixed content
+ */
+export async function lintNotes(content: string, now: Date = new Date()): Promise<LintResult> {
+  const codeLookup = CodeLookup.getInstance();
+  await codeLookup.initialize(true);
+
+  const document = parseNotes(content);
+  const diagnostics: NotesDiagnostic[] = [];
+  const newline = content.includes('\r\n') ? '\r\n' : '\n';
+  const lines = content.split(/\r?\n/);
+  let fixedLines = 0;
+
+  const report = (span: SourceSpan, severity: LintSeverity, rule: string, message: string, fixable: boolean = false) => {
+    diagnostics.push({ line: span.line, column: span.column, severity, rule, message, fixable });
+  };
+
+  // Step 1: Syntax errors
+  document.errors.forEach(syntaxError => {
+    diagnostics.push({
+      line: syntaxError.line,
+      column: syntaxError.column,
+      severity: 'error',
+      rule: 'syntax',
+      message: syntaxError.message.replace(/^Line \d+, column \d+: /, ''),
+      fixable: false
+    });
+  });
+
+  // Step 2: Check each service line
+  const seen: Map<string, number> = new Map();
+  let previous: { date: Date; line: number } | null = null;
+
+  document.services.forEach(node => {
+    const at = { line: node.line, column: node.column, length: 0 };
+
+    const duplicateOf = seen.get(node.raw.trim());
+    if (duplicateOf !== undefined) {
+      report(at, 'warning', 'duplicate-line', `Same service as line ${duplicateOf}`);
+    } else {
+      seen.set(node.raw.trim(), node.line);
+    }
+
+    if (node.markers.includes(IMPORTED_MARKER)) {
+      return;
+    }
+
+    const codes = checkCodes(node, codeLookup, report);
+
+    // Timestamps
+    const date = parseNotesDatetime(node.datetime);
+    if (!date) {
+      report(node.datetimeSpan, 'error', 'bad-timestamp', `"${node.datetime}" is not a valid date and time`);
+    } else {
+      if (date.getTime() > now.getTime()) {
+        report(node.datetimeSpan, 'error', 'future-timestamp', `${node.datetime} is in the future`);
+      }
+      if (previous && date.getTime() < previous.date.getTime()) {
+        report(node.datetimeSpan, 'warning', 'out-of-order', `${node.datetime} is earlier than the service on line ${previous.line}`);
+      }
+      previous = { date, line: node.line };
+    }
+
+    // Safe normalizations
+    const fixed = formatServiceLine({
+      verb: codes.verb,
+      noun: codes.noun,
+      duration: node.duration ? node.duration.raw : undefined,
+      datetime: date ? formatNotesDatetime(date) : node.datetime,
+      notes: getRawNotes(node),
+      prefix: node.checklist
+    });
+
+    if (fixed !== lines[node.line - 1]) {
+      lines[node.line - 1] = fixed;
+      fixedLines++;
+    }
+  });
+
+  diagnostics.sort((a, b) => a.line - b.line || a.column - b.column);
+
+  return { diagnostics, fixedContent: lines.join(newline), fixedLines };
+}
+
+/**
+ * Check the verb and noun of a service against the code tables
+ *
+ * @param node - Parsed service line
+ * @param codeLookup - Loaded code tables
+ * @param report - Callback that records a diagnostic
+ * @returns The verb and noun as they should be written
+ */
+function checkCodes(
+  node: ServiceNode,
+  codeLookup: CodeLookup,
+  report: (span: SourceSpan, severity: LintSeverity, rule: string, message: string, fixable?: boolean) => void
+): { verb: string; noun?: string } {
+  let verbText = node.verb;
+  let nounText = node.noun;
+  let verbSpan = node.verbSpan;
+
+  // Verbs such as "Safety, Performance and P.M." contain the comma that normally starts the noun
+  if (nounText && codeLookup.resolveVerb(node.label)) {
+    verbText = node.label;
+    nounText = undefined;
+    verbSpan = { ...node.verbSpan, length: node.label.length };
+  }
+
+  const verb = codeLookup.resolveVerb(verbText);
+  if (!verb) {
+    report(verbSpan, 'error', 'unknown-verb', `Unknown verb "${verbText}"${formatSuggestions(codeLookup.suggestVerbs(verbText))}`);
+    return { verb: verbText, noun: nounText };
+  }
+  const verbKeyword = verb.keyword;
+  if (verbKeyword !== verbText) {
+    report(verbSpan, 'warning', 'verb-case', `Verb "${verbText}" should be written "${verbKeyword}"`, true);
+  }
+
+  if (!verb.hasNoun) {
+    if (nounText) {
+      report(node.nounSpan!, 'error', 'unexpected-noun', `"${verbKeyword}" does not take a noun, but "${nounText}" was given`);
+    }
+    return { verb: verbKeyword, noun: nounText };
+  }
+
+  if (!nounText) {
+    report({ ...verbSpan, column: verbSpan.column + verbSpan.length }, 'error', 'missing-noun', `"${verbKeyword}" needs a noun, e.g. [${verbKeyword}, Battery/Batteries]`);
+    return { verb: verbKeyword };
+  }
+
+  const noun = codeLookup.resolveNoun(nounText);
+  if (!noun) {
+    report(node.nounSpan!, 'error', 'unknown-noun', `Unknown noun "${nounText}"${formatSuggestions(codeLookup.suggestNouns(nounText))}`);
+    return { verb: verbKeyword, noun: nounText };
+  }
+  const nounKeyword = noun.keyword;
+  if (nounKeyword !== nounText) {
+    report(node.nounSpan!, 'warning', 'noun-case', `Noun "${nounText}" should be written "${nounKeyword}"`, true);
+  }
+
+  return { verb: verbKeyword, noun: nounKeyword };
+}
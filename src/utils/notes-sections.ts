@@ -0,0 +1,251 @@
+import { parseNotes } from './notes-grammar';
+import { diffLines } from './line-diff';
+
+/**
+ * Kind of section in a notes file
+ *
+ * - preamble: lines before the first banner
+ * - imported-notes: "IMPORTED FROM MM ON <timestamp>" and the Medimizer notes under it
+ * - imported-services: "IMPORTED SERVICES FROM MM @ <timestamp>" and the service lines under it
+ * - pushed: "PUSHED TO MM ON <date>"
+ * - other: any other banner
+ */
+export type NotesSectionKind = 'preamble' | 'imported-notes' | 'imported-services' | 'pushed' | 'other';
+
+/**
+ * A banner and the lines under it, up to the next banner
+ */
+export interface NotesSection {
+  kind: NotesSectionKind;
+  title: string;            // Text between the "=====" rules; empty for the preamble
+  timestamp: string | null; // Timestamp as written in the title
+  date: Date | null;        // Parsed timestamp
+  startLine: number;        // 1-based line of the opening rule, or 1 for the preamble
+  bodyStartLine: number;    // 1-based line of the first body line
+  body: string[];           // Lines under the banner
+}
+
+// A line of three or more "=" is a banner rule
+const RULE_PATTERN = /^\s*={3,}\s*$/;
+
+// Timestamps written in banners: "YYYY-MM-DD", "YYYY-MM-DD HH:MM[:SS]" or "YYYY-MM-DD at HH:MM[:SS]"
+const TIMESTAMP_PATTERN = /(\d{4})-(\d{1,2})-(\d{1,2})(?:\s+(?:at\s+)?(\d{1,2}):(\d{2})(?::(\d{2}))?)?/;
+
+// Written in place of the Medimizer notes when there are none
+export const NO_NOTES_PLACEHOLDER = '~No notes found in Medimizer~';
+
+// Placeholders that are never part of the Medimizer notes
+const NOTES_PLACEHOLDERS = [NO_NOTES_PLACEHOLDER, '~Notes~'];
+
+const SECTION_TITLES: Array<{ kind: NotesSectionKind; pattern: RegExp }> = [
+  { kind: 'imported-services', pattern: /^IMPORTED\s+SERVICES\s+FROM\s+MM\b/i },
+  { kind: 'imported-notes', pattern: /^IMPORTED\s+FROM\s+MM\b/i },
+  { kind: 'pushed', pattern: /^PUSHED\s+TO\s+MM\b/i }
+];
+
+/**
+ * Split a notes file into its banner sections
+ *
+ * A banner is a title line between two "=====" rules, as written by init, import and stack.
+ *
+ * @param content - Contents of the notes file
+ * @returns The sections in file order; the preamble is included only when it has text
+ */
+export function parseNotesSections(content: string): NotesSection[] {
+  const lines = content.split(/\r?\n/);
+  const sections: NotesSection[] = [];
+  let current: NotesSection = {
+    kind: 'preamble',
+    title: '',
+    timestamp: null,
+    date: null,
+    startLine: 1,
+    bodyStartLine: 1,
+    body: []
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const isBanner = RULE_PATTERN.test(lines[i]) &&
+      i + 2 < lines.length &&
+      lines[i + 1].trim() !== '' &&
+      !RULE_PATTERN.test(lines[i + 1]) &&
+      RULE_PATTERN.test(lines[i + 2]);
+
+    if (!isBanner) {
+      current.body.push(lines[i]);
+      continue;
+    }
+
+    if (current.kind !== 'preamble' || current.body.some(line => line.trim() !== '')) {
+      sections.push(current);
+    }
+
+    const title = lines[i + 1].trim();
+    const timestamp = extractTimestamp(title);
+    const known = SECTION_TITLES.find(section => section.pattern.test(title));
+
+    current = {
+      kind: known ? known.kind : 'other',
+      title,
+      timestamp,
+      date: timestamp ? parseSectionTimestamp(timestamp) : null,
+      startLine: i + 1,
+      bodyStartLine: i + 4,
+      body: []
+    };
+    i += 2;
+  }
+
+  if (current.kind !== 'preamble' || current.body.some(line => line.trim() !== '')) {
+    sections.push(current);
+  }
+
+  return sections;
+}
+
+/**
+ * Find the most recent section of a kind
+ *
+ * Sections are compared by their timestamps; without timestamps the later one in the file wins.
+ *
+ * @param sections - Sections from parseNotesSections
+ * @param kind - Kind of section to find
+ * @returns The most recent section, or null if there is none
+ */
+export function findLatestSection(sections: NotesSection[], kind: NotesSectionKind): NotesSection | null {
+  return sections
+    .filter(section => section.kind === kind)
+    .reduce((latest: NotesSection | null, section) => {
+      if (!latest) {
+        return section;
+      }
+      if (latest.date && section.date && section.date.getTime() < latest.date.getTime()) {
+        return latest;
+      }
+      return section;
+    }, null);
+}
+
+/**
+ * Find the timestamp the work order was first imported from Medimizer
+ *
+ * Uses the earliest "IMPORTED SERVICES FROM MM @" or "IMPORTED FROM MM ON" banner with a
+ * timestamp, so merging a later import does not move the start of the work.
+ *
+ * @param content - Contents of the notes file
+ * @returns The timestamp as written, or null if the notes were never imported
+ */
+export function findImportTimestamp(content: string): string | null {
+  const first = parseNotesSections(content)
+    .filter(section => section.date !== null && (section.kind === 'imported-services' || section.kind === 'imported-notes'))
+    .reduce((earliest: NotesSection | null, section) =>
+      !earliest || section.date!.getTime() < earliest.date!.getTime() ? section : earliest, null);
+  return first ? first.timestamp : null;
+}
+
+/**
+ * Get the Medimizer notes from an imported section, leaving out local entries
+ *
+ * Service lines with their continuation and part lines, and the placeholders written
+ * by init and import, are local and not part of the Medimizer notes.
+ *
+ * @param section - An "IMPORTED FROM MM" section
+ */
+export function getImportedNotesLines(section: NotesSection): string[] {
+  const lines = getSectionText(section);
+  const localLines: Set<number> = new Set();
+
+  parseNotes(lines.join('\n')).services.forEach(node => {
+    for (let line = node.line; line <= node.endLine; line++) {
+      localLines.add(line);
+    }
+  });
+
+  return trimBlankLines(lines.filter((line, index) =>
+    !localLines.has(index + 1) && !NOTES_PLACEHOLDERS.includes(line.trim())));
+}
+
+/**
+ * Get the Medimizer notes brought in by every import
+ *
+ * A merged import only writes the lines earlier imports did not have, so the notes as last
+ * seen in Medimizer are the imported sections in order, separated by a blank line.
+ *
+ * @param sections - Sections from parseNotesSections
+ * @returns The lines, or an empty list if the notes were never imported
+ */
+export function collectImportedNotesLines(sections: NotesSection[]): string[] {
+  return sections
+    .filter(section => section.kind === 'imported-notes')
+    .map(getImportedNotesLines)
+    .filter(lines => lines.length > 0)
+    .flatMap((lines, index) => index > 0 ? ['', ...lines] : lines);
+}
+
+/**
+ * Get the lines of the Medimizer notes that no earlier import brought in
+ *
+ * The notes are compared with every earlier import as one block rather than line by line,
+ * so a line written again later in Medimizer, e.g. a second "Waiting on parts", is new.
+ *
+ * @param sections - Sections from parseNotesSections
+ * @param remoteNotes - Notes currently in Medimizer
+ * @returns The new lines in Medimizer order, blank lines included
+ */
+export function findNewImportedNotesLines(sections: NotesSection[], remoteNotes: string): string[] {
+  const remoteLines = trimBlankLines(remoteNotes.split(/\r?\n/));
+  return diffLines(collectImportedNotesLines(sections), remoteLines)
+    .filter(line => line.type === 'added')
+    .map(line => line.text);
+}
+
+/**
+ * Get the text of a section without leading and trailing blank lines
+ *
+ * @param section - Section to read
+ */
+export function getSectionText(section: NotesSection): string[] {
+  return trimBlankLines(section.body);
+}
+
+/**
+ * Remove trailing whitespace from lines, then blank lines from both ends
+ *
+ * @param lines - Lines of text
+ */
+export function trimBlankLines(lines: string[]): string[] {
+  const trimmed = lines.map(line => line.trimEnd());
+  while (trimmed.length > 0 && trimmed[0] === '') {
+    trimmed.shift();
+  }
+  while (trimmed.length > 0 && trimmed[trimmed.length - 1] === '') {
+    trimmed.pop();
+  }
+  return trimmed;
+}
+
+/**
+ * Pull the timestamp out of a banner title
+ *
+ * @param title - Banner title
+ */
+function extractTimestamp(title: string): string | null {
+  const match = title.match(TIMESTAMP_PATTERN);
+  return match ? match[0] : null;
+}
+
+/**
+ * Parse a banner timestamp as local time
+ *
+ * @param timestamp - Timestamp as written in the banner
+ */
+function parseSectionTimestamp(timestamp: string): Date | null {
+  const match = timestamp.match(TIMESTAMP_PATTERN);
+  if (!match) {
+    return null;
+  }
+
+  const part = (index: number) => match[index] ? parseInt(match[index], 10) : 0;
+  const date = new Date(part(1), part(2) - 1, part(3), part(4), part(5), part(6));
+  return isNaN(date.getTime()) ? null : date;
+}
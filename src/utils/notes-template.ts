@@ -0,0 +1,109 @@
+import fs from 'fs';
+import path from 'path';
+import { ConfigManager } from './config-manager';
+import { ValidationError } from './errors';
+import { expandVariables, getBuiltInVariables } from './script-runner';
+import { formatNotesDatetime, matchUnstampedChecklistItem } from './notes-grammar';
+
+/**
+ * Directory holding notes templates
+ */
+export function getTemplatesDir(): string {
+  return ConfigManager.getInstance().resolvePath('paths.templates');
+}
+
+/**
+ * List the names of the available templates
+ *
+ * @returns Template names without the .md extension, sorted
+ */
+export function listTemplates(): string[] {
+  const templatesDir = getTemplatesDir();
+  if (!fs.existsSync(templatesDir)) {
+    return [];
+  }
+
+  return fs.readdirSync(templatesDir)
+    .filter(file => file.endsWith('.md'))
+    .map(file => file.slice(0, -3))
+    .sort();
+}
+
+/**
+ * Variables a template can use
+ *
+ * @param workOrderNumber - 7-digit work order number
+ * @param controlNumber - Optional 8-digit control number
+ * @param now - Current time
+ * @returns $WO, $CONTROL, $DATE and $TIME plus the script built-ins
+ */
+export function getTemplateVariables(workOrderNumber: string, controlNumber: string | undefined, now: Date = new Date()): Record<string, string> {
+  const [date, time] = formatNotesDatetime(now).split(' ');
+  return {
+    ...getBuiltInVariables(),
+    WO: workOrderNumber,
+    CONTROL: controlNumber || '',
+    DATE: date,
+    TIME: time
+  };
+}
+
+/**
+ * Read a template and fill in its variables
+ *
+ * Templates are markdown files; $NAME and ${NAME} are replaced the same way as in scripts,
+ * and "\$" keeps a dollar sign literal.
+ *
+ * @param name - Template name, with or without .md
+ * @param variables - Variable values keyed by upper-case name
+ * @returns The rendered template
+ * @throws ValidationError if the template does not exist or uses an undefined variable
+ */
+export function renderTemplate(name: string, variables: Record<string, string>): string {
+  const fileName = name.endsWith('.md') ? name : `${name}.md`;
+  const templatePath = path.join(getTemplatesDir(), fileName);
+
+  if (!fs.existsSync(templatePath)) {
+    const available = listTemplates();
+    throw new ValidationError(
+      `Template "${name}" not found in ${getTemplatesDir()}` +
+      (available.length > 0 ? `. Available: ${available.join(', ')}` : '')
+    );
+  }
+
+  const rendered = expandVariables(fs.readFileSync(templatePath, 'utf8'), variables);
+  return rendered.replace(/\\\$/g, '$');
+}
+
+/**
+ * Turn checked checklist items without a timestamp into service lines
+ *
+ * "- [x] [Inspected, Battery/Batteries] fine" becomes
+ * "- [x] [Inspected, Battery/Batteries] (YYYY-MM-DD HH:MM) => fine".
+ *
+ * @param content - Contents of the notes file
+ * @param now - Time to stamp the items with
+ * @returns The updated content and the number of items stamped
+ */
+export function stampChecklist(content: string, now: Date = new Date()): { content: string; stamped: number } {
+  const newline = content.includes('\r\n') ? '\r\n' : '\n';
+  const stamp = formatNotesDatetime(now);
+  let stamped = 0;
+
+  const lines = content.split(/\r?\n/).map(line => {
+    const item = matchUnstampedChecklistItem(line);
+    if (!item) {
+      return line;
+    }
+
+    // Keep anything before "=>", such as a duration, ahead of the timestamp
+    const arrowIndex = item.rest.indexOf('=>');
+    const before = arrowIndex >= 0 ? item.rest.slice(0, arrowIndex).trim() : '';
+    const notes = arrowIndex >= 0 ? item.rest.slice(arrowIndex + 2).trim() : item.rest;
+
+    stamped++;
+    return `${item.prefix}${item.label}${before ? ` ${before}` : ''} (${stamp}) => ${notes}`.trimEnd();
+  });
+
+  return { content: lines.join(newline), stamped };
+}
@@ -0,0 +1,216 @@
+import fs from 'fs';
+import path from 'path';
+import chalk from 'chalk';
+import { Workspace } from './workspace';
+import { ValidationError } from './errors';
+
+/**
+ * Environment variable that selects a profile for the current session only
+ */
+export const PROFILE_ENV = 'CE_CLI_PROFILE';
+
+/**
+ * Databases that can be selected at login
+ */
+export const MEDIMIZER_DATABASES = ['URMCCEX3', 'TEST', 'ARCHIVE'];
+
+/**
+ * Interface for a technician profile
+ */
+export interface TechnicianProfile {
+  name: string;           // Short profile name used with "profile use"
+  employeeCode: string;   // Employee code typed at login and on the service form, e.g. LPOLLOCK
+  displayName: string;    // Name Medimizer shows on servicer rows, e.g. LONNIE POLLOCKS
+  database: string;       // Default database selected at login
+  dataDir?: string;       // Root for this technician's work orders, journal and logs, relative to the workspace
+}
+
+/**
+ * Interface for the profiles file
+ */
+interface ProfilesFile {
+  active: string | null;
+  profiles: TechnicianProfile[];
+}
+
+/**
+ * Class for managing technician profiles
+ */
+export class ProfileManager {
+  private static instance: ProfileManager;
+  private profilesFile: string;
+  private data: ProfilesFile = { active: null, profiles: [] };
+  private loaded: boolean = false;
+
+  /**
+   * Private constructor to enforce singleton pattern
+   */
+  private constructor() {
+    // Set the path to the profiles file
+    this.profilesFile = path.join(Workspace.getInstance().getDataDir(), 'profiles.json');
+  }
+
+  /**
+   * Get the singleton instance
+   */
+  public static getInstance(): ProfileManager {
+    if (!ProfileManager.instance) {
+      ProfileManager.instance = new ProfileManager();
+    }
+    return ProfileManager.instance;
+  }
+
+  /**
+   * Get the path of the profiles file
+   */
+  public getProfilesFilePath(): string {
+    return this.profilesFile;
+  }
+
+  /**
+   * Load the profiles from the file
+   */
+  public load(): void {
+    this.data = { active: null, profiles: [] };
+    this.loaded = true;
+
+    if (!fs.existsSync(this.profilesFile)) {
+      return;
+    }
+
+    try {
+      const data = JSON.parse(fs.readFileSync(this.profilesFile, 'utf8'));
+      this.data = {
+        active: typeof data.active === 'string' ? data.active : null,
+        profiles: Array.isArray(data.profiles) ? data.profiles : []
+      };
+    } catch (error) {
+      console.error(chalk.red('Error loading profiles:'), error);
+    }
+  }
+
+  /**
+   * Save the profiles to the file
+   */
+  public save(): void {
+    try {
+      const dir = path.dirname(this.profilesFile);
+      if (!fs.existsSync(dir)) {
+        fs.mkdirSync(dir, { recursive: true });
+      }
+
+      fs.writeFileSync(this.profilesFile, JSON.stringify(this.data, null, 2), 'utf8');
+    } catch (error) {
+      console.error(chalk.red('Error saving profiles:'), error);
+      throw new Error('Failed to save profiles');
+    }
+  }
+
+  /**
+   * Get all profiles
+   */
+  public getProfiles(): TechnicianProfile[] {
+    if (!this.loaded) {
+      this.load();
+    }
+    return this.data.profiles;
+  }
+
+  /**
+   * Find a profile by name (case-insensitive)
+   *
+   * @param name - Profile name
+   */
+  public findProfile(name: string): TechnicianProfile | undefined {
+    return this.getProfiles().find(profile => profile.name.toLowerCase() === name.toLowerCase());
+  }
+
+  /**
+   * Get the name of the active profile, honoring the session override
+   */
+  public getActiveProfileName(): string | null {
+    if (!this.loaded) {
+      this.load();
+    }
+    return process.env[PROFILE_ENV] || this.data.active;
+  }
+
+  /**
+   * Get the active profile, or null if none is selected
+   */
+  public findActiveProfile(): TechnicianProfile | null {
+    const name = this.getActiveProfileName();
+    return name ? this.findProfile(name) || null : null;
+  }
+
+  /**
+   * Get the active profile
+   *
+   * @returns The active profile
+   * @throws ValidationError if no profile is active
+   */
+  public getActiveProfile(): TechnicianProfile {
+    const name = this.getActiveProfileName();
+    if (!name) {
+      throw new ValidationError("No technician profile selected. Run 'profile add' first");
+    }
+
+    const profile = this.findProfile(name);
+    if (!profile) {
+      throw new ValidationError(`Technician profile "${name}" not found. Run 'profile list' to see available profiles`);
+    }
+
+    return profile;
+  }
+
+  /**
+   * Add a profile, making it active if it is the first one
+   *
+   * @param profile - Profile to add
+   */
+  public addProfile(profile: TechnicianProfile): TechnicianProfile {
+    if (this.findProfile(profile.name)) {
+      throw new ValidationError(`Profile "${profile.name}" already exists`);
+    }
+
+    if (!MEDIMIZER_DATABASES.includes(profile.database)) {
+      throw new ValidationError(`Database must be one of: ${MEDIMIZER_DATABASES.join(', ')}`);
+    }
+
+    const normalized: TechnicianProfile = {
+      name: profile.name.trim(),
+      employeeCode: profile.employeeCode.trim().toUpperCase(),
+      displayName: profile.displayName.trim().toUpperCase(),
+      database: profile.database
+    };
+
+    if (profile.dataDir && profile.dataDir.trim()) {
+      normalized.dataDir = profile.dataDir.trim();
+    }
+
+    this.data.profiles.push(normalized);
+    if (!this.data.active) {
+      this.data.active = normalized.name;
+    }
+    this.save();
+
+    return normalized;
+  }
+
+  /**
+   * Make a profile the active one
+   *
+   * @param name - Profile name
+   */
+  public useProfile(name: string): TechnicianProfile {
+    const profile = this.findProfile(name);
+    if (!profile) {
+      throw new ValidationError(`Profile "${name}" not found`);
+    }
+
+    this.data.active = profile.name;
+    this.save();
+
+    return profile;
+  }
+}
@@ -0,0 +1,89 @@
+import { ValidationError } from './errors';
+import { formatNotesDatetime } from './notes-grammar';
+
+/**
+ * A command line from a script file
+ */
+export interface ScriptLine {
+  lineNumber: number;       // 1-based line number in the file
+  text: string;             // Command text with surrounding whitespace removed
+}
+
+/**
+ * Outcome of running one script line
+ */
+export interface ScriptLineResult {
+  line: ScriptLine;
+  command: string;          // Command after variable expansion
+  error: unknown;           // Error thrown by the command, or null on success
+}
+
+/**
+ * Pull the command lines out of a script, skipping blank lines and # comments
+ *
+ * @param text - Contents of the script file
+ * @returns The command lines in file order
+ */
+export function parseScript(text: string): ScriptLine[] {
+  const lines: ScriptLine[] = [];
+
+  text.split(/\r?\n/).forEach((raw, index) => {
+    const trimmed = raw.trim();
+    if (trimmed === '' || trimmed.startsWith('#')) {
+      return;
+    }
+    lines.push({ lineNumber: index + 1, text: trimmed });
+  });
+
+  return lines;
+}
+
+/**
+ * Variables every script can use without setting them
+ */
+export function getBuiltInVariables(): Record<string, string> {
+  const now = new Date();
+  return {
+    TODAY: formatNotesDatetime(now).split(' ')[0], // Local YYYY-MM-DD, as written in notes
+    NOW: now.toISOString()
+  };
+}
+
+/**
+ * Parse a NAME=value assignment
+ *
+ * @param assignment - Text such as "WO=1234567"
+ * @returns The variable name (upper-cased) and value
+ * @throws ValidationError if the text is not an assignment
+ */
+export function parseAssignment(assignment: string): { name: string; value: string } {
+  const match = assignment.match(/^([A-Za-z_][A-Za-z0-9_]*)=(.*)$/);
+  if (!match) {
+    throw new ValidationError(`Invalid variable assignment: ${assignment}. Use NAME=value`);
+  }
+  return { name: match[1].toUpperCase(), value: match[2] };
+}
+
+/**
+ * Replace $NAME and ${NAME} with variable values
+ *
+ * A backslash before the dollar sign keeps it literal.
+ *
+ * @param text - Command line from the script
+ * @param variables - Variable values keyed by upper-case name
+ * @returns The expanded command line
+ * @throws ValidationError if a variable is not defined
+ */
+export function expandVariables(text: string, variables: Record<string, string>): string {
+  return text.replace(/(\\?)\$(?:\{([A-Za-z_][A-Za-z0-9_]*)\}|([A-Za-z_][A-Za-z0-9_]*))/g, (whole, escape, braced, bare) => {
+    if (escape) {
+      return whole;
+    }
+
+    const name = (braced || bare).toUpperCase();
+    if (!(name in variables)) {
+      throw new ValidationError(`Undefined variable $${name}`);
+    }
+    return variables[name];
+  });
+}
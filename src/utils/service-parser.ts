@@ -2,11 +2,16 @@ import fs from 'fs';
 import path from 'path';
 import { promisify } from 'util';
 import chalk from 'chalk';
-import { CodeLookup } from './code-lookup';
+import { CodeLookup, formatSuggestions } from './code-lookup';
+import { getWorkOrdersDir } from './filesystem';
+import { parseNotes, formatNotesDatetime, IMPORTED_MARKER } from './notes-grammar';
+import { findImportTimestamp } from './notes-sections';
+import { ValidationError, wrapError } from './errors';
 
 // Convert fs functions to use promises
 const readFile = promisify(fs.readFile);
 const exists = promisify(fs.exists);
+const writeFile = promisify(fs.writeFile);
 
 /**
  * Interface for a parsed service from a markdown file
@@ -14,10 +19,42 @@ const exists = promisify(fs.exists);
 export interface ParsedService {
   verb: string;
   noun?: string;
+  label?: string;           // Text between the brackets, for verbs that contain a comma
   datetime: string;
   notes: string;
+  line?: number;            // Line in the notes file
+  endLine?: number;         // Last line of the service, including continuation and "+part" lines
+  duration?: number;        // Minutes written on the line, e.g. (1h15m)
+  serviceTimeCalculated?: number;
+  serviceTimeSource?: ServiceTimeSource;
+  parts?: ServicePart[];    // From "+part" lines under the service
+  source?: ServiceSource;
 }
 
+/**
+ * Where a service line came from, so the push receipt can be written back onto it
+ */
+export interface ServiceSource {
+  file: string;             // Path of the notes file
+  line: number;             // 1-based line number when it was stacked
+  text: string;             // The line as written when it was stacked
+}
+
+/**
+ * A part charged to a service
+ */
+export interface ServicePart {
+  partNumber: string;
+  quantity: number;
+  cost?: number;            // Cost per part; the catalog cost is used when omitted
+  description?: string;
+}
+
+/**
+ * Where a service's minutes came from: written on the line, or the gap since the previous service
+ */
+export type ServiceTimeSource = 'explicit' | 'derived';
+
 /**
  * Interface for a service with codes ready for stacking
  */
@@ -27,6 +64,11 @@ export interface StackableService {
   datetime: string;
   notes: string;
   serviceTimeCalculated?: number; // Time calculated from time management system
+  serviceTimeSource?: ServiceTimeSource; // Whether serviceTimeCalculated was written on the line or derived
+  verb?: string; // Verb keyword as written in the notes
+  noun?: string; // Noun keyword as written in the notes
+  parts?: ServicePart[]; // Parts charged to the service
+  source?: ServiceSource; // Notes line the service was stacked from
   pushedToMM?: number; // Boolean flag (0/1) indicating if pushed to Medimizer
 }
 
@@ -44,99 +86,63 @@ export async function parseServices(workOrderNumber: string): Promise<{
   try {
     // Build the path to the work order's markdown file
     const mdFilePath = path.join(
-      process.cwd(),
-      'work_orders',
+      getWorkOrdersDir(),
       workOrderNumber,
       `${workOrderNumber}_notes.md`
     );
 
     // Check if the file exists
     if (!(await exists(mdFilePath))) {
-      throw new Error(`Notes file for work order ${workOrderNumber} not found`);
+      throw new ValidationError(`Notes file for work order ${workOrderNumber} not found`);
     }
 
     // Read the file
     const content = await readFile(mdFilePath, 'utf8');
 
-    // Find the most recent import timestamp
-    // First look for the IMPORTED SERVICES FROM MM line
-    let importMatch = content.match(/IMPORTED\s+SERVICES\s+FROM\s+MM\s+@\s+([\d-]+\s+(?:at\s+)?[\d:]+)/i);
-    
-    if (!importMatch) {
-      // Try alternative format: YYYY-MM-DD HH:MM without the "at"
-      importMatch = content.match(/IMPORTED\s+SERVICES\s+FROM\s+MM\s+@\s+([\d-]+\s+[\d:]+)/i);
-    }
-    
-    if (!importMatch) {
-      // Fall back to the IMPORTED FROM MM line if no services import found
-      importMatch = content.match(/IMPORTED\s+FROM\s+MM\s+ON\s+([\d-]+\s+(?:at\s+)?[\d:]+)/i);
-    }
-    
-    const importTimestamp = importMatch ? importMatch[1].trim() : null;
+    // Find when the work order was first imported, from the file's banner sections
+    const importTimestamp = findImportTimestamp(content);
     console.log(chalk.cyan(`Found import timestamp: ${importTimestamp || 'none'}`));
 
-    // Extract services that don't have the (||) marker
-    const services: ParsedService[] = [];
-    
-    // Split the content into lines for better processing
-    const lines = content.split('\n');
-    
-    // Log for debugging
-    console.log(`Processing ${lines.length} lines in ${workOrderNumber}_notes.md`);
-    
-    // Process each line individually
-    for (const line of lines) {
-      // Skip if the line contains the (||) marker (already processed)
-      if (line.includes('(||)')) {
-        continue;
-      }
-      
-      // Try different regex patterns to match service lines
-      
-      // Format 1: [Verb, Noun] (datetime) => notes
-      let serviceMatch = line.match(/^\s*\[(.*?)(?:,\s*(.*?))?\]\s*(?:\(\d+min\))?\s*\((.*?)\)\s*=>\s*(.*?)\s*$/);
-      
-      // Format 2: [Verb, Noun] (datetime)=> notes (no space after parenthesis)
-      if (!serviceMatch) {
-        serviceMatch = line.match(/^\s*\[(.*?)(?:,\s*(.*?))?\]\s*(?:\(\d+min\))?\s*\((.*?)\)=>\s*(.*?)\s*$/);
-      }
-      
-      if (serviceMatch) {
-        const verb = serviceMatch[1]?.trim() || '';
-        const noun = serviceMatch[2]?.trim();
-        const datetime = serviceMatch[3]?.trim() || '';
-        const notes = serviceMatch[4]?.trim() || '';
-        
-        // Validate the datetime format to avoid empty/invalid dates
-        if (datetime && datetime.match(/\d{4}-\d{1,2}-\d{1,2}/)) {
-          // Add the service to the array
-          services.push({
-            verb,
-            noun,
-            datetime,
-            notes
-          });
-          
-          // Log for debugging
-          console.log(`Found service: Verb="${verb}", Noun="${noun || ''}", datetime="${datetime}", notes="${notes}"`);
-        } else {
-          console.log(chalk.yellow(`Skipping service with invalid datetime format: ${datetime}`));
-        }
-      }
-    }
+    // Parse every service line, skipping ones already in Medimizer
+    const document = parseNotes(content);
+    console.log(`Processing ${document.services.length} service lines in ${workOrderNumber}_notes.md`);
+
+    document.errors.forEach(syntaxError => {
+      console.log(chalk.yellow(`Skipping service in ${workOrderNumber}_notes.md - ${syntaxError.message}`));
+    });
+
+    const services: ParsedService[] = document.services
+      .filter(node => !node.markers.includes(IMPORTED_MARKER))
+      .map(node => {
+        console.log(`Found service on line ${node.line}: Verb="${node.verb}", Noun="${node.noun || ''}", datetime="${node.datetime}", notes="${node.notes}"`);
+        return {
+          verb: node.verb,
+          noun: node.noun,
+          label: node.label,
+          datetime: node.datetime,
+          notes: node.notes,
+          line: node.line,
+          endLine: node.endLine,
+          duration: node.duration ? node.duration.minutes : undefined,
+          parts: node.parts.map(({ partNumber, quantity, cost, description }) => ({ partNumber, quantity, cost, description })),
+          source: { file: mdFilePath, line: node.line, text: node.raw }
+        };
+      });
     
     console.log(chalk.green(`Found ${services.length} services to process in work order ${workOrderNumber}`));
     
     return { services, importTimestamp };
   } catch (error) {
     console.error(chalk.red(`Error parsing services for work order ${workOrderNumber}:`), error);
-    throw new Error(`Failed to parse services for work order ${workOrderNumber}`);
+    throw wrapError(error, `Failed to parse services for work order ${workOrderNumber}`);
   }
 }
 
 /**
  * Calculate time differences between consecutive services
  * 
+ * A duration written on the service line, e.g. (1h15m), overrides the calculated gap.
+ * 
  * @param services - Array of parsed services
  * @param importTimestamp - Timestamp of when the work order was imported
  * @returns Array of services with calculated time
@@ -171,6 +177,16 @@ export function calculateServiceTimes(
     const serviceDate = convertDatetimeToDate(service.datetime);
     console.log(chalk.blue(`Processing service ${index+1}: ${service.verb} at ${serviceDate.toISOString()}`));
     
+    // An explicit duration wins over any gap
+    if (service.duration !== undefined) {
+      console.log(chalk.blue(`Explicit duration: ${service.duration} minutes`));
+      return {
+        ...service,
+        serviceTimeCalculated: service.duration,
+        serviceTimeSource: 'explicit' as ServiceTimeSource
+      };
+    }
+    
     // For the first service, use import timestamp if available
     if (index === 0 && importDate) {
       // For first service, calculate time from import
@@ -179,7 +195,8 @@ export function calculateServiceTimes(
       
       return { 
         ...service, 
-        serviceTimeCalculated: diffMinutes > 0 ? diffMinutes : 0 
+        serviceTimeCalculated: diffMinutes > 0 ? diffMinutes : 0,
+        serviceTimeSource: 'derived' as ServiceTimeSource
       };
     } 
     // For subsequent services, calculate from previous service
@@ -190,13 +207,14 @@ export function calculateServiceTimes(
       
       return { 
         ...service, 
-        serviceTimeCalculated: diffMinutes > 0 ? diffMinutes : 0 
+        serviceTimeCalculated: diffMinutes > 0 ? diffMinutes : 0,
+        serviceTimeSource: 'derived' as ServiceTimeSource
       };
     }
     // Fallback if no import timestamp and this is first service
     else {
       console.log(chalk.blue(`First service overall, no import timestamp reference, using 0 minutes`));
-      return { ...service, serviceTimeCalculated: 0 };
+      return { ...service, serviceTimeCalculated: 0, serviceTimeSource: 'derived' as ServiceTimeSource };
     }
   });
 
@@ -373,17 +391,24 @@ export async function convertToStackableServices(
     const servicesWithTime = calculateServiceTimes(services, importTimestamp);
     
     const stackableServices: StackableService[] = [];
+    const skipped: string[] = [];
     
     for (const service of servicesWithTime) {
       // Log the service for debugging
       console.log(chalk.cyan(`Converting service: ${service.verb}${service.noun ? ', ' + service.noun : ''}`));
       console.log(chalk.cyan(`  Datetime: ${service.datetime}`));
-      console.log(chalk.cyan(`  Calculated time: ${(service as any).serviceTimeCalculated || 0} minutes`));
+      console.log(chalk.cyan(`  Calculated time: ${service.serviceTimeCalculated || 0} minutes (${service.serviceTimeSource})`));
       
-      // Look up the verb code
-      const verb = codeLookup.findVerb(service.verb);
+      // Look up the verb code; verbs such as "Safety, Performance and P.M." contain a comma
+      let verb = service.label && service.noun ? codeLookup.resolveVerb(service.label) : null;
+      if (verb) {
+        service.noun = undefined;
+      } else {
+        verb = codeLookup.resolveVerb(service.verb);
+      }
       if (!verb) {
-        console.error(chalk.red(`Verb "${service.verb}" not found in lookup table`));
+        skipped.push(`Verb "${service.verb}" not found in lookup table${formatSuggestions(codeLookup.suggestVerbs(service.verb))}`);
+        console.error(chalk.red(skipped[skipped.length - 1]));
         continue;
       }
       
@@ -392,18 +417,27 @@ export async function convertToStackableServices(
         verb_code: verb.code,
         datetime: service.datetime,
         notes: service.notes,
-        serviceTimeCalculated: (service as any).serviceTimeCalculated || 0
+        serviceTimeCalculated: service.serviceTimeCalculated || 0,
+        serviceTimeSource: service.serviceTimeSource,
+        verb: verb.keyword,
+        source: service.source
       };
       
+      if (service.parts && service.parts.length > 0) {
+        stackableService.parts = service.parts;
+      }
+      
       // If the verb has a noun and a noun was provided, look it up
       if (verb.hasNoun && service.noun) {
-        const nounCode = codeLookup.findNoun(service.noun);
-        if (!nounCode) {
-          console.error(chalk.red(`Noun "${service.noun}" not found in lookup table`));
+        const noun = codeLookup.resolveNoun(service.noun);
+        if (!noun) {
+          skipped.push(`Noun "${service.noun}" not found in lookup table${formatSuggestions(codeLookup.suggestNouns(service.noun))}`);
+          console.error(chalk.red(skipped[skipped.length - 1]));
           continue;
         }
         
-        stackableService.noun_code = nounCode;
+        stackableService.noun_code = noun.code;
+        stackableService.noun = noun.keyword;
       }
       
       // Add the service to the array
@@ -411,10 +445,63 @@ export async function convertToStackableServices(
     }
     
     console.log(chalk.green(`Converted ${stackableServices.length} services to stackable format`));
+    if (skipped.length > 0) {
+      console.log(chalk.yellow(`Skipped ${skipped.length} service(s):`));
+      skipped.forEach(reason => console.log(chalk.yellow(`  ${reason}`)));
+    }
     
     return stackableServices;
   } catch (error) {
     console.error(chalk.red('Error converting to stackable services:'), error);
     throw new Error('Failed to convert services to stackable format');
   }
-}
\ No newline at end of file
+}
+/**
+ * Mark the notes line a service was stacked from as pushed to Medimizer
+ *
+ * The line gets the "(||)" marker and the push time, so stacking the notes again skips it.
+ * If the file was edited since stacking, the line is found by its text instead, as long as
+ * only one line has that text; nothing else in the file is changed.
+ *
+ * @param service - Service that was pushed
+ * @param pushedAt - Time of the push
+ * @returns True if the line was marked
+ */
+export async function markServicePushed(service: StackableService, pushedAt: Date = new Date()): Promise<boolean> {
+  const source = service.source;
+  if (!source) {
+    return false;
+  }
+
+  try {
+    const content = await readFile(source.file, 'utf8');
+    const newline = content.includes('\r\n') ? '\r\n' : '\n';
+    const lines = content.split(/\r?\n/);
+
+    const isMarked = (line: string) => line.startsWith(source.text) && line.includes(IMPORTED_MARKER);
+
+    // Prefer the recorded line, which an earlier push may already have marked
+    let index = source.line - 1;
+    if (isMarked(lines[index] || '')) {
+      return true;
+    }
+
+    // Fall back to the only line with the same text
+    if (lines[index] !== source.text) {
+      const matches = lines.reduce((found: number[], line, i) => line === source.text ? [...found, i] : found, []);
+      if (matches.length !== 1) {
+        console.log(chalk.yellow(`Could not find line ${source.line} of ${path.basename(source.file)} to mark as pushed: ${source.text}`));
+        return false;
+      }
+      index = matches[0];
+    }
+
+    lines[index] = `${lines[index].trimEnd()} ${IMPORTED_MARKER} pushed ${formatNotesDatetime(pushedAt)}`;
+    await writeFile(source.file, lines.join(newline), 'utf8');
+
+    return true;
+  } catch (error) {
+    console.log(chalk.yellow(`Could not mark ${path.basename(source.file)} line ${source.line} as pushed: ${error instanceof Error ? error.message : 'Unknown error'}`));
+    return false;
+  }
+}
@@ -4,6 +4,11 @@ import { promisify } from 'util';
 import chalk from 'chalk';
 import { StackableService, parseServices, convertToStackableServices } from './service-parser';
 import { WorkDatabase } from '../database';
+import { Workspace } from './workspace';
+import { readNotesFile } from './filesystem';
+import { lintNotes } from './notes-linter';
+import { summarizeNotes, parseNotesDatetime, IMPORTED_MARKER } from './notes-grammar';
+import { ValidationError, wrapError } from './errors';
 
 // Convert fs functions to use promises
 const writeFile = promisify(fs.writeFile);
@@ -34,13 +39,7 @@ export class StackManager {
    */
   private constructor() {
     // Set the path to the stack file
-    this.stackFile = path.join(process.cwd(), 'data', 'service_stack.json');
-    
-    // Create the data directory if it doesn't exist
-    const dataDir = path.join(process.cwd(), 'data');
-    if (!fs.existsSync(dataDir)) {
-      fs.mkdirSync(dataDir, { recursive: true });
-    }
+    this.stackFile = path.join(Workspace.getInstance().getDataDir(), 'service_stack.json');
   }
 
   /**
@@ -104,12 +103,26 @@ export class StackManager {
       const workOrder = await db.getWorkOrder(workOrderNumber);
       
       if (!workOrder) {
-        throw new Error(`Work order ${workOrderNumber} not found in database`);
+        throw new ValidationError(`Work order ${workOrderNumber} not found in database`);
       }
       
       // Parse services from the work order's markdown file
       const { services, importTimestamp } = await parseServices(workOrderNumber);
       
+      // Refuse lint errors on the lines being stacked rather than silently dropping them;
+      // errors elsewhere, e.g. on services already in Medimizer, do not block stacking
+      const content = await readNotesFile(workOrderNumber);
+      const lines = content.split(/\r?\n/);
+      const lint = await lintNotes(content);
+      const errorCount = lint.diagnostics.filter(diagnostic => diagnostic.severity === 'error' && (
+        diagnostic.rule === 'syntax'
+          ? !lines[diagnostic.line - 1].includes(IMPORTED_MARKER)
+          : services.some(service => diagnostic.line >= service.line! && diagnostic.line <= (service.endLine || service.line!))
+      )).length;
+      if (errorCount > 0) {
+        throw new ValidationError(`Notes have ${errorCount} error(s) in the services being stacked. Run 'lint ${workOrderNumber}' to see them`);
+      }
+
       if (services.length === 0) {
         return `No services found to add for work order ${workOrderNumber}`;
       }
@@ -121,6 +134,24 @@ export class StackManager {
         return `No valid services found for work order ${workOrderNumber}`;
       }
       
+      // Rewrite the services from the notes and charge their "+part" lines, skipping services
+      // whose time does not parse rather than dating them now
+      const notesServices = stackableServices.flatMap(service => {
+        const dateAdded = parseNotesDatetime(service.datetime);
+        if (!service.verb || !dateAdded) {
+          return [];
+        }
+        return [{
+          verb: service.verb,
+          noun: service.noun,
+          dateAdded,
+          duration: service.serviceTimeCalculated || 0,
+          notes: service.notes,
+          parts: service.parts || []
+        }];
+      });
+      const partCount = (await db.replaceNotesServices(workOrder.id!, notesServices)).length;
+      
       // Combine all notes from services
       const combinedNotes = stackableServices.map(service => {
         return `${service.datetime}\n${service.notes}`;
@@ -146,10 +177,11 @@ export class StackManager {
       // Save the updated stack
       await this.saveStack();
       
-      return `Added ${stackableServices.length} services for work order ${workOrderNumber} to the stack`;
+      return `Added ${stackableServices.length} services for work order ${workOrderNumber} to the stack` +
+        (partCount > 0 ? ` and charged ${partCount} part(s)` : '');
     } catch (error) {
       console.error(chalk.red(`Error adding work order ${workOrderNumber} to stack:`), error);
-      throw new Error(`Failed to add work order ${workOrderNumber} to stack: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      throw wrapError(error, `Failed to add work order ${workOrderNumber} to stack: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
@@ -252,9 +284,15 @@ ${chalk.cyan('Total Time:')} ${chalk.yellow(hoursDisplay)}
             
             // Format based on whether there's a noun and include time
             if (service.noun_code !== undefined) {
-              result += `\n   - (${datePart}) Verb Code: ${service.verb_code}, Noun Code: ${service.noun_code}, Time: ${chalk.yellow((service.serviceTimeCalculated || 0).toString())}`;
+              result += `\n   - (${datePart}) Verb Code: ${service.verb_code}, Noun Code: ${service.noun_code}, Time: ${chalk.yellow((service.serviceTimeCalculated || 0).toString())}${service.serviceTimeSource === 'explicit' ? chalk.gray(' (explicit)') : ''}`;
             } else {
-              result += `\n   - (${datePart}) Verb Code: ${service.verb_code}, Time: ${chalk.yellow((service.serviceTimeCalculated || 0).toString())}`;
+              result += `\n   - (${datePart}) Verb Code: ${service.verb_code}, Time: ${chalk.yellow((service.serviceTimeCalculated || 0).toString())}${service.serviceTimeSource === 'explicit' ? chalk.gray(' (explicit)') : ''}`;
+            }
+            if (service.notes) {
+              result += chalk.gray(`\n     ${summarizeNotes(service.notes, 70)}`);
+            }
+            if (service.parts) {
+              result += chalk.gray(`\n     Parts: ${service.parts.map(part => `${part.partNumber} x${part.quantity}`).join(', ')}`);
             }
           });
         } else {
@@ -4,6 +4,7 @@ import { promisify } from 'util';
 import chalk from 'chalk';
 import { parseServicesFromNotes, validateServices } from '../commands/note';
 import { readNotesFile, writeNotesFile } from '../utils/filesystem';
+import { wrapError } from './errors';
 
 // Convert callback-based fs functions to Promise-based
 const writeFile = promisify(fs.writeFile);
@@ -69,7 +70,7 @@ export class StackManager {
       return JSON.parse(data);
     } catch (error) {
       if (error instanceof Error) {
-        throw new Error(`Failed to read stack: ${error.message}`);
+        throw wrapError(error, `Failed to read stack: ${error.message}`);
       } else {
         throw new Error('Failed to read stack: Unknown error');
       }
@@ -87,7 +88,7 @@ export class StackManager {
       await writeFile(this.stackFile, JSON.stringify(stack, null, 2), 'utf8');
     } catch (error) {
       if (error instanceof Error) {
-        throw new Error(`Failed to save stack: ${error.message}`);
+        throw wrapError(error, `Failed to save stack: ${error.message}`);
       } else {
         throw new Error('Failed to save stack: Unknown error');
       }
@@ -179,7 +180,7 @@ PUSHED TO MM ON ${currentDate}
       return `Work order ${workOrderNumber} with ${services.length} services stacked successfully`;
     } catch (error) {
       if (error instanceof Error) {
-        throw new Error(`Failed to stack work order: ${error.message}`);
+        throw wrapError(error, `Failed to stack work order: ${error.message}`);
       } else {
         throw new Error('Failed to stack work order: Unknown error');
       }
@@ -202,7 +203,7 @@ PUSHED TO MM ON ${currentDate}
       return stack[0];
     } catch (error) {
       if (error instanceof Error) {
-        throw new Error(`Failed to get next work order: ${error.message}`);
+        throw wrapError(error, `Failed to get next work order: ${error.message}`);
       } else {
         throw new Error('Failed to get next work order: Unknown error');
       }
@@ -229,7 +230,7 @@ PUSHED TO MM ON ${currentDate}
       await this.saveStack(newStack);
     } catch (error) {
       if (error instanceof Error) {
-        throw new Error(`Failed to remove work order: ${error.message}`);
+        throw wrapError(error, `Failed to remove work order: ${error.message}`);
       } else {
         throw new Error('Failed to remove work order: Unknown error');
       }
@@ -0,0 +1,200 @@
+import fs from 'fs';
+import path from 'path';
+import chalk from 'chalk';
+import { Workspace } from './workspace';
+import { ValidationError } from './errors';
+
+/**
+ * A running or paused service timer
+ */
+export interface ServiceTimer {
+  workOrderNumber: string;
+  label: string;            // "Verb" or "Verb, Noun"
+  startedAt: string;        // ISO time the timer was started
+  elapsedMs: number;        // Time counted before the current run
+  runningSince: string | null; // ISO time of the last start or resume; null while paused
+}
+
+/**
+ * Class for managing the live service timer
+ */
+export class TimerManager {
+  private static instance: TimerManager;
+  private timerFile: string;
+  private timer: ServiceTimer | null = null;
+  private loaded: boolean = false;
+
+  /**
+   * Private constructor to enforce singleton pattern
+   */
+  private constructor() {
+    // Set the path to the timer file
+    this.timerFile = path.join(Workspace.getInstance().getDataDir(), 'timer.json');
+  }
+
+  /**
+   * Get the singleton instance
+   */
+  public static getInstance(): TimerManager {
+    if (!TimerManager.instance) {
+      TimerManager.instance = new TimerManager();
+    }
+    return TimerManager.instance;
+  }
+
+  /**
+   * Load the timer from the file
+   */
+  public load(): void {
+    this.timer = null;
+    this.loaded = true;
+
+    if (!fs.existsSync(this.timerFile)) {
+      return;
+    }
+
+    try {
+      const data = JSON.parse(fs.readFileSync(this.timerFile, 'utf8'));
+      this.timer = data && data.workOrderNumber ? data : null;
+    } catch (error) {
+      console.error(chalk.red('Error loading timer:'), error);
+    }
+  }
+
+  /**
+   * Save the timer to the file, removing the file when no timer is running
+   */
+  public save(): void {
+    try {
+      if (!this.timer) {
+        if (fs.existsSync(this.timerFile)) {
+          fs.unlinkSync(this.timerFile);
+        }
+        return;
+      }
+
+      const dir = path.dirname(this.timerFile);
+      if (!fs.existsSync(dir)) {
+        fs.mkdirSync(dir, { recursive: true });
+      }
+
+      fs.writeFileSync(this.timerFile, JSON.stringify(this.timer, null, 2), 'utf8');
+    } catch (error) {
+      console.error(chalk.red('Error saving timer:'), error);
+      throw new Error('Failed to save timer');
+    }
+  }
+
+  /**
+   * Get the current timer, or null if none is running
+   */
+  public getTimer(): ServiceTimer | null {
+    if (!this.loaded) {
+      this.load();
+    }
+    return this.timer;
+  }
+
+  /**
+   * Start timing a service
+   *
+   * @param workOrderNumber - 7-digit work order number
+   * @param label - "Verb" or "Verb, Noun"
+   * @param now - Start time
+   * @returns The new timer
+   * @throws ValidationError if a timer is already running
+   */
+  public start(workOrderNumber: string, label: string, now: Date = new Date()): ServiceTimer {
+    const current = this.getTimer();
+    if (current) {
+      throw new ValidationError(`A timer is already running for ${current.workOrderNumber} [${current.label}]. Use 'timer switch' or 'timer stop'`);
+    }
+
+    this.timer = {
+      workOrderNumber,
+      label,
+      startedAt: now.toISOString(),
+      elapsedMs: 0,
+      runningSince: now.toISOString()
+    };
+    this.save();
+
+    return this.timer;
+  }
+
+  /**
+   * Pause the running timer
+   *
+   * @param now - Pause time
+   * @returns The paused timer
+   */
+  public pause(now: Date = new Date()): ServiceTimer {
+    const timer = this.requireTimer();
+    if (!timer.runningSince) {
+      throw new ValidationError('The timer is already paused');
+    }
+
+    timer.elapsedMs = getElapsedMs(timer, now);
+    timer.runningSince = null;
+    this.save();
+
+    return timer;
+  }
+
+  /**
+   * Resume a paused timer
+   *
+   * @param now - Resume time
+   * @returns The running timer
+   */
+  public resume(now: Date = new Date()): ServiceTimer {
+    const timer = this.requireTimer();
+    if (timer.runningSince) {
+      throw new ValidationError('The timer is not paused');
+    }
+
+    timer.runningSince = now.toISOString();
+    this.save();
+
+    return timer;
+  }
+
+  /**
+   * Stop the timer and forget it
+   *
+   * @param now - Stop time
+   * @returns The stopped timer with its final elapsed time
+   */
+  public stop(now: Date = new Date()): ServiceTimer {
+    const timer = this.requireTimer();
+    const stopped: ServiceTimer = { ...timer, elapsedMs: getElapsedMs(timer, now), runningSince: null };
+
+    this.timer = null;
+    this.save();
+
+    return stopped;
+  }
+
+  /**
+   * Get the current timer or fail
+   */
+  private requireTimer(): ServiceTimer {
+    const timer = this.getTimer();
+    if (!timer) {
+      throw new ValidationError("No timer is running. Start one with 'timer start <wo-number> <Verb[, Noun]>'");
+    }
+    return timer;
+  }
+}
+
+/**
+ * Get the time a timer has counted so far, excluding pauses
+ *
+ * @param timer - Timer to measure
+ * @param now - Current time
+ * @returns Elapsed milliseconds
+ */
+export function getElapsedMs(timer: ServiceTimer, now: Date = new Date()): number {
+  const running = timer.runningSince ? Math.max(0, now.getTime() - new Date(timer.runningSince).getTime()) : 0;
+  return timer.elapsedMs + running;
+}
@@ -0,0 +1,277 @@
+import { ValidationError } from './errors';
+
+/**
+ * A flag found on the command line
+ */
+export interface ParsedFlag {
+  name: string;             // Flag name without dashes
+  value?: string;           // Value from "--name=value" or the following token
+  long: boolean;            // True for "--name", false for "-n"
+  raw: string;              // Token as typed, for error messages
+}
+
+/**
+ * Positional arguments and flags split out of a token list
+ */
+export interface ParsedArguments {
+  positionals: string[];
+  flags: ParsedFlag[];
+}
+
+/**
+ * A command line split up to the word being typed, for tab completion
+ */
+export interface PartialLine {
+  tokens: string[];         // Complete tokens before the word being typed
+  word: string;             // Unquoted text of the word being typed ('' after trailing whitespace)
+  rawWord: string;          // The word being typed exactly as it appears in the line
+}
+
+/**
+ * State left over after scanning a command line
+ */
+interface ScanResult {
+  tokens: string[];
+  current: string;
+  inToken: boolean;
+  quote: '"' | "'" | null;
+  tokenStart: number;
+}
+
+/**
+ * Split a command line into tokens the way a POSIX shell would
+ *
+ * Supports double quotes (with backslash escapes), single quotes (literal)
+ * and backslash escapes outside quotes.
+ *
+ * @param line - Command line to split
+ * @returns The tokens
+ * @throws ValidationError if a quote is left open
+ */
+export function tokenize(line: string): string[] {
+  const scan = scanLine(line);
+
+  if (scan.quote) {
+    throw new ValidationError(`Unterminated ${scan.quote === '"' ? 'double' : 'single'} quote`);
+  }
+
+  if (scan.inToken) {
+    scan.tokens.push(scan.current);
+  }
+
+  return scan.tokens;
+}
+
+/**
+ * Split a command line that is still being typed
+ *
+ * Unlike tokenize() this never throws; an open quote simply belongs to the word being typed.
+ *
+ * @param line - Command line up to the cursor
+ * @returns The complete tokens and the word being typed
+ */
+export function tokenizePartial(line: string): PartialLine {
+  const scan = scanLine(line);
+
+  if (!scan.inToken) {
+    return { tokens: scan.tokens, word: '', rawWord: '' };
+  }
+
+  return { tokens: scan.tokens, word: scan.current, rawWord: line.slice(scan.tokenStart) };
+}
+
+/**
+ * Split text into separate command lines on semicolons outside quotes
+ *
+ * Quotes and escapes are kept as typed so each part can be tokenized later.
+ *
+ * @param text - Text such as 'stack 1234567; push --dry-run'
+ * @returns The command lines, trimmed, without empty ones
+ */
+export function splitCommands(text: string): string[] {
+  const commands: string[] = [];
+  let current = '';
+  let quote: '"' | "'" | null = null;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (char === '\\' && quote !== "'" && i + 1 < text.length) {
+      current += char + text[++i];
+    } else if (quote) {
+      if (char === quote) quote = null;
+      current += char;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+      current += char;
+    } else if (char === ';') {
+      commands.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+
+  commands.push(current);
+  return commands.map(command => command.trim()).filter(command => command !== '');
+}
+
+/**
+ * Find text in a command line outside quotes
+ *
+ * @param line - Command line as typed
+ * @param text - Text to find, e.g. "=>"
+ * @returns The index of the first unquoted, unescaped occurrence, or -1
+ */
+export function findUnquoted(line: string, text: string): number {
+  let quote: '"' | "'" | null = null;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+
+    if (char === '\\' && quote !== "'") {
+      i++;
+    } else if (quote) {
+      if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (line.startsWith(text, i)) {
+      return i;
+    }
+  }
+
+  return -1;
+}
+
+/**
+ * Quote a value so tokenize() reads it back as a single token
+ *
+ * @param value - Value to quote
+ * @returns The value, double-quoted when it contains whitespace, quotes or backslashes
+ */
+export function quoteToken(value: string): string {
+  if (value !== '' && !/[\s"'\\]/.test(value)) {
+    return value;
+  }
+  return `"${value.replace(/(["\\$`])/g, '\\$1')}"`;
+}
+
+/**
+ * Scan a command line into tokens, leaving the last token and any open quote unfinished
+ *
+ * @param line - Command line to scan
+ */
+function scanLine(line: string): ScanResult {
+  const tokens: string[] = [];
+  let current = '';
+  let inToken = false;
+  let tokenStart = 0;
+  let quote: '"' | "'" | null = null;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+
+    if (quote === "'") {
+      // Everything up to the closing single quote is literal
+      if (char === "'") {
+        quote = null;
+      } else {
+        current += char;
+      }
+      continue;
+    }
+
+    if (quote === '"') {
+      if (char === '"') {
+        quote = null;
+      } else if (char === '\\' && i + 1 < line.length && ['"', '\\', '$', '`'].includes(line[i + 1])) {
+        current += line[++i];
+      } else {
+        current += char;
+      }
+      continue;
+    }
+
+    if (/\s/.test(char)) {
+      if (inToken) {
+        tokens.push(current);
+        current = '';
+        inToken = false;
+      }
+      continue;
+    }
+
+    if (!inToken) {
+      inToken = true;
+      tokenStart = i;
+    }
+
+    if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '\\') {
+      if (i + 1 < line.length) {
+        current += line[++i];
+      }
+    } else {
+      current += char;
+    }
+  }
+
+  return { tokens, current, inToken, quote, tokenStart };
+}
+
+/**
+ * Split tokens into positional arguments and flags
+ *
+ * Handles "--flag", "--key=value", "--key value" for flags that take values,
+ * "-abc" short-flag bundles and a "--" terminator after which everything is positional.
+ * Negative numbers such as "-5" are treated as positional arguments.
+ *
+ * @param tokens - Tokens from tokenize()
+ * @param valueFlags - Names (long or short) of flags that take a value
+ * @returns The positional arguments and flags in the order they appeared
+ */
+export function parseArguments(tokens: string[], valueFlags: string[] = []): ParsedArguments {
+  const result: ParsedArguments = { positionals: [], flags: [] };
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+
+    if (token === '--') {
+      result.positionals.push(...tokens.slice(i + 1));
+      break;
+    }
+
+    if (token.startsWith('--') && token.length > 2) {
+      const body = token.slice(2);
+      const equals = body.indexOf('=');
+
+      if (equals >= 0) {
+        result.flags.push({ name: body.slice(0, equals), value: body.slice(equals + 1), long: true, raw: token });
+      } else if (valueFlags.includes(body) && i + 1 < tokens.length) {
+        result.flags.push({ name: body, value: tokens[++i], long: true, raw: token });
+      } else {
+        result.flags.push({ name: body, long: true, raw: token });
+      }
+      continue;
+    }
+
+    if (token.startsWith('-') && token.length > 1 && !/^-\d/.test(token)) {
+      const letters = token.slice(1).split('');
+
+      letters.forEach((letter, index) => {
+        const isLast = index === letters.length - 1;
+        if (isLast && valueFlags.includes(letter) && i + 1 < tokens.length) {
+          result.flags.push({ name: letter, value: tokens[++i], long: false, raw: `-${letter}` });
+        } else {
+          result.flags.push({ name: letter, long: false, raw: `-${letter}` });
+        }
+      });
+      continue;
+    }
+
+    result.positionals.push(token);
+  }
+
+  return result;
+}
@@ -0,0 +1,195 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+/**
+ * Environment variable that selects the workspace directory
+ */
+export const WORKSPACE_ENV = 'CE_CLI_WORKSPACE';
+
+/**
+ * Top-level entries of the old layout that lived in the current working directory
+ */
+export const LEGACY_ENTRIES = ['data', 'work_orders', 'journal', 'logs'];
+
+/**
+ * Where the workspace root was taken from
+ */
+export type WorkspaceSource = 'flag' | 'env' | 'default';
+
+/**
+ * Result of migrating an old layout into the workspace
+ */
+export interface MigrationResult {
+  moved: string[];      // Paths moved into the workspace
+  skipped: string[];    // Paths left behind because the workspace already has them
+}
+
+/**
+ * Class that anchors every file the tool reads or writes to one workspace directory
+ *
+ * The root is taken from the --workspace flag, then the CE_CLI_WORKSPACE environment
+ * variable, then an XDG-style per-user location.
+ */
+export class Workspace {
+  private static instance: Workspace;
+  private static rootOverride: string | null = null;
+  private root: string;
+  private source: WorkspaceSource;
+
+  /**
+   * Private constructor to enforce singleton pattern
+   */
+  private constructor() {
+    if (Workspace.rootOverride) {
+      this.root = path.resolve(Workspace.rootOverride);
+      this.source = 'flag';
+    } else if (process.env[WORKSPACE_ENV]) {
+      this.root = path.resolve(process.env[WORKSPACE_ENV]!);
+      this.source = 'env';
+    } else {
+      this.root = Workspace.getDefaultRoot();
+      this.source = 'default';
+    }
+  }
+
+  /**
+   * Get the singleton instance
+   */
+  public static getInstance(): Workspace {
+    if (!Workspace.instance) {
+      Workspace.instance = new Workspace();
+    }
+    return Workspace.instance;
+  }
+
+  /**
+   * Use a specific workspace directory (from the --workspace flag)
+   *
+   * Must be called before anything asks for the workspace.
+   *
+   * @param dir - Workspace directory
+   */
+  public static setRootOverride(dir: string): void {
+    if (Workspace.instance) {
+      throw new Error('Workspace already in use; --workspace must be handled at startup');
+    }
+    Workspace.rootOverride = dir;
+  }
+
+  /**
+   * Get the default per-user workspace location
+   */
+  public static getDefaultRoot(): string {
+    const dataHome = process.env.XDG_DATA_HOME || path.join(os.homedir(), '.local', 'share');
+    return path.join(dataHome, 'ce_cli');
+  }
+
+  /**
+   * Get the workspace root directory
+   */
+  public getRoot(): string {
+    return this.root;
+  }
+
+  /**
+   * Get where the workspace root was taken from
+   */
+  public getSource(): WorkspaceSource {
+    return this.source;
+  }
+
+  /**
+   * Resolve a path inside the workspace
+   *
+   * @param segments - Path segments relative to the workspace root (absolute paths are kept)
+   */
+  public resolve(...segments: string[]): string {
+    return path.resolve(this.root, ...segments);
+  }
+
+  /**
+   * Get the data directory, creating it if needed
+   */
+  public getDataDir(): string {
+    const dataDir = this.resolve('data');
+    if (!fs.existsSync(dataDir)) {
+      fs.mkdirSync(dataDir, { recursive: true });
+    }
+    return dataDir;
+  }
+
+  /**
+   * Find entries of the old cwd-based layout in a directory
+   *
+   * @param dir - Directory to inspect
+   * @returns Names of the legacy entries found
+   */
+  public findLegacyLayout(dir: string = process.cwd()): string[] {
+    if (path.resolve(dir) === this.root) {
+      return [];
+    }
+    return LEGACY_ENTRIES.filter(entry => fs.existsSync(path.join(dir, entry)));
+  }
+
+  /**
+   * Move an old cwd-based layout into the workspace
+   *
+   * Entries already present in the workspace are merged file by file; files that
+   * exist on both sides are left where they are and reported as skipped.
+   *
+   * @param sourceDir - Directory holding the old layout
+   */
+  public migrateFrom(sourceDir: string): MigrationResult {
+    const result: MigrationResult = { moved: [], skipped: [] };
+    const source = path.resolve(sourceDir);
+
+    if (source === this.root) {
+      throw new Error('Source directory is already the workspace');
+    }
+
+    fs.mkdirSync(this.root, { recursive: true });
+
+    this.findLegacyLayout(source).forEach(entry => {
+      moveEntry(path.join(source, entry), this.resolve(entry), result);
+    });
+
+    return result;
+  }
+}
+
+/**
+ * Move a file or directory, merging into an existing directory
+ *
+ * @param from - Source path
+ * @param to - Destination path
+ * @param result - Accumulated migration result
+ */
+function moveEntry(from: string, to: string, result: MigrationResult): void {
+  if (!fs.existsSync(to)) {
+    try {
+      fs.renameSync(from, to);
+    } catch (error) {
+      // Renames fail across filesystems, so fall back to copy and delete
+      if ((error as NodeJS.ErrnoException).code !== 'EXDEV') throw error;
+      fs.cpSync(from, to, { recursive: true });
+      fs.rmSync(from, { recursive: true, force: true });
+    }
+    result.moved.push(from);
+    return;
+  }
+
+  if (fs.statSync(from).isDirectory() && fs.statSync(to).isDirectory()) {
+    fs.readdirSync(from).forEach(child => {
+      moveEntry(path.join(from, child), path.join(to, child), result);
+    });
+
+    // Remove the source directory once everything has been moved out
+    if (fs.readdirSync(from).length === 0) {
+      fs.rmdirSync(from);
+    }
+    return;
+  }
+
+  result.skipped.push(from);
+}
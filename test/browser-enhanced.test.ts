@@ -0,0 +1,53 @@
+import './workspace';
+import { test, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { Page } from 'puppeteer';
+import { BrowserAutomation } from '../src/utils/browser-enhanced';
+import { NetworkError } from '../src/utils/errors';
+
+const browser = BrowserAutomation.getInstance();
+
+/**
+ * Stand in for a puppeteer page whose goto() records its calls or fails
+ */
+function stubPage(calls: unknown[][], failure?: Error): Page {
+  return {
+    goto: async (...args: unknown[]) => {
+      calls.push(args);
+      if (failure) {
+        throw failure;
+      }
+      return null;
+    }
+  } as unknown as Page;
+}
+
+afterEach(() => {
+  browser.page = null;
+});
+
+test('goto loads the page through puppeteer', async () => {
+  const calls: unknown[][] = [];
+  browser.page = stubPage(calls);
+
+  await browser.goto('http://medimizer/WO.aspx');
+  await browser.goto('http://medimizer/Login.aspx', { waitUntil: 'load' });
+
+  assert.deepEqual(calls, [
+    ['http://medimizer/WO.aspx', { waitUntil: 'networkidle2' }],
+    ['http://medimizer/Login.aspx', { waitUntil: 'load' }]
+  ]);
+});
+
+test('goto reports unreachable servers as network errors', async () => {
+  browser.page = stubPage([], new Error('net::ERR_CONNECTION_REFUSED at http://medimizer/'));
+  await assert.rejects(browser.goto('http://medimizer/'), NetworkError);
+
+  const timeout = new Error('Navigation timeout of 30000 ms exceeded');
+  timeout.name = 'TimeoutError';
+  browser.page = stubPage([], timeout);
+  await assert.rejects(browser.goto('http://medimizer/'), NetworkError);
+
+  browser.page = stubPage([], new Error('Execution context was destroyed'));
+  await assert.rejects(browser.goto('http://medimizer/'), (error: unknown) => !(error instanceof NetworkError));
+});
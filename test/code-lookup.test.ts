@@ -0,0 +1,72 @@
+import { TEST_WORKSPACE } from './workspace';
+import { test, before } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import path from 'path';
+import { CodeLookup, formatSuggestions } from '../src/utils/code-lookup';
+import { lintNotes } from '../src/utils/notes-linter';
+import { levenshtein, rankMatches } from '../src/utils/fuzzy-match';
+
+const codeLookup = CodeLookup.getInstance();
+
+before(async () => {
+  fs.mkdirSync(path.join(TEST_WORKSPACE, 'data'), { recursive: true });
+  fs.writeFileSync(path.join(TEST_WORKSPACE, 'data', 'code-aliases.json'), JSON.stringify({
+    verbs: { PM: 'P.M.', SPM: 'Safety, Performance and P.M.', Bad: 'Not A Verb' },
+    nouns: { batt: 'Battery/Batteries' }
+  }));
+  await codeLookup.initialize(true);
+});
+
+test('levenshtein counts edits', () => {
+  assert.equal(levenshtein('kitten', 'sitting'), 3);
+  assert.equal(levenshtein('', 'abc'), 3);
+  assert.equal(levenshtein('same', 'same'), 0);
+});
+
+test('rankMatches puts the closest candidates first and drops unrelated ones', () => {
+  assert.deepEqual(rankMatches('Replcaed', ['Repaired', 'Replaced', 'Tested']), ['Replaced', 'Repaired']);
+  assert.deepEqual(rankMatches('xyzzy', ['Replaced', 'Tested']), []);
+});
+
+test('verbs and nouns resolve ignoring case and by alias', () => {
+  assert.equal(codeLookup.resolveVerb('repaired')!.keyword, 'Repaired');
+  assert.equal(codeLookup.resolveVerb('pm')!.code, 4);
+  assert.equal(codeLookup.resolveVerb('SPM')!.keyword, 'Safety, Performance and P.M.');
+  assert.equal(codeLookup.resolveVerb('Bad'), null);
+  assert.equal(codeLookup.resolveNoun('BATT')!.keyword, 'Battery/Batteries');
+  assert.equal(codeLookup.findNoun('battery/batteries'), 262);
+});
+
+test('failed lookups suggest close keywords', () => {
+  assert.equal(codeLookup.suggestVerbs('Replcaed')[0], 'Replaced');
+  assert.ok(codeLookup.suggestNouns('Batteries').includes('Battery/Batteries'));
+  assert.equal(formatSuggestions(['A', 'B', 'C']), '; did you mean "A", "B" or "C"?');
+  assert.equal(formatSuggestions([]), '');
+});
+
+test('case and alias differences are fixable warnings, not errors', async () => {
+  const result = await lintNotes([
+    '[repaired, battery/batteries] (2025-03-04 09:15) => x',
+    '[PM] (2025-03-04 09:30) => y',
+    '[Replaced, batt] (2025-03-04 10:00) => z'
+  ].join('\n'), new Date(2025, 2, 4, 17, 0));
+
+  assert.deepEqual(result.diagnostics.map(diagnostic => [diagnostic.line, diagnostic.rule, diagnostic.severity, diagnostic.fixable]), [
+    [1, 'verb-case', 'warning', true],
+    [1, 'noun-case', 'warning', true],
+    [2, 'verb-case', 'warning', true],
+    [3, 'noun-case', 'warning', true]
+  ]);
+  assert.equal(result.fixedContent, [
+    '[Repaired, Battery/Batteries] (2025-03-04 09:15) => x',
+    '[P.M.] (2025-03-04 09:30) => y',
+    '[Replaced, Battery/Batteries] (2025-03-04 10:00) => z'
+  ].join('\n'));
+});
+
+test('unknown verbs are errors with suggestions', async () => {
+  const result = await lintNotes('[Replcaed, Battery/Batteries] (2025-03-04 09:15) => x', new Date(2025, 2, 4, 17, 0));
+  assert.equal(result.diagnostics[0].severity, 'error');
+  assert.match(result.diagnostics[0].message, /did you mean "Replaced"/);
+});
@@ -0,0 +1,45 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { CommandRegistry } from '../src/utils/command-registry';
+import { UsageError } from '../src/utils/errors';
+
+const registry = CommandRegistry.getInstance();
+
+registry.register({
+  name: 'entry-test',
+  description: 'Takes free text after =>',
+  args: [
+    { name: 'wo-number', type: 'workOrder', description: 'Work order' },
+    { name: 'entry', type: 'string', description: 'Verb => notes', rest: true }
+  ],
+  flags: [{ name: 'at', type: 'string', description: 'Time' }],
+  rawTail: '=>',
+  handler: async () => undefined
+});
+
+function parse(words: string[]) {
+  return registry.parseInput(registry.resolve(words));
+}
+
+test('text after a raw tail marker is kept as typed', () => {
+  const words = registry.tokenizeLine(`entry-test 1234567 --at 14:30 "Test" => didn't  -ok "quoted"`);
+  assert.deepEqual(words, ['entry-test', '1234567', '--at', '14:30', 'Test', `=> didn't  -ok "quoted"`]);
+
+  const { args, flags } = parse(words);
+  assert.equal(args.entry, `Test => didn't  -ok "quoted"`);
+  assert.equal(flags.at, '14:30');
+});
+
+test('words from the shell after a raw tail marker are not read as flags', () => {
+  const { args, flags } = parse(['entry-test', '1234567', 'Test', '=>', 'swapped', '-ok', '--at', '9']);
+  assert.equal(args.entry, 'Test => swapped -ok --at 9');
+  assert.equal(flags.at, undefined);
+});
+
+test('flags before a raw tail marker are still checked', () => {
+  assert.throws(() => parse(registry.tokenizeLine('entry-test 1234567 --bogus Test => ok')), UsageError);
+});
+
+test('commands without a raw tail tokenize the whole line', () => {
+  assert.throws(() => registry.tokenizeLine(`help didn't`), /Unterminated single quote/);
+});
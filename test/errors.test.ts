@@ -0,0 +1,41 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  EXIT_CODES,
+  ValidationError,
+  NotesSyntaxError,
+  MedimizerError,
+  NetworkError,
+  ScriptError,
+  wrapError,
+  getExitCode
+} from '../src/utils/errors';
+
+test('getExitCode maps errors by class', () => {
+  assert.equal(getExitCode(null), EXIT_CODES.success);
+  assert.equal(getExitCode(new NotesSyntaxError('Expected ]', 3, 7)), EXIT_CODES.validation);
+  assert.equal(getExitCode(new MedimizerError('Login failed')), EXIT_CODES.medimizer);
+  assert.equal(getExitCode(new NetworkError('net::ERR_CONNECTION_REFUSED')), EXIT_CODES.network);
+  assert.equal(getExitCode(new ScriptError('Line 2 failed', 4)), 4);
+});
+
+test('getExitCode ignores the wording of plain errors', () => {
+  assert.equal(getExitCode(new Error('Medimizer net::ERR_FAILED: Invalid value')), EXIT_CODES.failure);
+  assert.equal(getExitCode('something'), EXIT_CODES.failure);
+});
+
+test('wrapError keeps the class behind a new message', () => {
+  const network = wrapError(new NetworkError('timed out'), 'Failed to push stack: timed out');
+  assert.ok(network instanceof NetworkError);
+  assert.equal(network.message, 'Failed to push stack: timed out');
+
+  assert.equal(getExitCode(wrapError(new ValidationError('bad'), 'Failed: bad')), EXIT_CODES.validation);
+  assert.equal(getExitCode(wrapError(new ScriptError('stopped', 3), 'Failed: stopped')), 3);
+  assert.equal(getExitCode(wrapError(new Error('disk full'), 'Failed: disk full')), EXIT_CODES.failure);
+});
+
+test('wrapError treats a leftover puppeteer timeout as Medimizer not responding as expected', () => {
+  const timeout = new Error('Waiting for selector `#grid` failed');
+  timeout.name = 'TimeoutError';
+  assert.ok(wrapError(timeout, 'Failed to delete duplicates') instanceof MedimizerError);
+});
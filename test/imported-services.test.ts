@@ -0,0 +1,83 @@
+import './workspace';
+import { test, before } from 'node:test';
+import assert from 'node:assert/strict';
+import { CodeLookup } from '../src/utils/code-lookup';
+import {
+  MedimizerServiceRow,
+  toMedimizerService,
+  parseMedimizerDateTime,
+  formatImportedService,
+  collectImportedServiceKeys,
+  isServiceImported
+} from '../src/utils/imported-services';
+
+const codeLookup = CodeLookup.getInstance();
+
+before(async () => {
+  await codeLookup.initialize(true);
+});
+
+function row(description: string, serviceId: string | null = '4586776'): MedimizerServiceRow {
+  return {
+    rowId: 'row0',
+    serviceId,
+    servicer: 'SMITH, JOHN',
+    dateTime: '10/2/2025 9:30 AM',
+    minutes: 75,
+    description,
+    parts: []
+  };
+}
+
+test('a noun containing a comma stays whole', () => {
+  const service = toMedimizerService(row('Replaced, Screen, Phosphor'), codeLookup)!;
+  assert.equal(service.verb, 'Replaced');
+  assert.equal(service.verbCode, 188);
+  assert.equal(service.noun, 'Screen, Phosphor');
+  assert.equal(service.nounCode, 577);
+});
+
+test('a verb containing a comma is matched whole', () => {
+  const service = toMedimizerService(row('Safety, Performance and P.M.'), codeLookup)!;
+  assert.equal(service.verb, 'Safety, Performance and P.M.');
+  assert.equal(service.verbCode, 7);
+  assert.equal(service.noun, undefined);
+});
+
+test('an unknown verb splits at the first comma', () => {
+  const service = toMedimizerService(row('Polished, Battery/Batteries'), codeLookup)!;
+  assert.equal(service.verb, 'Polished');
+  assert.equal(service.verbCode, null);
+  assert.equal(service.noun, 'Battery/Batteries');
+  assert.equal(service.nounCode, 262);
+});
+
+test('services grid dates parse as local time', () => {
+  assert.deepEqual(parseMedimizerDateTime('10/2/2025 9:30 AM'), new Date(2025, 9, 2, 9, 30));
+  assert.deepEqual(parseMedimizerDateTime('10/2/2025 12:05 AM'), new Date(2025, 9, 2, 0, 5));
+  assert.deepEqual(parseMedimizerDateTime('10/2/2025'), new Date(2025, 9, 2, 12, 0));
+  assert.equal(parseMedimizerDateTime('13/2/2025'), null);
+  assert.equal(parseMedimizerDateTime('soon'), null);
+});
+
+test('imported services are written with their ID and servicer', () => {
+  const service = toMedimizerService({ ...row('Inspected, Battery/Batteries'), parts: [{ rowId: 'row1', text: 'Battery 12V' }] }, codeLookup)!;
+  assert.equal(
+    formatImportedService(service),
+    '[Inspected, Battery/Batteries] (1h15m) (2025-10-02 09:30) => (||) MM#4586776 by SMITH, JOHN\n  -- Battery 12V'
+  );
+});
+
+test('services already in the notes are recognized by ID, or by label and time', () => {
+  const withId = toMedimizerService(row('Replaced, Screen, Phosphor'), codeLookup)!;
+  const withoutId = toMedimizerService(row('Safety, Performance and P.M.', null), codeLookup)!;
+  const seen = collectImportedServiceKeys([
+    formatImportedService(withId),
+    formatImportedService(withoutId)
+  ]);
+
+  assert.ok(seen.ids.has('4586776'));
+  assert.ok(isServiceImported(withId, seen));
+  assert.ok(isServiceImported(withoutId, seen));
+  assert.ok(!isServiceImported({ ...withoutId, dateTime: new Date(2025, 9, 3, 9, 30) }, seen));
+});
@@ -0,0 +1,27 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { diffLines } from '../src/utils/line-diff';
+
+test('diffLines marks unchanged lines as same', () => {
+  const diff = diffLines(['a', 'b'], ['a', 'b']);
+  assert.deepEqual(diff.map(line => line.type), ['same', 'same']);
+  assert.deepEqual(diff.map(line => [line.oldLine, line.newLine]), [[1, 1], [2, 2]]);
+});
+
+test('diffLines finds added and removed lines around common ones', () => {
+  const diff = diffLines(['a', 'b', 'c'], ['a', 'c', 'd']);
+  assert.deepEqual(diff.map(line => `${line.type} ${line.text}`), ['same a', 'removed b', 'same c', 'added d']);
+  assert.equal(diff[3].newLine, 3);
+  assert.equal(diff[1].oldLine, 2);
+});
+
+test('diffLines puts a removal before the addition that replaces it', () => {
+  const diff = diffLines(['old'], ['new']);
+  assert.deepEqual(diff.map(line => line.type), ['removed', 'added']);
+});
+
+test('diffLines handles empty sides', () => {
+  assert.deepEqual(diffLines([], []), []);
+  assert.deepEqual(diffLines([], ['a']).map(line => line.type), ['added']);
+  assert.deepEqual(diffLines(['a'], []).map(line => line.type), ['removed']);
+});
@@ -0,0 +1,36 @@
+import './workspace';
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { MacroManager } from '../src/utils/macro-manager';
+import { removeUserCommand } from '../src/commands/macro';
+import { ValidationError } from '../src/utils/errors';
+
+const manager = MacroManager.getInstance();
+
+test('remove only deletes an entry of the given type', () => {
+  manager.setAlias('wo', 'details');
+  manager.setMacro('eod', ['stack', 'push']);
+
+  assert.equal(manager.remove('wo', 'macro'), false);
+  assert.equal(manager.remove('eod', 'alias'), false);
+  assert.ok(manager.findAlias('wo'));
+  assert.ok(manager.findMacro('eod'));
+
+  assert.equal(manager.remove('WO', 'alias'), true);
+  assert.equal(manager.findAlias('wo'), undefined);
+  assert.equal(manager.remove('eod', 'macro'), true);
+});
+
+test('removeUserCommand refuses a name of the other type', async () => {
+  manager.setAlias('dry', 'push --dry-run');
+  manager.setMacro('night', ['stack']);
+
+  await assert.rejects(removeUserCommand('night', 'alias'), (error: Error) =>
+    error instanceof ValidationError && /is a macro. Use 'macro rm night'/.test(error.message));
+  await assert.rejects(removeUserCommand('dry', 'macro'), /is an alias. Use 'alias rm dry'/);
+  await assert.rejects(removeUserCommand('missing', 'alias'), /No alias named "missing"/);
+  assert.ok(manager.findMacro('night'));
+  assert.ok(manager.findAlias('dry'));
+
+  assert.match(await removeUserCommand('dry', 'alias'), /Removed alias dry/);
+});
@@ -0,0 +1,92 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  parseServiceLine,
+  parseNotes,
+  parsePartLine,
+  parseDurationText,
+  formatDurationText,
+  parseNotesDatetime,
+  formatServiceLine,
+  IMPORTED_MARKER
+} from '../src/utils/notes-grammar';
+import { NotesSyntaxError } from '../src/utils/errors';
+
+test('parseServiceLine reads verb, noun, duration, time and notes', () => {
+  const node = parseServiceLine('[Replaced, Battery/Batteries] (20min) (2025-03-04 09:15) => swapped pack (||)', 7)!;
+  assert.equal(node.line, 7);
+  assert.equal(node.verb, 'Replaced');
+  assert.equal(node.noun, 'Battery/Batteries');
+  assert.equal(node.duration!.minutes, 20);
+  assert.equal(node.datetime, '2025-03-04 09:15');
+  assert.equal(node.notes, 'swapped pack');
+  assert.deepEqual(node.markers, [IMPORTED_MARKER]);
+});
+
+test('parseServiceLine treats prose and unchecked items as prose', () => {
+  assert.equal(parseServiceLine('Checked the unit, all fine', 1), null);
+  assert.equal(parseServiceLine('[see manual] p. 12, and the [wiring diagram](http://docs/wiring)', 1), null);
+  assert.equal(parseServiceLine('- [ ] [Inspected] (2025-03-04 09:15) => later', 1), null);
+  assert.equal(parseServiceLine('- [x] [Inspected] (2025-03-04 09:15) => done', 1)!.checklist, '- [x] ');
+});
+
+test('parseServiceLine reports where a service line breaks', () => {
+  assert.throws(() => parseServiceLine('[Replaced, Battery/Batteries] => no time', 3), (error: unknown) =>
+    error instanceof NotesSyntaxError && error.line === 3 && /Expected \(YYYY-MM-DD HH:MM\)/.test(error.message));
+  assert.throws(() => parseServiceLine('[Tested] (09:45-09:00) (2025-03-04 09:15) => x', 1), /ends before it starts/);
+});
+
+test('parseNotes joins continuation lines and collects parts', () => {
+  const doc = parseNotes([
+    '[Repaired, Battery/Batteries] (2025-03-04 09:15) => first line',
+    '  second line',
+    '',
+    '  > third line',
+    '+part BAT-1 x2 @12.50 "Pack"',
+    'Unindented prose ends the service',
+    '    not a continuation'
+  ].join('\n'));
+
+  assert.equal(doc.errors.length, 0);
+  assert.equal(doc.services.length, 1);
+  const [service] = doc.services;
+  assert.equal(service.notes, 'first line\nsecond line\n\nthird line');
+  assert.equal(service.endLine, 5);
+  assert.deepEqual(service.parts.map(part => [part.partNumber, part.quantity, part.cost, part.description]), [['BAT-1', 2, 12.5, 'Pack']]);
+});
+
+test('parseNotes collects errors instead of stopping at the first', () => {
+  const doc = parseNotes('[Tested (2025-03-04 09:15) => x\n+part ORPHAN\n[Tested] (2025-03-04 09:20) => ok');
+  assert.equal(doc.services.length, 1);
+  assert.deepEqual(doc.errors.map(error => error.line), [1, 2]);
+});
+
+test('parsePartLine validates each field', () => {
+  assert.equal(parsePartLine('not a part', 1), null);
+  assert.deepEqual(parsePartLine('+part ABC', 1), { type: 'part', line: 1, column: 1, partNumber: 'ABC', quantity: 1 });
+  assert.throws(() => parsePartLine('+part ABC x0', 1), /Quantity "x0"/);
+  assert.throws(() => parsePartLine('+part ABC @1 @2', 1), /Cost given twice/);
+  assert.throws(() => parsePartLine('+part ABC "open', 1), /Missing closing quote/);
+});
+
+test('durations parse and format', () => {
+  assert.equal(parseDurationText('10 min'), 10);
+  assert.equal(parseDurationText('1h15m'), 75);
+  assert.equal(parseDurationText('1.5h'), 90);
+  assert.equal(parseDurationText('09:00-09:45'), 45);
+  assert.equal(parseDurationText('09:45-09:00'), null);
+  assert.equal(parseDurationText('soon'), null);
+  assert.deepEqual([20, 60, 75].map(formatDurationText), ['20min', '1h', '1h15m']);
+});
+
+test('parseNotesDatetime rejects impossible dates', () => {
+  assert.equal(parseNotesDatetime('2025-02-30 10:00'), null);
+  assert.equal(parseNotesDatetime('2025-02-03 10-05')!.getMinutes(), 5);
+});
+
+test('formatServiceLine writes the canonical layout', () => {
+  assert.equal(
+    formatServiceLine({ verb: 'Tested', noun: 'Air Tube', duration: '20min', datetime: '2025-03-04 09:15', notes: 'ok' }),
+    '[Tested, Air Tube] (20min) (2025-03-04 09:15) => ok'
+  );
+});
@@ -0,0 +1,64 @@
+import './workspace';
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { lintNotes } from '../src/utils/notes-linter';
+
+const NOW = new Date(2025, 2, 4, 17, 0);
+
+/**
+ * Lint notes and list "line rule" for each diagnostic
+ */
+async function rules(content: string): Promise<string[]> {
+  const result = await lintNotes(content, NOW);
+  return result.diagnostics.map(diagnostic => `${diagnostic.line} ${diagnostic.rule}`);
+}
+
+test('clean notes have no diagnostics', async () => {
+  assert.deepEqual(await rules([
+    '[Replaced, Battery/Batteries] (2025-03-04 09:15) => swapped pack',
+    '[P.M.] (2025-03-04 10:00) => done'
+  ].join('\n')), []);
+});
+
+test('unknown codes, missing nouns and bad timestamps are errors', async () => {
+  assert.deepEqual(await rules([
+    '[Fixxed, Battery/Batteries] (2025-03-04 09:15) => x',
+    '[Replaced] (2025-03-04 09:20) => x',
+    '[Replaced, Battery/Batteries] (2025-03-04 18:00) => x',
+    '[Replaced, Battery/Batteries] (2025-02-30 09:00) => x'
+  ].join('\n')), ['1 unknown-verb', '2 missing-noun', '3 future-timestamp', '4 bad-timestamp']);
+});
+
+test('out-of-order and duplicate lines are warnings', async () => {
+  const result = await lintNotes([
+    '[P.M.] (2025-03-04 10:00) => done',
+    '[P.M.] (2025-03-04 09:00) => earlier',
+    '[P.M.] (2025-03-04 10:00) => done'
+  ].join('\n'), NOW);
+  assert.deepEqual(result.diagnostics.map(diagnostic => [diagnostic.line, diagnostic.rule, diagnostic.severity]), [
+    [2, 'out-of-order', 'warning'],
+    [3, 'duplicate-line', 'warning']
+  ]);
+});
+
+test('syntax errors are reported with their position', async () => {
+  const result = await lintNotes('[P.M. (2025-03-04 10:00) => done', NOW);
+  assert.equal(result.diagnostics.length, 1);
+  assert.equal(result.diagnostics[0].severity, 'error');
+  assert.equal(result.diagnostics[0].line, 1);
+});
+
+test('imported services are only checked for syntax', async () => {
+  assert.deepEqual(await rules('[Nonsense, Thing] (2030-01-01 09:00) => (||)'), []);
+});
+
+test('fixes normalize timestamps and spacing', async () => {
+  const result = await lintNotes('[P.M.]   (2025-3-4 9:05)=>done', NOW);
+  assert.equal(result.fixedContent, '[P.M.] (2025-03-04 09:05) => done');
+  assert.equal(result.fixedLines, 1);
+});
+
+test('fixes keep Windows line endings', async () => {
+  const result = await lintNotes('Notes\r\n[P.M.] (2025-3-4 9:05) => done\r\n', NOW);
+  assert.equal(result.fixedContent, 'Notes\r\n[P.M.] (2025-03-04 09:05) => done\r\n');
+});
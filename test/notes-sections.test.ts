@@ -0,0 +1,76 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  parseNotesSections,
+  findLatestSection,
+  findImportTimestamp,
+  getImportedNotesLines,
+  collectImportedNotesLines,
+  findNewImportedNotesLines
+} from '../src/utils/notes-sections';
+
+const MERGED = [
+  'Local notes',
+  '',
+  '================================',
+  'IMPORTED FROM MM ON 2025-10-02 at 09:00:12',
+  '================================',
+  '',
+  'Unit dropped off by nursing',
+  'Screen cracked',
+  '[Inspected, Battery/Batteries] (2025-10-02 09:30) => local service',
+  '',
+  '================================',
+  'IMPORTED SERVICES FROM MM @ 2025-10-02 09:00',
+  '================================',
+  '[Inspected] (30min) (2025-10-01 15:00) => (||) MM#100 by SMITH, JOHN',
+  '',
+  '================================',
+  'IMPORTED FROM MM ON 2025-10-06 at 14:20:00',
+  '================================',
+  '',
+  'Parts ordered',
+  '',
+  '================================',
+  'IMPORTED SERVICES FROM MM @ 2025-10-06 14:20',
+  '================================',
+  '[Replaced, Screen, Phosphor] (1h) (2025-10-06 11:00) => (||) MM#101 by SMITH, JOHN',
+  ''
+].join('\n');
+
+test('parseNotesSections splits banners and reads their timestamps', () => {
+  const sections = parseNotesSections(MERGED);
+  assert.deepEqual(sections.map(section => section.kind),
+    ['preamble', 'imported-notes', 'imported-services', 'imported-notes', 'imported-services']);
+  assert.equal(sections[1].timestamp, '2025-10-02 at 09:00:12');
+  assert.deepEqual(sections[1].date, new Date(2025, 9, 2, 9, 0, 12));
+  assert.equal(sections[1].startLine, 3);
+  assert.equal(sections[1].bodyStartLine, 6);
+  assert.equal(findLatestSection(sections, 'imported-notes'), sections[3]);
+});
+
+test('findImportTimestamp uses the first import, not a merged one', () => {
+  assert.equal(findImportTimestamp(MERGED), '2025-10-02 09:00');
+  assert.equal(findImportTimestamp('Local notes only\n'), null);
+});
+
+test('getImportedNotesLines leaves out service lines and placeholders', () => {
+  const sections = parseNotesSections(MERGED);
+  assert.deepEqual(getImportedNotesLines(sections[1]), ['Unit dropped off by nursing', 'Screen cracked']);
+
+  const placeholder = parseNotesSections('================================\nIMPORTED FROM MM ON 2025-10-02\n================================\n\n~No notes found in Medimizer~\n');
+  assert.deepEqual(getImportedNotesLines(placeholder[0]), []);
+});
+
+test('collectImportedNotesLines joins every import in order', () => {
+  assert.deepEqual(collectImportedNotesLines(parseNotesSections(MERGED)),
+    ['Unit dropped off by nursing', 'Screen cracked', '', 'Parts ordered']);
+  assert.deepEqual(collectImportedNotesLines(parseNotesSections('Local notes only\n')), []);
+});
+
+test('findNewImportedNotesLines keeps lines repeated after the last import', () => {
+  const sections = parseNotesSections(MERGED);
+  const remote = 'Unit dropped off by nursing\nScreen cracked\n\nParts ordered\nScreen cracked\nWaiting on vendor\n';
+  assert.deepEqual(findNewImportedNotesLines(sections, remote), ['Screen cracked', 'Waiting on vendor']);
+  assert.deepEqual(findNewImportedNotesLines(sections, 'Unit dropped off by nursing\nScreen cracked\n\nParts ordered'), []);
+});
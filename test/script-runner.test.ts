@@ -0,0 +1,24 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { getBuiltInVariables, parseAssignment, expandVariables } from '../src/utils/script-runner';
+import { ValidationError } from '../src/utils/errors';
+
+test('TODAY is the local date', () => {
+  const now = new Date();
+  const pad = (value: number) => value.toString().padStart(2, '0');
+  const before = `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`;
+  const { TODAY } = getBuiltInVariables();
+  const after = new Date();
+  assert.ok(TODAY === before || TODAY === `${after.getFullYear()}-${pad(after.getMonth() + 1)}-${pad(after.getDate())}`);
+});
+
+test('parseAssignment upper-cases the name and keeps the value', () => {
+  assert.deepEqual(parseAssignment('wo=1234567'), { name: 'WO', value: '1234567' });
+  assert.deepEqual(parseAssignment('NOTE=a=b'), { name: 'NOTE', value: 'a=b' });
+  assert.throws(() => parseAssignment('1WO=x'), ValidationError);
+});
+
+test('expandVariables replaces $NAME and ${NAME}, leaving escaped ones for the tokenizer', () => {
+  assert.equal(expandVariables('stack $WO; echo ${WO}x \\$WO', { WO: '1234567' }), 'stack 1234567; echo 1234567x \\$WO');
+  assert.throws(() => expandVariables('echo $MISSING', {}), ValidationError);
+});
@@ -0,0 +1,35 @@
+import { TEST_WORKSPACE } from './workspace';
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import path from 'path';
+import { markServicePushed, StackableService } from '../src/utils/service-parser';
+
+const PUSHED_AT = new Date(2025, 2, 4, 17, 0);
+const LINE = '[P.M.] (2025-03-04 10:00) => done';
+
+/**
+ * Write a notes file and a service stacked from one of its lines
+ */
+function stacked(lines: string[], line: number): { file: string; service: StackableService } {
+  const file = path.join(TEST_WORKSPACE, `notes-${line}-${lines.length}.md`);
+  fs.writeFileSync(file, lines.join('\n'));
+  return {
+    file,
+    service: { verb_code: 1, verb: 'P.M.', datetime: '2025-03-04 10:00', notes: 'done', source: { file, line, text: LINE } }
+  };
+}
+
+test('markServicePushed marks the recorded line among repeats', async () => {
+  const { file, service } = stacked([LINE, LINE], 2);
+  assert.equal(await markServicePushed(service, PUSHED_AT), true);
+  assert.deepEqual(fs.readFileSync(file, 'utf8').split('\n'), [LINE, `${LINE} (||) pushed 2025-03-04 17:00`]);
+});
+
+test('markServicePushed only reports its own line as already marked', async () => {
+  const { service } = stacked([`${LINE} (||) pushed 2025-03-04 16:00`, 'Moved down', LINE, LINE], 1);
+  assert.equal(await markServicePushed(service, PUSHED_AT), true);
+
+  const other = stacked([`${LINE} (||) pushed 2025-03-04 16:00`, 'Edited', LINE, LINE], 2);
+  assert.equal(await markServicePushed(other.service, PUSHED_AT), false);
+});
@@ -0,0 +1,50 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { tokenize, tokenizePartial, splitCommands, quoteToken, parseArguments, findUnquoted } from '../src/utils/tokenizer';
+import { ValidationError } from '../src/utils/errors';
+
+test('tokenize splits on whitespace and honors quotes and escapes', () => {
+  assert.deepEqual(tokenize('service 1234567 Replace "Air Tube" 15'), ['service', '1234567', 'Replace', 'Air Tube', '15']);
+  assert.deepEqual(tokenize(`note 'it''s' "a \\"b\\"" c\\ d`), ['note', 'its', 'a "b"', 'c d']);
+  assert.deepEqual(tokenize('   '), []);
+});
+
+test('tokenize rejects an open quote', () => {
+  assert.throws(() => tokenize("svc 1234567 didn't"), ValidationError);
+  assert.throws(() => tokenize('svc "open'), /Unterminated double quote/);
+});
+
+test('tokenizePartial keeps the word being typed, open quote included', () => {
+  assert.deepEqual(tokenizePartial('service 12'), { tokens: ['service'], word: '12', rawWord: '12' });
+  assert.deepEqual(tokenizePartial('service "Air T'), { tokens: ['service'], word: 'Air T', rawWord: '"Air T' });
+  assert.deepEqual(tokenizePartial('service '), { tokens: ['service'], word: '', rawWord: '' });
+});
+
+test('splitCommands splits on semicolons outside quotes', () => {
+  assert.deepEqual(splitCommands('stack 1234567; push --dry-run;;'), ['stack 1234567', 'push --dry-run']);
+  assert.deepEqual(splitCommands('echo "a;b"; echo c'), ['echo "a;b"', 'echo c']);
+});
+
+test('quoteToken round-trips through tokenize', () => {
+  for (const value of ['plain', 'two words', 'say "hi"', 'back\\slash', '']) {
+    assert.deepEqual(tokenize(quoteToken(value)), [value]);
+  }
+});
+
+test('parseArguments separates flags from positionals', () => {
+  const parsed = parseArguments(['a', '--dry-run', '--at=09:00', '--dur', '20m', '-xv', '-5', '--', '--literal'], ['dur']);
+  assert.deepEqual(parsed.positionals, ['a', '-5', '--literal']);
+  assert.deepEqual(parsed.flags.map(flag => [flag.name, flag.value]), [
+    ['dry-run', undefined],
+    ['at', '09:00'],
+    ['dur', '20m'],
+    ['x', undefined],
+    ['v', undefined]
+  ]);
+});
+
+test('findUnquoted skips quoted and escaped text', () => {
+  assert.equal(findUnquoted('svc 1 Test => ok', '=>'), 11);
+  assert.equal(findUnquoted(`svc 1 "a => b" \\=> c => d`, '=>'), 21);
+  assert.equal(findUnquoted(`svc 1 'a => b'`, '=>'), -1);
+});
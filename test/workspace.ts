@@ -0,0 +1,14 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Workspace } from '../src/utils/workspace';
+
+/**
+ * Point the workspace at a fresh temporary directory
+ *
+ * Import this before anything that reads the workspace, so tests never touch real data.
+ */
+export const TEST_WORKSPACE = fs.mkdtempSync(path.join(os.tmpdir(), 'ce-cli-test-'));
+Workspace.setRootOverride(TEST_WORKSPACE);
+
+process.on('exit', () => fs.rmSync(TEST_WORKSPACE, { recursive: true, force: true }));